@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { randomBytes } from 'crypto';
 import type { 
   AnalysisRequest, 
@@ -5,21 +6,34 @@ import type {
   AnalysisStatus,
   AIReport,
   UnifiedInvoice,
-  Lab402Config 
+  ResolvedLab402Config,
+  Lab402Event
 } from './types';
 import type { Payment402 } from './Payment402';
+import type { PaymentReceipt, RefundDecision, EscrowAccount } from './payment-types';
+import type { ApprovalRequest } from './approval-types';
+import type { ApprovalManager } from './ApprovalManager';
+import type { Reservation } from './schedule-types';
+import type { InstrumentScheduler } from './InstrumentScheduler';
+import type { JobQueue } from './JobQueue';
+import type { JobRequest, QueuePosition } from './queue-types';
+import { RefundPolicy } from './RefundPolicy';
+import { ApprovalRequiredError, ApprovalRejectedError, ReservationError } from './errors';
+
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_DELAY = 2147483647;
 
 interface AnalysisConfig {
   request: AnalysisRequest;
-  config: Required<Lab402Config>;
+  config: ResolvedLab402Config;
   payment: Payment402;
   invoice: UnifiedInvoice;
 }
 
-export class Analysis {
+export class Analysis extends EventEmitter {
   public readonly id: string;
   private request: AnalysisRequest;
-  private config: Required<Lab402Config>;
+  private config: ResolvedLab402Config;
   private payment: Payment402;
   private invoice: UnifiedInvoice;
   private startTime: number;
@@ -27,53 +41,276 @@ export class Analysis {
   private costAccumulated: number;
   private dataGenerated: number;
   private report?: AIReport;
+  private receipt?: PaymentReceipt;
+  private escrow?: EscrowAccount;
+  private approvalId?: string;
+  private approvals?: ApprovalManager;
+  private reservation?: Reservation;
+  private scheduler?: InstrumentScheduler;
+  private queue?: JobQueue;
+  private job?: JobRequest;
+  private wake?: () => void;
+  private submission?: Promise<void>;
 
   constructor(config: AnalysisConfig) {
+    super();
     this.id = randomBytes(16).toString('hex');
     this.request = config.request;
     this.config = config.config;
     this.payment = config.payment;
-    this.invoice = config.invoice;
+    this.invoice = { ...config.invoice, analysisId: this.id };
     this.startTime = 0;
     this.status = 'pending';
     this.costAccumulated = 0;
     this.dataGenerated = 0;
   }
 
+  /**
+   * Hold the analysis in awaiting-approval until `approval` is granted.
+   * The invoice is recorded, and paid at start(), only after sign-off.
+   */
+  requireApproval(approval: ApprovalRequest, approvals: ApprovalManager): void {
+    if (this.status !== 'pending') {
+      throw new Error('Analysis already started');
+    }
+
+    this.approvalId = approval.id;
+    this.approvals = approvals;
+    this.status = 'awaiting-approval';
+  }
+
+  /**
+   * Run in a reserved slot: start() waits for it and the invoice is issued then
+   */
+  useReservation(reservation: Reservation, scheduler: InstrumentScheduler): void {
+    this.reservation = reservation;
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Wait for a turn on the lab instrument's queue at run()
+   */
+  useQueue(queue: JobQueue, job: JobRequest): void {
+    this.queue = queue;
+    this.job = job;
+  }
+
+  /**
+   * Resolves once the approval is granted; rejects with ApprovalRejectedError otherwise
+   */
+  async waitForApproval(): Promise<void> {
+    if (!this.approvalId) return;
+
+    await this.approvals!.waitFor(this.approvalId);
+    this.syncApproval();
+  }
+
   async start(): Promise<void> {
+    this.syncApproval();
+
+    if (this.status === 'awaiting-approval') {
+      const outstanding = this.approvals!.getOutstanding(this.getApproval()!);
+      throw new ApprovalRequiredError(`Analysis ${this.id}`, outstanding.map(r => r.reason), this.approvalId);
+    }
+
+    if (this.status === 'rejected') {
+      throw new ApprovalRejectedError(this.getApproval()!);
+    }
+
     if (this.status !== 'pending') {
       throw new Error('Analysis already started');
     }
 
-    // Process 402 payment
-    await this.payment.processPayment(this.invoice);
+    // Reserved runs wait for their slot before paying
+    if (this.reservation) {
+      try {
+        await this.waitForSlot(this.reservation);
+      } catch (error) {
+        this.emitEvent('analysis.failed', {
+          analysisId: this.id,
+          stage: 'scheduling',
+          error: (error as Error).message,
+          paid: false
+        });
+        throw error;
+      }
+      if (this.isCancelled()) return;
+    }
+
+    // Approval or a reservation can outlast the original quote; relock it before the invoice is issued
+    if (this.invoice.expiresAt <= Date.now()) {
+      this.invoice = await this.payment.quoteInvoice({ ...this.invoice, expiresAt: Date.now() + 3600000 });
+    }
+    if (this.isCancelled()) return;
+    this.payment.recordInvoice(this.invoice, { analysisId: this.id });
+
+    this.submission = this.submit();
+    await this.submission;
+
+    // cancel() settles a run cancelled during submission once the gateway has answered
+    if (this.isCancelled()) return;
 
     this.status = 'running';
     this.startTime = Date.now();
+    this.emitEvent('analysis.started', {
+      analysisId: this.id,
+      instrument: this.request.instrument
+    });
 
-    // Mock: Start instrument analysis
     console.log(`Starting ${this.request.instrument} analysis...`);
   }
 
+  /**
+   * Open the escrow of a streaming run, then submit the run to the lab gateway
+   */
+  private async submit(): Promise<void> {
+    const billing = this.request.billing || 'upfront';
+
+    // Streaming runs prepay into escrow and are charged per stage
+    if (billing === 'streaming') {
+      this.escrow = await this.payment.openEscrow(this.invoice, { analysisId: this.id });
+      this.emitEvent('escrow.opened', {
+        analysisId: this.id,
+        escrowId: this.escrow.id,
+        deposit: this.escrow.deposit,
+        txHash: this.escrow.depositTxHash
+      });
+      if (this.isCancelled()) return;
+    }
+
+    // Submit to the lab gateway, settling its 402 challenge
+    try {
+      const { receipt } = await this.payment.requestWithPayment({
+        method: 'POST',
+        path: '/analyses',
+        body: {
+          analysisId: this.id,
+          instrument: this.request.instrument,
+          priority: this.request.priority || 'normal',
+          invoice: this.invoice,
+          billing,
+          escrowId: this.escrow?.id,
+          reservationId: this.reservation?.id
+        }
+      });
+      this.receipt = receipt;
+    } catch (error) {
+      // Don't leave the deposit locked, or the instrument taken, if the lab never accepted the run
+      await this.releaseEscrow('Analysis submission failed');
+      this.emitEvent('analysis.failed', {
+        analysisId: this.id,
+        stage: 'submission',
+        error: (error as Error).message,
+        paid: this.hasPaid()
+      });
+      throw error;
+    }
+  }
+
+  private async waitForSlot(reservation: Reservation): Promise<void> {
+    if (reservation.end <= Date.now()) {
+      throw new ReservationError(reservation.id, `Reservation ${reservation.id} ended at ${new Date(reservation.end).toISOString()}`, 'RESERVATION_ENDED');
+    }
+
+    if (reservation.start <= Date.now()) return;
+
+    this.status = 'scheduled';
+    console.log(`Waiting for reserved slot at ${new Date(reservation.start).toISOString()}...`);
+
+    while (Date.now() < reservation.start && !this.isCancelled()) {
+      await this.pause(reservation.start - Date.now());
+    }
+
+    if (!this.isCancelled()) {
+      this.status = 'pending';
+    }
+  }
+
+  private async waitForTurn(): Promise<void> {
+    const job = this.queue!.enqueue(this.job!, () => this.wake?.());
+    if (job.status === 'running') return;
+
+    this.status = 'queued';
+    console.log(`Queued for ${this.request.instrument} at position ${this.queue!.getPosition(this.id)!.position}...`);
+
+    while (this.queue!.getJob(this.id)?.status === 'queued' && !this.isCancelled()) {
+      await this.pause(MAX_TIMER_DELAY);
+    }
+  }
+
+  /**
+   * Spend `duration` ms on the instrument, sitting out any preemption by a
+   * higher priority job
+   */
+  private async useInstrument(duration: number): Promise<void> {
+    let remaining = duration;
+
+    while (remaining > 0 && !this.isCancelled()) {
+      if (this.queue?.getJob(this.id)?.status === 'preempted') {
+        this.status = 'preempted';
+        console.log('Preempted by a higher priority run, waiting to resume...');
+
+        while (this.queue.getJob(this.id)?.status === 'preempted' && !this.isCancelled()) {
+          await this.pause(MAX_TIMER_DELAY);
+        }
+
+        if (this.isCancelled()) return;
+        this.status = 'processing';
+      }
+
+      const began = Date.now();
+      await this.pause(remaining);
+      remaining -= Date.now() - began;
+    }
+  }
+
+  /**
+   * Sleep up to `ms`, waking early on cancel() or a queue change
+   */
+  private pause(ms: number): Promise<void> {
+    return new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, Math.min(ms, MAX_TIMER_DELAY));
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = undefined;
+        resolve();
+      };
+    });
+  }
+
   async run(): Promise<void> {
     if (this.status !== 'running') {
       throw new Error('Analysis not running');
     }
 
     // Mock: Run analysis pipeline
-    this.status = 'processing';
     const instrumentTime = Math.random() * 60000 + 30000; // 30-90s
-    await new Promise(resolve => setTimeout(resolve, instrumentTime));
+    try {
+      // Paid runs take their turn here, so concurrent start() calls don't wait on each other
+      if (this.queue) {
+        await this.waitForTurn();
+        if (this.isCancelled()) return;
+      }
+
+      this.status = 'processing';
+      await this.useInstrument(instrumentTime);
+      if (this.isCancelled()) return;
+      this.queue?.complete(this.id);
+    } finally {
+      // A run that stopped short must not keep its turn on the instrument
+      this.queue?.remove(this.id, 'Analysis stopped before finishing on the instrument');
+    }
 
     // Accumulate costs
-    this.costAccumulated = this.invoice.instrumentCost;
+    await this.accrue(this.invoice.instrumentCost, 'Instrument time');
     this.dataGenerated = Math.random() * 1000000000; // 0-1GB
 
     // If compute requested, run data processing
     if (this.request.compute) {
       const computeTime = Math.random() * 30000 + 10000; // 10-40s
       await new Promise(resolve => setTimeout(resolve, computeTime));
-      this.costAccumulated += this.invoice.computeCost;
+      if (this.isCancelled()) return;
+      await this.accrue(this.invoice.computeCost, 'Data processing');
     }
 
     // If AI interpretation requested
@@ -81,13 +318,54 @@ export class Analysis {
       this.status = 'interpreting';
       const aiTime = Math.random() * 20000 + 10000; // 10-30s
       await new Promise(resolve => setTimeout(resolve, aiTime));
-      this.costAccumulated += this.invoice.aiCost;
+      if (this.isCancelled()) return;
+      await this.accrue(this.invoice.aiCost, 'AI interpretation');
 
       // Generate AI report
       this.report = await this.generateReport();
     }
 
+    if (this.isCancelled()) return;
+    await this.accrue(this.invoice.storageCost, 'Data storage');
+
     this.status = 'completed';
+    this.payment.recordCompletion(this.invoice.analysisId, this.costAccumulated, {
+      analysisId: this.id
+    });
+
+    await this.releaseEscrow('Analysis completed');
+  }
+
+  /**
+   * Add a stage's cost to the running total, charging the escrow in streaming mode
+   */
+  private async accrue(amount: number, description: string): Promise<void> {
+    this.costAccumulated += amount;
+
+    if (!this.escrow || amount <= 0) return;
+
+    this.escrow = await this.payment.chargeEscrow(this.escrow.id, amount, description);
+    this.emitEvent('escrow.charged', {
+      analysisId: this.id,
+      escrowId: this.escrow.id,
+      amount,
+      description,
+      charged: this.escrow.charged,
+      remaining: this.escrow.deposit - this.escrow.charged
+    });
+  }
+
+  private async releaseEscrow(reason: string): Promise<void> {
+    if (!this.escrow || this.escrow.status !== 'open') return;
+
+    this.escrow = await this.payment.releaseEscrow(this.escrow.id, reason);
+    this.emitEvent('escrow.released', {
+      analysisId: this.id,
+      escrowId: this.escrow.id,
+      charged: this.escrow.charged,
+      released: this.escrow.released,
+      txHash: this.escrow.releaseTxHash
+    });
   }
 
   private async generateReport(): Promise<AIReport> {
@@ -156,23 +434,179 @@ export class Analysis {
     };
   }
 
-  async cancel(): Promise<void> {
-    if (this.status === 'completed' || this.status === 'failed') {
-      throw new Error('Cannot cancel completed or failed analysis');
+  /**
+   * Cancel the analysis. Upfront payments are refunded per the refund policy;
+   * streaming runs only paid for completed stages, so the escrow remainder is
+   * released instead and no refund decision is returned.
+   */
+  async cancel(): Promise<RefundDecision | undefined> {
+    this.syncApproval();
+
+    if (this.status === 'completed' || this.status === 'failed' || this.status === 'rejected') {
+      throw new Error(`Cannot cancel ${this.status} analysis`);
+    }
+
+    if (this.status === 'cancelled') {
+      throw new Error('Analysis already cancelled');
     }
 
+    const stage = this.status;
     this.status = 'cancelled';
-    
-    // Partial refund for cancelled analysis
-    const refund = this.costAccumulated * 0.5;
-    console.log(`Analysis cancelled. Refund: $${refund.toFixed(2)}`);
+    this.wake?.();
+    this.queue?.remove(this.id, 'Analysis cancelled');
+
+    // A submission in flight may still pay; settle against what it paid
+    await this.submission?.catch(() => undefined);
+
+    this.emitEvent('analysis.cancelled', { analysisId: this.id, stage, paid: this.hasPaid() });
+
+    // Nothing was invoiced yet; withdraw the approval instead
+    if (stage === 'awaiting-approval') {
+      this.approvals!.cancel(this.approvalId!, 'Analysis cancelled');
+      this.releaseReservation();
+      return undefined;
+    }
+
+    // Still waiting for the slot: nothing paid, so just free the slot
+    if (stage === 'scheduled') {
+      this.releaseReservation();
+      return undefined;
+    }
+
+    if (stage === 'pending') {
+      this.releaseReservation();
+    }
+
+    if (this.escrow) {
+      await this.releaseEscrow(`Analysis cancelled while ${stage}`);
+      console.log(`Analysis cancelled. Escrow released: $${this.escrow.released.toFixed(2)}`);
+      return undefined;
+    }
+
+    // A preempted run has used part of its instrument time; a queued one none yet
+    const refundStage = stage === 'preempted' ? 'running' : stage === 'queued' ? 'pending' : stage;
+
+    if (!RefundPolicy.isRefundableStage(refundStage)) {
+      return undefined;
+    }
+
+    // Refund against what the ledger says was actually paid
+    const paid = this.payment.getLedger().getNetPaid(this.invoice.analysisId);
+    const decision = this.config.refundPolicy.decide(this.invoice, refundStage, paid);
+
+    console.log(`Analysis cancelled. Refund: $${decision.amount.toFixed(2)}`);
+
+    if (decision.amount > 0) {
+      const txHash = await this.payment.refund(
+        decision.amount,
+        decision.reason,
+        this.invoice.analysisId,
+        { analysisId: this.id }
+      );
+
+      this.emitEvent('payment.refunded', {
+        analysisId: this.id,
+        amount: decision.amount,
+        stage: decision.stage,
+        breakdown: decision.breakdown,
+        txHash
+      });
+    }
+
+    return decision;
   }
 
   getStatus(): AnalysisStatus {
+    this.syncApproval();
     return this.status;
   }
 
+  /**
+   * A copy of the approval as it stands; getStatus() follows its outcome
+   */
+  getApproval(): ApprovalRequest | undefined {
+    return this.approvalId ? this.approvals!.getApproval(this.approvalId) : undefined;
+  }
+
+  getReservation(): Reservation | undefined {
+    return this.reservation;
+  }
+
+  /**
+   * Place in the instrument queue once run() has queued it; position 0
+   * means it has the instrument
+   */
+  getQueuePosition(): QueuePosition | undefined {
+    return this.queue?.getPosition(this.id);
+  }
+
+  /**
+   * When the run is expected to get the instrument
+   */
+  getEstimatedStart(): number | undefined {
+    return this.getQueuePosition()?.estimatedStart;
+  }
+
+  /**
+   * Whether money has moved for the run: a settled payment, an open escrow, or
+   * a deposit that wasn't returned when its escrow failed to open
+   */
+  private hasPaid(): boolean {
+    const entries = this.payment.getLedger().query({ invoiceId: this.invoice.analysisId });
+    const held = entries.reduce((sum, entry) =>
+      entry.type === 'escrow-deposit' ? sum + entry.amount :
+      entry.type === 'escrow-release' ? sum - entry.amount : sum, 0);
+
+    return !!this.escrow || held > 1e-9 || entries.some(entry => entry.type === 'settlement');
+  }
+
+  private releaseReservation(): void {
+    const current = this.reservation && this.scheduler?.getReservation(this.reservation.id);
+
+    if (current && current.status === 'reserved' && current.end > Date.now()) {
+      this.scheduler!.release(current.id, 'Analysis cancelled');
+    }
+  }
+
+  /**
+   * Follow the approval's outcome out of awaiting-approval
+   */
+  private syncApproval(): void {
+    if (this.status !== 'awaiting-approval') return;
+
+    const { status } = this.getApproval()!;
+    if (status === 'approved') {
+      this.status = 'pending';
+    } else if (status === 'rejected') {
+      this.status = 'rejected';
+    } else if (status === 'cancelled') {
+      this.status = 'cancelled';
+    }
+  }
+
+  private isCancelled(): boolean {
+    return this.status === 'cancelled';
+  }
+
+  private emitEvent(type: Lab402Event['type'], data: any): void {
+    const event: Lab402Event = {
+      type,
+      timestamp: Date.now(),
+      data
+    };
+
+    this.emit(type, event);
+  }
+
   getInvoice(): UnifiedInvoice {
     return { ...this.invoice };
   }
+
+  getReceipt(): PaymentReceipt | undefined {
+    return this.receipt;
+  }
+
+  getEscrow(): EscrowAccount | undefined {
+    return this.escrow;
+  }
 }
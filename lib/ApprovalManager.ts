@@ -0,0 +1,401 @@
+// ApprovalManager - sign-offs required before expensive or sensitive analyses are paid for
+
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import type { Lab402Event, ResearcherIdentity } from './types';
+import type {
+  ApprovalRule,
+  ApprovalContext,
+  ApprovalRequirement,
+  ApprovalRequest,
+  ApprovalSignoff,
+  ApprovalManagerOptions,
+  ApproverSignature
+} from './approval-types';
+import type { ProofChallenge } from './identity-types';
+import { ProofVerifier } from './ProofVerifier';
+import { checkSignedCredential } from './Identity403';
+import { ApprovalError, ApprovalRejectedError } from './errors';
+
+export const DEFAULT_APPROVAL_RULES: ApprovalRule[] = [
+  {
+    id: 'x-ray-diffraction',
+    description: 'X-ray diffraction runs need a sign-off',
+    instruments: ['x-ray-diffraction']
+  },
+  {
+    id: 'high-value',
+    description: 'Invoices of $1000 or more need a sign-off',
+    minAmount: 1000
+  }
+];
+
+function copyRequirement(requirement: ApprovalRequirement): ApprovalRequirement {
+  return { ...requirement, approvers: requirement.approvers ? [...requirement.approvers] : undefined };
+}
+
+export class ApprovalManager extends EventEmitter {
+  private rules: ApprovalRule[];
+  private approvals: Map<string, ApprovalRequest>;
+  private verifier: ProofVerifier;
+  private challenges: Map<string, string>; // Outstanding nonce -> approval ID
+  private trustedIssuers: Set<string>;
+  private revoked: Set<string>;
+
+  /**
+   * Sign-offs are only accepted from researchers presenting a credential from
+   * one of `options.trustedIssuers`, so a manager without any accepts none
+   */
+  constructor(rules: ApprovalRule[] = DEFAULT_APPROVAL_RULES, options: ApprovalManagerOptions = {}) {
+    super();
+    this.rules = [];
+    this.approvals = new Map();
+    this.verifier = new ProofVerifier({ audience: 'lab402-approvals', ...options.proofs });
+    this.challenges = new Map();
+    this.trustedIssuers = new Set(options.trustedIssuers || []);
+    this.revoked = new Set(options.revoked || []);
+
+    rules.forEach(rule => this.addRule(rule));
+  }
+
+  addRule(rule: ApprovalRule): void {
+    if (this.rules.some(r => r.id === rule.id)) {
+      throw new Error(`Approval rule ${rule.id} already exists`);
+    }
+
+    this.rules.push(rule);
+  }
+
+  removeRule(ruleId: string): boolean {
+    const before = this.rules.length;
+    this.rules = this.rules.filter(rule => rule.id !== ruleId);
+    return this.rules.length < before;
+  }
+
+  getRules(): ApprovalRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Requirements a request must meet before it can be paid; empty when none apply
+   */
+  evaluate(context: ApprovalContext): ApprovalRequirement[] {
+    const requirements: ApprovalRequirement[] = this.rules
+      .filter(rule => this.applies(rule, context))
+      .map(rule => ({
+        rule: rule.id,
+        reason: rule.description || `Matched approval rule ${rule.id}`,
+        requiredApprovals: rule.requiredApprovals ?? 1,
+        approvers: rule.approvers ? [...rule.approvers] : undefined
+      }));
+
+    if (context.decision?.effect === 'require-approval') {
+      requirements.push({
+        rule: `policy:${context.decision.rule?.id || 'default'}`,
+        reason: context.decision.explanation,
+        requiredApprovals: 1
+      });
+    }
+
+    return requirements;
+  }
+
+  /**
+   * Open an approval for an analysis; it stays pending until every requirement is met
+   */
+  open(
+    subject: string,
+    context: ApprovalContext,
+    requirements: ApprovalRequirement[] = this.evaluate(context)
+  ): ApprovalRequest {
+    const approval: ApprovalRequest = {
+      id: randomBytes(8).toString('hex'),
+      subject,
+      instrument: context.instrument,
+      amount: context.amount,
+      requester: context.identity.id,
+      delegate: context.identity.delegation?.delegate,
+      requirements: requirements.map(copyRequirement),
+      status: 'pending',
+      signoffs: [],
+      createdAt: Date.now()
+    };
+
+    this.approvals.set(approval.id, approval);
+
+    console.log(`Approval ${approval.id} requested for ${approval.instrument}: ${requirements.map(r => r.reason).join('; ')}`);
+
+    this.emitEvent('approval.requested', { approval: this.snapshot(approval) });
+
+    return this.snapshot(approval);
+  }
+
+  trustIssuer(publicKey: string): void {
+    this.trustedIssuers.add(publicKey);
+  }
+
+  revokeCredential(credentialId: string): void {
+    this.revoked.add(credentialId);
+  }
+
+  /**
+   * Nonce an approver signs with their researcher key to sign off `approvalId`;
+   * each one is good for a single approve() or reject()
+   */
+  issueChallenge(approvalId: string): ProofChallenge {
+    this.requirePending(approvalId);
+
+    const challenge = this.verifier.issueNonce();
+    this.challenges.set(challenge.nonce, approvalId);
+
+    return challenge;
+  }
+
+  /**
+   * Sign off with a verified credential. Emits approval.granted for the
+   * sign-off and approval.approved once every requirement has enough approvals.
+   */
+  approve(approvalId: string, signature: ApproverSignature, comment?: string): ApprovalRequest {
+    const { approval, approver } = this.requireSignable(approvalId, signature);
+    const signoff = this.addSignoff(approval, approver, 'approve', comment);
+
+    this.emitEvent('approval.granted', {
+      approvalId,
+      subject: approval.subject,
+      signoff,
+      outstanding: this.getOutstanding(approval)
+    });
+
+    if (this.getOutstanding(approval).length === 0) {
+      this.resolve(approval, 'approved');
+    }
+
+    return this.snapshot(approval);
+  }
+
+  /**
+   * A single eligible rejection rejects the whole approval
+   */
+  reject(approvalId: string, signature: ApproverSignature, reason?: string): ApprovalRequest {
+    const { approval, approver } = this.requireSignable(approvalId, signature);
+    this.addSignoff(approval, approver, 'reject', reason);
+    this.resolve(approval, 'rejected', reason);
+
+    return this.snapshot(approval);
+  }
+
+  /**
+   * Withdraw a pending approval, e.g. because its analysis was cancelled
+   */
+  cancel(approvalId: string, reason?: string): ApprovalRequest {
+    const approval = this.requirePending(approvalId);
+    this.resolve(approval, 'cancelled', reason);
+
+    return this.snapshot(approval);
+  }
+
+  /**
+   * A copy of the approval as it stands; changing it doesn't change the approval
+   */
+  getApproval(approvalId: string): ApprovalRequest | undefined {
+    const approval = this.approvals.get(approvalId);
+    return approval && this.snapshot(approval);
+  }
+
+  /**
+   * Pending approvals, optionally only those `approver` can still sign
+   */
+  getPending(approver?: string): ApprovalRequest[] {
+    return Array.from(this.approvals.values())
+      .filter(approval =>
+        approval.status === 'pending' &&
+        (approver === undefined || this.canSign(approval, approver))
+      )
+      .map(approval => this.snapshot(approval));
+  }
+
+  /**
+   * Requirements that still need approvals, as of now even for an older copy of the approval
+   */
+  getOutstanding(approval: ApprovalRequest): ApprovalRequirement[] {
+    const current = this.approvals.get(approval.id) ?? approval;
+
+    return current.requirements
+      .filter(requirement => {
+        const approvals = current.signoffs.filter(s =>
+          s.decision === 'approve' &&
+          (!requirement.approvers || requirement.approvers.includes(s.approver))
+        );
+
+        return approvals.length < requirement.requiredApprovals;
+      })
+      .map(copyRequirement);
+  }
+
+  /**
+   * Resolve once the approval is granted; rejects with ApprovalRejectedError if
+   * it is rejected or cancelled
+   */
+  waitFor(approvalId: string): Promise<ApprovalRequest> {
+    const approval = this.requireApproval(approvalId);
+
+    if (approval.status !== 'pending') {
+      return this.settled(approval);
+    }
+
+    return new Promise((resolve, reject) => {
+      const listener = (event: Lab402Event) => {
+        if (event.data.approvalId !== approvalId) return;
+
+        this.off('approval.approved', listener);
+        this.off('approval.rejected', listener);
+        this.off('approval.cancelled', listener);
+        this.settled(approval).then(resolve, reject);
+      };
+
+      this.on('approval.approved', listener);
+      this.on('approval.rejected', listener);
+      this.on('approval.cancelled', listener);
+    });
+  }
+
+  private settled(approval: ApprovalRequest): Promise<ApprovalRequest> {
+    return approval.status === 'approved'
+      ? Promise.resolve(this.snapshot(approval))
+      : Promise.reject(new ApprovalRejectedError(this.snapshot(approval)));
+  }
+
+  private snapshot(approval: ApprovalRequest): ApprovalRequest {
+    return {
+      ...approval,
+      requirements: approval.requirements.map(copyRequirement),
+      signoffs: approval.signoffs.map(signoff => ({ ...signoff }))
+    };
+  }
+
+  private applies(rule: ApprovalRule, context: ApprovalContext): boolean {
+    if (rule.instruments && !rule.instruments.includes(context.instrument)) return false;
+    if (rule.minAmount !== undefined && context.amount < rule.minAmount) return false;
+    return true;
+  }
+
+  private canSign(approval: ApprovalRequest, approver: string, publicKey?: string): boolean {
+    // Nobody approves their own request, including the delegate who made it
+    if (approver === approval.requester) return false;
+    if (publicKey !== undefined && publicKey === approval.delegate) return false;
+    if (approval.signoffs.some(s => s.approver === approver)) return false;
+
+    return approval.requirements.some(r => !r.approvers || r.approvers.includes(approver));
+  }
+
+  private requireSignable(
+    approvalId: string,
+    signature: ApproverSignature
+  ): { approval: ApprovalRequest; approver: ResearcherIdentity } {
+    const approval = this.requirePending(approvalId);
+    const approver = this.verifySigner(approvalId, signature);
+
+    if (!this.canSign(approval, approver.id, approver.publicKey)) {
+      throw new ApprovalError(approvalId, `${approver.id} cannot sign approval ${approvalId}`, 'APPROVER_NOT_ALLOWED');
+    }
+
+    return { approval, approver };
+  }
+
+  /**
+   * The researcher behind a sign-off: the proof must answer a challenge issued
+   * for this approval and be signed by the key the trusted credential names
+   */
+  private verifySigner(approvalId: string, signature: ApproverSignature): ResearcherIdentity {
+    const { credential, proof } = signature || {};
+
+    if (!credential?.credential || !proof) {
+      throw new ApprovalError(approvalId, 'Sign-offs need a credential and a key proof', 'APPROVER_UNVERIFIED');
+    }
+
+    const challengedFor = this.challenges.get(proof.nonce);
+    if (challengedFor !== approvalId) {
+      throw new ApprovalError(approvalId, `Proof does not answer a challenge for approval ${approvalId}`, 'APPROVER_UNVERIFIED');
+    }
+
+    const result = this.verifier.verifyProof(proof, credential.credential.subject);
+    this.challenges.delete(proof.nonce);
+
+    if (!result.valid) {
+      throw new ApprovalError(approvalId, `Approver proof rejected: ${result.message}`, 'APPROVER_UNVERIFIED');
+    }
+
+    try {
+      return checkSignedCredential(credential, result.publicKey!, this.trustedIssuers, this.revoked);
+    } catch (error: any) {
+      throw new ApprovalError(approvalId, `Approver credential rejected: ${error.message}`, 'APPROVER_UNVERIFIED');
+    }
+  }
+
+  private requirePending(approvalId: string): ApprovalRequest {
+    const approval = this.requireApproval(approvalId);
+
+    if (approval.status !== 'pending') {
+      throw new ApprovalError(approvalId, `Approval ${approvalId} is already ${approval.status}`, 'APPROVAL_STATE');
+    }
+
+    return approval;
+  }
+
+  private requireApproval(approvalId: string): ApprovalRequest {
+    const approval = this.approvals.get(approvalId);
+
+    if (!approval) {
+      throw new ApprovalError(approvalId, `Approval ${approvalId} not found`, 'APPROVAL_NOT_FOUND');
+    }
+
+    return approval;
+  }
+
+  private addSignoff(
+    approval: ApprovalRequest,
+    approver: ResearcherIdentity,
+    decision: ApprovalSignoff['decision'],
+    comment?: string
+  ): ApprovalSignoff {
+    const signoff: ApprovalSignoff = {
+      approver: approver.id,
+      publicKey: approver.publicKey!,
+      credentialId: approver.credentialId!,
+      decision,
+      comment,
+      timestamp: Date.now()
+    };
+    approval.signoffs.push(signoff);
+    return signoff;
+  }
+
+  private resolve(approval: ApprovalRequest, status: 'approved' | 'rejected' | 'cancelled', reason?: string): void {
+    approval.status = status;
+    approval.resolvedAt = Date.now();
+
+    // Outstanding challenges for it can no longer be used
+    this.challenges.forEach((id, nonce) => {
+      if (id === approval.id) this.challenges.delete(nonce);
+    });
+
+    console.log(`Approval ${approval.id} ${status}${reason ? `: ${reason}` : ''}`);
+
+    this.emitEvent(`approval.${status}`, {
+      approvalId: approval.id,
+      subject: approval.subject,
+      reason,
+      signoffs: [...approval.signoffs]
+    });
+  }
+
+  private emitEvent(type: Lab402Event['type'], data: any): void {
+    const event: Lab402Event = {
+      type,
+      timestamp: Date.now(),
+      data
+    };
+
+    this.emit(type, event);
+  }
+}
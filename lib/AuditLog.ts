@@ -0,0 +1,194 @@
+// AuditLog - append-only, hash-chained record of access checks, requests, sample changes and payments
+
+import { createHash } from 'crypto';
+import type {
+  AuditEventType,
+  AuditRecord,
+  AuditStore,
+  AuditQuery,
+  AuditIssue,
+  AuditVerification,
+  UnreadableAuditRecord
+} from './audit-types';
+import { MemoryAuditStore } from './MemoryAuditStore';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Serialize with sorted object keys so a record hashes the same after a JSON round trip
+ */
+function canonicalJson(value: any): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+}
+
+export function hashAuditRecord(record: Omit<AuditRecord, 'hash'>): string {
+  return createHash('sha256')
+    .update(canonicalJson({
+      sequence: record.sequence,
+      type: record.type,
+      subject: record.subject,
+      actor: record.actor,
+      data: record.data,
+      timestamp: record.timestamp,
+      prevHash: record.prevHash
+    }))
+    .digest('hex');
+}
+
+function isUnreadable(entry: AuditRecord | UnreadableAuditRecord): entry is UnreadableAuditRecord {
+  return (entry as UnreadableAuditRecord).unreadable === true;
+}
+
+export class AuditLog {
+  private store: AuditStore;
+  private records: AuditRecord[];
+
+  constructor(store: AuditStore = new MemoryAuditStore()) {
+    this.store = store;
+    this.records = store.load().filter((entry): entry is AuditRecord => !isUnreadable(entry));
+  }
+
+  append(
+    type: AuditEventType,
+    subject: string,
+    data: Record<string, any> = {},
+    actor?: string
+  ): AuditRecord {
+    const previous = this.records[this.records.length - 1];
+
+    // Round-trip the payload so the stored record is exactly what was hashed
+    const unsigned: Omit<AuditRecord, 'hash'> = {
+      sequence: previous ? previous.sequence + 1 : 0,
+      type,
+      subject,
+      actor,
+      data: JSON.parse(JSON.stringify(data)),
+      timestamp: Date.now(),
+      prevHash: previous ? previous.hash : GENESIS_HASH
+    };
+
+    const record: AuditRecord = { ...unsigned, hash: hashAuditRecord(unsigned) };
+
+    this.store.append(record);
+    this.records.push(record);
+
+    return record;
+  }
+
+  query(query: AuditQuery = {}): AuditRecord[] {
+    let results = this.records;
+
+    if (query.type) {
+      const types = Array.isArray(query.type) ? query.type : [query.type];
+      results = results.filter(r => types.includes(r.type));
+    }
+
+    if (query.subject) {
+      results = results.filter(r => r.subject === query.subject);
+    }
+
+    if (query.actor) {
+      results = results.filter(r => r.actor === query.actor);
+    }
+
+    if (query.from !== undefined) {
+      results = results.filter(r => r.timestamp >= query.from!);
+    }
+
+    if (query.to !== undefined) {
+      results = results.filter(r => r.timestamp <= query.to!);
+    }
+
+    return [...results];
+  }
+
+  /**
+   * Hash of the latest record. Keep a copy elsewhere to detect truncation later.
+   */
+  getHead(): string {
+    return this.records[this.records.length - 1]?.hash || GENESIS_HASH;
+  }
+
+  /**
+   * Re-read the store and check every hash, link and sequence number, reporting
+   * records the store couldn't read. Pass a previously saved head to also catch
+   * records removed from the end.
+   */
+  verify(expectedHead?: string): AuditVerification {
+    const records = this.store.load();
+    const issues: AuditIssue[] = [];
+    let prevHash = GENESIS_HASH;
+    let linked = true; // Whether prevHash is the hash of the record just before
+
+    records.forEach((record, index) => {
+      if (isUnreadable(record)) {
+        issues.push({
+          type: 'unreadable-record',
+          sequence: index,
+          message: `Record ${index} could not be read: ${record.error}`
+        });
+        // The next record's link can't be checked against a hash we never read
+        linked = false;
+        return;
+      }
+
+      if (record.sequence !== index) {
+        issues.push({
+          type: 'sequence-gap',
+          sequence: record.sequence,
+          message: `Expected record ${index}, found ${record.sequence}`
+        });
+      }
+
+      if (linked && record.prevHash !== prevHash) {
+        issues.push({
+          type: 'broken-link',
+          sequence: record.sequence,
+          message: `Record ${record.sequence} does not link to the record before it`
+        });
+      }
+
+      const { hash, ...unsigned } = record;
+      if (hashAuditRecord(unsigned) !== hash) {
+        issues.push({
+          type: 'hash-mismatch',
+          sequence: record.sequence,
+          message: `Record ${record.sequence} was modified after it was written`
+        });
+      }
+
+      prevHash = hash;
+      linked = true;
+    });
+
+    if (expectedHead !== undefined && prevHash !== expectedHead) {
+      issues.push({
+        type: 'head-mismatch',
+        sequence: records.length - 1,
+        message: `Log ends at ${prevHash.slice(0, 12)}, expected ${expectedHead.slice(0, 12)}`
+      });
+    }
+
+    return {
+      valid: issues.length === 0,
+      recordsChecked: records.length,
+      head: prevHash,
+      issues
+    };
+  }
+
+  /**
+   * One JSON record per line, oldest first, for compliance review
+   */
+  exportJsonLines(query: AuditQuery = {}): string {
+    return this.query(query).map(record => JSON.stringify(record) + '\n').join('');
+  }
+}
@@ -9,6 +9,8 @@ import type {
 } from './types';
 import { Analysis } from './Analysis';
 import { Payment402 } from './Payment402';
+import type { InvoiceRecord } from './payment-types';
+import type { SpendHold } from './budget-types';
 
 export class BatchAnalysis extends EventEmitter {
   private config: BatchAnalysisConfig;
@@ -18,11 +20,15 @@ export class BatchAnalysis extends EventEmitter {
   private progress: BatchProgress;
   private startedAt?: number;
   private completedAt?: number;
+  private spendHold?: SpendHold;
+  private invoiceId: string;
+  private reissues = 0;
 
   constructor(config: BatchAnalysisConfig, payment: Payment402) {
     super();
     this.config = config;
     this.payment = payment;
+    this.invoiceId = config.batchId;
     this.results = new Map();
     this.activeAnalyses = new Map();
 
@@ -51,7 +57,68 @@ export class BatchAnalysis extends EventEmitter {
     console.log(`Savings: $${config.pricing.savings.toFixed(2)} (${(config.pricing.discountRate * 100).toFixed(0)}% discount)`);
   }
 
+  /**
+   * Give back `hold` when the invoice payment fails, and claim it again when a retry starts
+   */
+  holdSpend(hold: SpendHold): void {
+    this.spendHold = hold;
+  }
+
   async start(): Promise<void> {
+    if (this.startedAt) {
+      throw new Error(`Batch ${this.config.batchId} already started`);
+    }
+
+    // A retry spends again what its failed payment gave back
+    this.spendHold?.claim();
+
+    // Settle the batch invoice before any sample is processed. A retry reuses it
+    // while it is open; an expired or voided one is reissued under a new ID.
+    const existing = this.payment.getInvoice(this.invoiceId);
+    if (existing?.status === 'expired' || existing?.status === 'void') {
+      this.invoiceId = `${this.config.batchId}-${++this.reissues}`;
+    }
+
+    const invoice = existing?.status === 'open'
+      ? existing.invoice
+      : await this.payment.createInvoice(
+          this.invoiceId,
+          this.config.pricing,
+          this.config.request.currency || this.config.pricing.currency || 'USD',
+          { batchId: this.config.batchId, attribution: this.config.attribution }
+        );
+
+    console.log(`💳 Batch invoice: ${invoice.totalCost.toFixed(2)} ${invoice.currency}`);
+
+    this.emitEvent('payment.pending', {
+      batchId: this.config.batchId,
+      invoice
+    });
+
+    try {
+      const record = await this.payment.payInvoice(invoice.analysisId);
+
+      this.emitEvent('payment.settled', {
+        batchId: this.config.batchId,
+        invoice: record.invoice,
+        txHash: record.txHash
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      this.spendHold?.release();
+      this.emitEvent('payment.failed', {
+        batchId: this.config.batchId,
+        invoice,
+        error: message
+      });
+      this.emitEvent('batch.failed', {
+        batchId: this.config.batchId,
+        error: message
+      });
+      throw error;
+    }
+
     this.startedAt = Date.now();
 
     console.log(`\n🚀 Starting batch processing...`);
@@ -61,20 +128,15 @@ export class BatchAnalysis extends EventEmitter {
       totalSamples: this.config.request.samples.length
     });
 
-    // Process payment for entire batch
-    const invoice = await this.payment.createInvoice(
-      this.config.batchId,
-      this.config.pricing.discountedCost,
-      'USD'
-    );
-
-    console.log(`💳 Batch invoice: $${this.config.pricing.discountedCost.toFixed(2)}`);
-
     // Process samples in parallel batches
     await this.processSamples();
 
     this.completedAt = Date.now();
 
+    this.payment.recordCompletion(this.invoiceId, this.config.pricing.discountedCost, {
+      batchId: this.config.batchId
+    });
+
     console.log(`\n✅ Batch completed!`);
     console.log(`Processed: ${this.progress.completed} samples`);
     console.log(`Failed: ${this.progress.failed} samples`);
@@ -217,6 +279,13 @@ export class BatchAnalysis extends EventEmitter {
     return 1000 + Math.random() * 2000;
   }
 
+  /**
+   * The batch's current invoice; its ID gains a suffix each time it is reissued
+   */
+  getInvoice(): InvoiceRecord | undefined {
+    return this.payment.getInvoice(this.invoiceId);
+  }
+
   getProgress(): BatchProgress {
     return { ...this.progress };
   }
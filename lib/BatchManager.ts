@@ -2,7 +2,8 @@ import type {
   BatchRequest,
   BatchPricing,
   BatchAnalysisConfig,
-  InstrumentType
+  InstrumentType,
+  InvoiceAttribution
 } from './types';
 import { BatchAnalysis } from './BatchAnalysis';
 import { Payment402 } from './Payment402';
@@ -51,6 +52,7 @@ export class BatchManager {
     console.log(`Per sample: $${perSampleCost.toFixed(2)}`);
 
     return {
+      currency: 'USD',
       baseCost,
       totalSamples: sampleCount,
       discountRate,
@@ -60,11 +62,16 @@ export class BatchManager {
     };
   }
 
-  createBatch(request: BatchRequest, basePrice: number): BatchAnalysis {
+  createBatch(
+    request: BatchRequest,
+    basePrice: number,
+    quoted?: BatchPricing,
+    attribution?: InvoiceAttribution
+  ): BatchAnalysis {
     const batchId = this.generateBatchId();
 
-    // Calculate pricing with discounts
-    const pricing = this.calculateBatchPricing(
+    // Calculate pricing with discounts, unless the caller already quoted it
+    const pricing = quoted || this.calculateBatchPricing(
       request.instrument,
       request.samples.length,
       basePrice
@@ -80,7 +87,8 @@ export class BatchManager {
       batchId,
       request,
       pricing,
-      parallelism
+      parallelism,
+      attribution
     };
 
     const batch = new BatchAnalysis(config, this.payment);
@@ -0,0 +1,206 @@
+// BudgetManager - hard and soft spending limits per researcher, project and time window
+
+import { EventEmitter } from 'events';
+import type { Lab402Event } from './types';
+import type {
+  BudgetWindow,
+  BudgetLimit,
+  BudgetScope,
+  BudgetStatus,
+  BudgetCheck,
+  SpendContext,
+  SpendRecord
+} from './budget-types';
+import { BudgetExceededError } from './errors';
+
+const WINDOW_MS: Record<Exclude<BudgetWindow, 'total'>, number> = {
+  hour: 3600000,
+  day: 86400000,
+  week: 604800000,
+  month: 2592000000 // 30 days
+};
+
+export class BudgetManager extends EventEmitter {
+  private limits: Map<string, BudgetLimit>;
+  private spend: SpendRecord[];
+
+  constructor(limits: BudgetLimit[] = []) {
+    super();
+    this.limits = new Map();
+    this.spend = [];
+
+    limits.forEach(limit => this.setLimit(limit));
+  }
+
+  setLimit(limit: BudgetLimit): void {
+    if (limit.hardLimit !== undefined && limit.softLimit !== undefined && limit.softLimit > limit.hardLimit) {
+      throw new Error(`Budget ${limit.id}: soft limit exceeds hard limit`);
+    }
+
+    this.limits.set(limit.id, { ...limit, scope: { ...limit.scope } });
+  }
+
+  removeLimit(limitId: string): boolean {
+    return this.limits.delete(limitId);
+  }
+
+  getLimits(): BudgetLimit[] {
+    return Array.from(this.limits.values());
+  }
+
+  /**
+   * Evaluate a prospective charge against every limit that applies, without recording it
+   */
+  check(amount: number, context: SpendContext): BudgetCheck {
+    const statuses = this.getStatus(context);
+    const warnings: BudgetLimit[] = [];
+    const exceeded: BudgetLimit[] = [];
+
+    statuses.forEach(status => {
+      const { limit, spent } = status;
+      const projected = spent + amount;
+
+      if (
+        (limit.maxPerRequest !== undefined && amount > limit.maxPerRequest) ||
+        (limit.hardLimit !== undefined && projected > limit.hardLimit + 1e-9)
+      ) {
+        exceeded.push(limit);
+      } else if (limit.softLimit !== undefined && projected > limit.softLimit + 1e-9) {
+        warnings.push(limit);
+      }
+    });
+
+    return {
+      outcome: exceeded.length > 0 ? 'exceeded' : warnings.length > 0 ? 'warning' : 'ok',
+      amount,
+      statuses,
+      warnings,
+      exceeded
+    };
+  }
+
+  /**
+   * Check a charge before its invoice is issued and commit it to the budget.
+   * Emits budget.warning for crossed soft limits; emits budget.exceeded and
+   * throws BudgetExceededError when a hard limit would be broken.
+   */
+  authorize(amount: number, context: SpendContext, reference: string): BudgetCheck {
+    const result = this.check(amount, context);
+
+    if (result.outcome === 'exceeded') {
+      const limit = result.exceeded[0];
+      const status = result.statuses.find(s => s.limit.id === limit.id)!;
+      const remaining = limit.maxPerRequest !== undefined && amount > limit.maxPerRequest
+        ? limit.maxPerRequest
+        : status.remaining ?? 0;
+
+      this.emitEvent('budget.exceeded', {
+        ...context,
+        reference,
+        amount,
+        limits: result.exceeded,
+        remaining
+      });
+
+      throw new BudgetExceededError(limit.id, amount, remaining);
+    }
+
+    result.warnings.forEach(limit => {
+      const status = result.statuses.find(s => s.limit.id === limit.id)!;
+
+      console.log(`⚠️  Budget ${limit.id}: $${(status.spent + amount).toFixed(2)} of $${limit.softLimit!.toFixed(2)} soft limit`);
+
+      this.emitEvent('budget.warning', {
+        ...context,
+        reference,
+        amount,
+        limit,
+        spent: status.spent + amount,
+        remaining: status.remaining !== undefined ? status.remaining - amount : undefined
+      });
+    });
+
+    this.record(amount, context, reference);
+
+    return result;
+  }
+
+  /**
+   * Record spend directly; pass a negative amount to credit refunds back.
+   * A credit is dated like the latest spend it cancels under the same
+   * reference, so both leave a rolling window together.
+   */
+  record(amount: number, context: SpendContext, reference: string): SpendRecord {
+    const original = amount < 0
+      ? [...this.spend].reverse().find(r =>
+          r.amount > 0 && r.reference === reference &&
+          r.researcher === context.researcher && r.project === context.project)
+      : undefined;
+
+    const record: SpendRecord = {
+      ...context,
+      amount,
+      reference,
+      timestamp: original?.timestamp ?? Date.now()
+    };
+
+    this.spend.push(record);
+
+    return record;
+  }
+
+  /**
+   * Current spend and headroom for every limit that applies to the context
+   */
+  getStatus(context: SpendContext): BudgetStatus[] {
+    const now = Date.now();
+
+    return this.getLimits()
+      .filter(limit => this.applies(limit.scope, context))
+      .map(limit => {
+        const windowStart = limit.window === 'total' ? 0 : now - WINDOW_MS[limit.window];
+        const spent = this.spend
+          .filter(r => r.timestamp >= windowStart && this.applies(limit.scope, r))
+          .reduce((sum, r) => sum + r.amount, 0);
+
+        return {
+          limit,
+          spent,
+          remaining: limit.hardLimit !== undefined ? limit.hardLimit - spent : undefined,
+          softRemaining: limit.softLimit !== undefined ? limit.softLimit - spent : undefined,
+          windowStart
+        };
+      });
+  }
+
+  /**
+   * Smallest remaining hard-limit headroom for the context, or undefined if no hard limit applies
+   */
+  getRemaining(context: SpendContext): number | undefined {
+    const remaining = this.getStatus(context)
+      .map(status => status.remaining)
+      .filter((value): value is number => value !== undefined);
+
+    return remaining.length > 0 ? Math.max(Math.min(...remaining), 0) : undefined;
+  }
+
+  getSpendHistory(scope: BudgetScope = {}): SpendRecord[] {
+    return this.spend.filter(record => this.applies(scope, record));
+  }
+
+  private applies(scope: BudgetScope, context: SpendContext): boolean {
+    if (scope.researcher !== undefined && scope.researcher !== context.researcher) return false;
+    if (scope.project !== undefined && scope.project !== context.project) return false;
+    return true;
+  }
+
+  private emitEvent(type: Lab402Event['type'], data: any): void {
+    const event: Lab402Event = {
+      type,
+      timestamp: Date.now(),
+      data
+    };
+
+    this.emit(type, event);
+  }
+}
@@ -0,0 +1,65 @@
+// CredentialIssuer - signs researcher credentials with an issuer's ed25519 key
+
+import { createHash, randomBytes } from 'crypto';
+import type { Ed25519Keypair } from './crypto';
+import { generateKeypair, signBytes, encodeBase58 } from './crypto';
+import type { ResearcherCredential, SignedCredential, CredentialClaims } from './identity-types';
+
+/**
+ * Canonical bytes an issuer signs to attest a credential
+ */
+export function encodeCredentialMessage(credential: ResearcherCredential): Uint8Array {
+  return Buffer.from(JSON.stringify({
+    id: credential.id,
+    subject: credential.subject,
+    issuer: credential.issuer,
+    issuerName: credential.issuerName || '',
+    institution: credential.institution,
+    clearanceLevel: credential.clearanceLevel,
+    credentials: credential.credentials,
+    specializations: credential.specializations,
+    issuedAt: credential.issuedAt,
+    expiresAt: credential.expiresAt
+  }));
+}
+
+export class CredentialIssuer {
+  public readonly publicKey: string;
+  public readonly name?: string;
+  private keypair: Ed25519Keypair;
+
+  /**
+   * @param seed 32-byte seed, or any string to derive one from (deterministic issuers for tests)
+   * @param name Human-readable issuer name embedded in credentials
+   */
+  constructor(seed?: Uint8Array | string, name?: string) {
+    const seedBytes = typeof seed === 'string'
+      ? createHash('sha256').update(seed).digest()
+      : seed;
+
+    this.keypair = generateKeypair(seedBytes);
+    this.publicKey = encodeBase58(this.keypair.publicKey);
+    this.name = name;
+  }
+
+  /**
+   * Issue a credential for a researcher public key, valid for `ttl` ms (default one year)
+   */
+  issue(subject: string, claims: CredentialClaims, ttl: number = 31536000000): SignedCredential {
+    const issuedAt = Date.now();
+    const credential: ResearcherCredential = {
+      id: `cred_${randomBytes(8).toString('hex')}`,
+      subject,
+      issuer: this.publicKey,
+      issuerName: this.name,
+      ...claims,
+      issuedAt,
+      expiresAt: issuedAt + ttl
+    };
+
+    return {
+      credential,
+      signature: encodeBase58(signBytes(this.keypair.secretKey, encodeCredentialMessage(credential)))
+    };
+  }
+}
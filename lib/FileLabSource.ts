@@ -0,0 +1,28 @@
+// FileLabSource - lab catalog read from a JSON or YAML file
+
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import type { LabSource, CatalogParser, FileLabSourceOptions } from './registry-types';
+
+export class FileLabSource implements LabSource {
+  public readonly name: string;
+  private path: string;
+  private parse: CatalogParser;
+
+  constructor(path: string, options: FileLabSourceOptions = {}) {
+    const extension = extname(path).toLowerCase();
+
+    // No YAML parser ships with the SDK; callers bring their own
+    if ((extension === '.yaml' || extension === '.yml') && !options.parse) {
+      throw new Error(`Reading ${path} needs a YAML parser, e.g. new FileLabSource(path, { parse: YAML.parse })`);
+    }
+
+    this.name = path;
+    this.path = path;
+    this.parse = options.parse || JSON.parse;
+  }
+
+  async load(): Promise<unknown> {
+    return this.parse(await readFile(this.path, 'utf8'));
+  }
+}
@@ -0,0 +1,316 @@
+// HealthMonitor - heartbeats, rolling uptime and load, and per-lab circuit breakers
+
+import { EventEmitter } from 'events';
+import type { Lab402Event } from './types';
+import type {
+  CircuitState,
+  LabHeartbeat,
+  HealthSample,
+  LabHealth,
+  HealthMonitorOptions
+} from './health-types';
+import { sendRequest } from './Transport';
+
+const CIRCUIT_EVENTS: Record<CircuitState, Lab402Event['type']> = {
+  closed: 'lab.circuit.closed',
+  open: 'lab.circuit.open',
+  'half-open': 'lab.circuit.half-open'
+};
+
+interface LabState {
+  samples: HealthSample[];
+  lastSeen?: number;
+  consecutiveFailures: number;
+  circuit: CircuitState;
+  circuitOpenedAt?: number;
+  trialStartedAt?: number; // The half-open trial request in flight
+}
+
+export class HealthMonitor extends EventEmitter {
+  private options: Required<Omit<HealthMonitorOptions, 'transport' | 'labs'>> &
+    Pick<HealthMonitorOptions, 'transport' | 'labs'>;
+  private labs: Map<string, LabState>;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(options: HealthMonitorOptions = {}) {
+    super();
+    this.options = {
+      transport: options.transport,
+      labs: options.labs,
+      window: options.window ?? 3600000,
+      heartbeatTimeout: options.heartbeatTimeout ?? 120000,
+      failureThreshold: options.failureThreshold ?? 3,
+      resetTimeout: options.resetTimeout ?? 60000,
+      degradedLoad: options.degradedLoad ?? 80
+    };
+    this.labs = new Map();
+  }
+
+  /**
+   * Record a heartbeat pushed by a lab. A heartbeat reporting `up: false`
+   * counts as a failure.
+   */
+  recordHeartbeat(heartbeat: LabHeartbeat): LabHealth {
+    const timestamp = heartbeat.timestamp ?? Date.now();
+
+    if (heartbeat.up === false) {
+      return this.recordFailure(heartbeat.labId, 'Lab reported down', timestamp);
+    }
+
+    const state = this.getState(heartbeat.labId);
+    this.addSample(state, { up: true, load: heartbeat.load, timestamp });
+
+    return this.recordSuccess(heartbeat.labId, timestamp);
+  }
+
+  /**
+   * A request to the lab succeeded; closes a half-open circuit
+   */
+  recordSuccess(labId: string, timestamp: number = Date.now()): LabHealth {
+    const state = this.getState(labId);
+
+    state.lastSeen = Math.max(state.lastSeen ?? 0, timestamp);
+    state.consecutiveFailures = 0;
+    state.trialStartedAt = undefined;
+
+    if (this.currentCircuit(labId, state) !== 'closed') {
+      this.setCircuit(labId, state, 'closed');
+    }
+
+    return this.getHealth(labId);
+  }
+
+  /**
+   * A request to the lab failed. Opens the circuit after `failureThreshold`
+   * consecutive failures, or straight away when a half-open trial fails.
+   */
+  recordFailure(labId: string, reason: string = 'Request failed', timestamp: number = Date.now()): LabHealth {
+    const state = this.getState(labId);
+    const circuit = this.currentCircuit(labId, state);
+
+    this.addSample(state, { up: false, timestamp });
+    state.consecutiveFailures++;
+    state.trialStartedAt = undefined;
+
+    if (circuit === 'half-open' || (circuit === 'closed' && state.consecutiveFailures >= this.options.failureThreshold)) {
+      state.circuitOpenedAt = timestamp;
+      this.setCircuit(labId, state, 'open', reason);
+    }
+
+    return this.getHealth(labId);
+  }
+
+  /**
+   * Poll the health endpoint of the `labs` option's labs (every known lab
+   * without it) when a transport is configured, and mark labs whose
+   * heartbeats have gone stale
+   */
+  async check(): Promise<LabHealth[]> {
+    const { transport, labs } = this.options;
+    const polled = labs ? labs() : Array.from(this.labs.keys());
+    const labIds = new Set([...polled, ...this.labs.keys()]);
+
+    if (transport) {
+      await Promise.all(polled.map(async labId => {
+        try {
+          const heartbeat = await sendRequest<Omit<LabHeartbeat, 'labId'>>(transport, {
+            method: 'GET',
+            path: `/labs/${encodeURIComponent(labId)}/health`
+          });
+          this.recordHeartbeat({ ...heartbeat, labId, timestamp: undefined });
+        } catch (error) {
+          this.recordFailure(labId, `Health check failed: ${(error as Error).message}`);
+        }
+      }));
+    }
+
+    const now = Date.now();
+    this.labs.forEach((state, labId) => {
+      if (state.lastSeen !== undefined && now - state.lastSeen > this.options.heartbeatTimeout) {
+        this.emitEvent('lab.heartbeat.missed', { labId, lastSeen: state.lastSeen });
+        this.recordFailure(labId, 'Heartbeat missed', now);
+        // One missed-heartbeat failure per timeout period
+        state.lastSeen = now;
+      }
+    });
+
+    return Array.from(labIds).map(labId => this.getHealth(labId));
+  }
+
+  /**
+   * Run check() every `interval` ms in the background
+   */
+  start(interval: number = 30000): void {
+    this.stop();
+
+    this.timer = setInterval(() => {
+      this.check().catch(() => {});
+    }, interval);
+
+    // Don't keep the process alive just to watch labs
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  getHealth(labId: string): LabHealth {
+    const state = this.labs.get(labId);
+
+    if (!state) {
+      return { labId, status: 'unknown', consecutiveFailures: 0, circuit: 'closed', samples: 0 };
+    }
+
+    this.prune(state);
+
+    const samples = state.samples;
+    const loads = samples.filter(s => s.load !== undefined).map(s => s.load!);
+    const uptime = samples.length > 0
+      ? samples.filter(s => s.up).length / samples.length * 100
+      : undefined;
+    const load = loads.length > 0 ? loads.reduce((sum, l) => sum + l, 0) / loads.length : undefined;
+    const circuit = this.currentCircuit(labId, state);
+    const latest = samples[samples.length - 1];
+
+    let status: LabHealth['status'] = 'unknown';
+    if (circuit === 'open') {
+      status = 'down';
+    } else if (circuit === 'half-open') {
+      status = 'degraded';
+    } else if (latest?.up === false) {
+      status = 'down';
+    } else if (load !== undefined && load >= this.options.degradedLoad) {
+      status = 'degraded';
+    } else if (latest) {
+      status = 'healthy';
+    }
+
+    return {
+      labId,
+      status,
+      uptime,
+      load,
+      lastSeen: state.lastSeen,
+      consecutiveFailures: state.consecutiveFailures,
+      circuit,
+      circuitOpenedAt: state.circuitOpenedAt,
+      samples: samples.length
+    };
+  }
+
+  getAllHealth(): LabHealth[] {
+    return Array.from(this.labs.keys()).map(labId => this.getHealth(labId));
+  }
+
+  /**
+   * False while the lab's circuit is open, or half-open with its single trial
+   * request already in flight
+   */
+  isAvailable(labId: string): boolean {
+    const state = this.labs.get(labId);
+    if (!state) return true;
+
+    const circuit = this.currentCircuit(labId, state);
+    return circuit === 'closed' || (circuit === 'half-open' && !this.hasTrial(state));
+  }
+
+  /**
+   * Claim the trial request of a half-open lab for a request about to be sent
+   * to it. False when the circuit is open or another request holds the trial;
+   * always true for closed circuits. The next success or failure ends the trial.
+   */
+  beginTrial(labId: string): boolean {
+    const state = this.labs.get(labId);
+    if (!state) return true;
+
+    const circuit = this.currentCircuit(labId, state);
+    if (circuit === 'closed') return true;
+    if (circuit === 'open' || this.hasTrial(state)) return false;
+
+    state.trialStartedAt = Date.now();
+    return true;
+  }
+
+  /**
+   * Give up a trial without a result, e.g. because its request was cancelled
+   */
+  endTrial(labId: string): void {
+    const state = this.labs.get(labId);
+    if (state) state.trialStartedAt = undefined;
+  }
+
+  reset(labId: string): void {
+    this.labs.delete(labId);
+  }
+
+  private getState(labId: string): LabState {
+    let state = this.labs.get(labId);
+
+    if (!state) {
+      state = { samples: [], consecutiveFailures: 0, circuit: 'closed' };
+      this.labs.set(labId, state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Circuit state, moving open circuits to half-open once the reset timeout passes
+   */
+  private currentCircuit(labId: string, state: LabState): CircuitState {
+    if (
+      state.circuit === 'open' &&
+      state.circuitOpenedAt !== undefined &&
+      Date.now() - state.circuitOpenedAt >= this.options.resetTimeout
+    ) {
+      this.setCircuit(labId, state, 'half-open');
+    }
+
+    return state.circuit;
+  }
+
+  /**
+   * A trial that never reported back stops blocking others after `resetTimeout`
+   */
+  private hasTrial(state: LabState): boolean {
+    return state.trialStartedAt !== undefined && Date.now() - state.trialStartedAt < this.options.resetTimeout;
+  }
+
+  private setCircuit(labId: string, state: LabState, circuit: CircuitState, reason?: string): void {
+    const previous = state.circuit;
+    state.circuit = circuit;
+
+    console.log(`Lab ${labId} circuit ${previous} → ${circuit}${reason ? ` (${reason})` : ''}`);
+
+    this.emitEvent(CIRCUIT_EVENTS[circuit], {
+      labId,
+      previous,
+      reason,
+      consecutiveFailures: state.consecutiveFailures
+    });
+  }
+
+  private addSample(state: LabState, sample: HealthSample): void {
+    state.samples.push(sample);
+    this.prune(state);
+  }
+
+  private prune(state: LabState): void {
+    const cutoff = Date.now() - this.options.window;
+    state.samples = state.samples.filter(s => s.timestamp >= cutoff);
+  }
+
+  private emitEvent(type: Lab402Event['type'], data: any): void {
+    const event: Lab402Event = {
+      type,
+      timestamp: Date.now(),
+      data
+    };
+
+    this.emit(type, event);
+  }
+}
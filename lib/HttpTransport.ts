@@ -0,0 +1,148 @@
+// HttpTransport - fetch-based transport for a real Lab402 gateway
+
+import type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  HttpTransportOptions,
+  HttpMethod
+} from './transport-types';
+import { TransportError } from './errors';
+
+// Safe to send twice: a repeat can't have a different effect on the server
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
+export class HttpTransport implements Transport {
+  private endpoint: string;
+  private timeout: number;
+  private retries: number;
+  private retryDelay: number;
+  private headers: Record<string, string>;
+
+  constructor(options: HttpTransportOptions) {
+    this.endpoint = options.endpoint.replace(/\/+$/, '');
+    this.timeout = options.timeout ?? 60000;
+    this.retries = options.retries ?? 3;
+    this.retryDelay = options.retryDelay ?? 500;
+    this.headers = options.headers || {};
+  }
+
+  /**
+   * Send a request, retrying on network errors, timeouts, 429 and 5xx.
+   * Every other status (including 402 and 403) is returned to the caller.
+   * POST and PATCH are only retried when they carry an idempotency key, since
+   * a timeout may arrive after the server already acted on them.
+   */
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const url = this.buildUrl(request);
+    const retries = this.canRetry(request) ? this.retries : 0;
+    let lastError: TransportError | undefined;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        await this.sleep(this.retryDelay * Math.pow(2, attempt - 1));
+      }
+
+      try {
+        const response = await this.send<T>(url, request);
+
+        if (this.isRetryable(response.status) && attempt < retries) {
+          lastError = TransportError.fromResponse(request, response);
+          continue;
+        }
+
+        return response;
+      } catch (error: any) {
+        lastError = error instanceof TransportError
+          ? error
+          : new TransportError(
+              `${request.method} ${request.path} failed: ${error?.message || error}`,
+              request
+            );
+      }
+    }
+
+    throw lastError!;
+  }
+
+  private async send<T>(url: string, request: TransportRequest): Promise<TransportResponse<T>> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    const headers: Record<string, string> = {
+      accept: 'application/json',
+      ...this.headers,
+      ...request.headers
+    };
+
+    if (request.idempotencyKey) {
+      headers['idempotency-key'] = request.idempotencyKey;
+    }
+
+    let body: string | undefined;
+    if (request.body !== undefined) {
+      body = JSON.stringify(request.body);
+      headers['content-type'] = 'application/json';
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: request.method,
+        headers,
+        body,
+        signal: controller.signal
+      });
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        responseHeaders[key.toLowerCase()] = value;
+      });
+
+      const text = await response.text();
+      const contentType = responseHeaders['content-type'] || '';
+      const data = text && contentType.includes('json') ? JSON.parse(text) : text;
+
+      return {
+        status: response.status,
+        headers: responseHeaders,
+        data
+      };
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new TransportError(
+          `${request.method} ${request.path} timed out after ${this.timeout}ms`,
+          request
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private buildUrl(request: TransportRequest): string {
+    const path = request.path.startsWith('/') ? request.path : `/${request.path}`;
+    const params = new URLSearchParams();
+
+    Object.entries(request.query || {}).forEach(([key, value]) => {
+      if (value !== undefined) {
+        params.append(key, String(value));
+      }
+    });
+
+    const query = params.toString();
+    return `${this.endpoint}${path}${query ? `?${query}` : ''}`;
+  }
+
+  private canRetry(request: TransportRequest): boolean {
+    return IDEMPOTENT_METHODS.includes(request.method) || !!request.idempotencyKey;
+  }
+
+  private isRetryable(status: number): boolean {
+    return status === 429 || status >= 500;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
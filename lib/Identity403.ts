@@ -1,22 +1,178 @@
 import { createHash, randomBytes } from 'crypto';
 import type { ResearcherIdentity, InstrumentType } from './types';
+import type { Transport } from './transport-types';
+import type {
+  SignedCredential,
+  IdentityChallenge,
+  Identity403Options,
+  ProofChallenge,
+  IdentityProof,
+  Delegation,
+  DelegationGrant,
+  DelegationScope,
+  DelegationContext,
+  DelegatedSpendEntry,
+  DelegatedSpendStore
+} from './identity-types';
+import type { Ed25519Keypair } from './crypto';
+import { generateKeypair, signBytes, verifyBytes, encodeBase58, decodeBase58 } from './crypto';
+import type { AccessContext, AccessDecision } from './policy-types';
+import { encodeCredentialMessage } from './CredentialIssuer';
+import { encodeProofMessage } from './ProofVerifier';
+import { PolicyEngine } from './PolicyEngine';
+import { MemoryDelegatedSpendStore } from './MemoryDelegatedSpendStore';
+import type { AuditLog } from './AuditLog';
+import { sendRequest } from './Transport';
+import {
+  InvalidSignatureError,
+  CredentialError,
+  CredentialExpiredError,
+  CredentialRevokedError,
+  UntrustedIssuerError,
+  AccessDeniedError,
+  DelegationError,
+  DelegationExpiredError,
+  DelegationScopeError
+} from './errors';
+
+/**
+ * Canonical bytes signed by a delegator; field order is fixed so verifiers
+ * on other runtimes can reproduce the message
+ */
+export function encodeDelegationMessage(grant: DelegationGrant): Buffer {
+  return Buffer.from(JSON.stringify([
+    'lab402-delegation',
+    grant.id,
+    grant.issuer,
+    grant.subject,
+    grant.parent ?? null,
+    grant.scope.instruments ?? null,
+    grant.scope.maxSpend ?? null,
+    grant.issuedAt,
+    grant.expiresAt
+  ]));
+}
+
+/**
+ * Check a credential presented for `subject`: its issuer, signature, subject,
+ * revocation and expiry. Returns the researcher identity its claims describe.
+ */
+export function checkSignedCredential(
+  signed: SignedCredential,
+  subject: string,
+  trustedIssuers: Set<string>,
+  revoked: Set<string>,
+  now: number = Date.now()
+): ResearcherIdentity {
+  const { credential, signature } = signed;
+
+  if (!trustedIssuers.has(credential.issuer)) {
+    throw new UntrustedIssuerError(credential.id, credential.issuer);
+  }
+
+  let valid = false;
+  try {
+    valid = verifyBytes(
+      decodeBase58(credential.issuer),
+      encodeCredentialMessage(credential),
+      decodeBase58(signature)
+    );
+  } catch {
+    valid = false;
+  }
+
+  if (!valid) {
+    throw new InvalidSignatureError(`Credential ${credential.id} signature does not match issuer`);
+  }
+
+  if (credential.subject !== subject) {
+    throw new CredentialError(credential.id, `Credential ${credential.id} was issued to a different key`);
+  }
+
+  if (revoked.has(credential.id)) {
+    throw new CredentialRevokedError(credential.id);
+  }
+
+  if (credential.expiresAt <= now) {
+    throw new CredentialExpiredError(credential.id, credential.expiresAt);
+  }
+
+  return {
+    id: deriveResearcherId(subject),
+    credentials: [...credential.credentials],
+    institution: credential.institution,
+    clearanceLevel: credential.clearanceLevel,
+    specializations: [...credential.specializations],
+    publicKey: subject,
+    issuer: credential.issuer,
+    credentialId: credential.id,
+    expiresAt: credential.expiresAt
+  };
+}
+
+/**
+ * Researcher ID for a public key, as used in approvals and audit entries
+ */
+export function deriveResearcherId(publicKey: string): string {
+  return createHash('sha256')
+    .update(publicKey)
+    .digest('hex')
+    .substring(0, 16);
+}
 
 export class Identity403 {
   private researcherKey: string;
+  private transport: Transport;
+  private keypair: Ed25519Keypair;
+  private publicKey: string;
+  private credential?: SignedCredential;
+  private trustedIssuers: Set<string>;
+  private revoked: Set<string>;
+  private policy: PolicyEngine;
+  private audit?: AuditLog;
+  private delegationLimits: Map<string, number>;
+  private delegatedSpend: DelegatedSpendStore;
 
-  constructor(researcherKey: string) {
+  constructor(researcherKey: string, transport: Transport, options: Identity403Options = {}) {
     this.researcherKey = researcherKey;
+    this.transport = transport;
+    // The researcher key deterministically seeds an ed25519 keypair
+    this.keypair = generateKeypair(createHash('sha256').update(researcherKey).digest());
+    this.publicKey = encodeBase58(this.keypair.publicKey);
+    this.credential = options.credential;
+    this.trustedIssuers = new Set(options.trustedIssuers || []);
+    this.revoked = new Set(options.revoked || []);
+    this.policy = options.policy || new PolicyEngine();
+    this.audit = options.audit;
+    this.delegationLimits = new Map();
+    this.delegatedSpend = options.delegatedSpend || new MemoryDelegatedSpendStore();
   }
 
+  /**
+   * Prove possession of the researcher key by signing a gateway challenge, then
+   * verify the returned credential against the trusted issuers
+   */
   async verifyIdentity(): Promise<ResearcherIdentity> {
-    // Mock: Verify researcher identity via zero-knowledge proof
-    const identity: ResearcherIdentity = {
-      id: this.generateId(),
-      credentials: ['PhD', 'Lab Safety Certified', 'Biosafety Level 2'],
-      institution: 'MIT Research Lab',
-      clearanceLevel: 3,
-      specializations: ['molecular-biology', 'biochemistry', 'genomics']
-    };
+    const { challenge } = await sendRequest<IdentityChallenge>(this.transport, {
+      method: 'POST',
+      path: '/identity/challenge',
+      body: { publicKey: this.publicKey }
+    });
+
+    const { credential } = await sendRequest<{ credential: SignedCredential }>(this.transport, {
+      method: 'POST',
+      path: '/identity/verify',
+      body: {
+        researcherId: this.generateId(),
+        publicKey: this.publicKey,
+        challenge,
+        signature: this.signChallenge(challenge),
+        credential: this.credential
+      }
+    });
+
+    const identity = this.verifyCredential(credential);
+    this.credential = credential;
 
     console.log(`Researcher verified: ${identity.id}`);
     console.log(`Clearance Level: ${identity.clearanceLevel}`);
@@ -24,53 +180,314 @@ export class Identity403 {
     return identity;
   }
 
-  async checkAccess(instrument: InstrumentType, identity: ResearcherIdentity): Promise<boolean> {
-    // Mock: Check if researcher has permission to use instrument
-    const requiredClearance = this.getRequiredClearance(instrument);
+  /**
+   * Check a credential's issuer, signature, subject, revocation and expiry,
+   * and derive the researcher identity from its claims
+   */
+  verifyCredential(signed: SignedCredential, now: number = Date.now()): ResearcherIdentity {
+    return this.checkCredential(signed, this.publicKey, now);
+  }
 
-    if (identity.clearanceLevel < requiredClearance) {
-      throw new Error(
-        `Insufficient clearance. Required: ${requiredClearance}, Have: ${identity.clearanceLevel}`
-      );
+  private checkCredential(signed: SignedCredential, subject: string, now: number): ResearcherIdentity {
+    return checkSignedCredential(signed, subject, this.trustedIssuers, this.revoked, now);
+  }
+
+  /**
+   * Grant another key a slice of this researcher's access. Without a parent the
+   * token is rooted in our own credential; with one, we re-delegate a chain that
+   * ends at our key and the new scope must stay within it.
+   */
+  delegate(
+    subject: string,
+    scope: DelegationScope = {},
+    ttl: number = 86400000, // 24 hours
+    parent?: Delegation
+  ): Delegation {
+    const now = Date.now();
+    const id = randomBytes(16).toString('hex');
+    let credential: SignedCredential;
+    let expiresAt = now + ttl;
+    let parentId: string | undefined;
+
+    if (parent) {
+      const context = this.verifyDelegation(parent, now).delegation!;
+      this.checkNarrows(id, scope, context);
+      credential = parent.credential;
+      expiresAt = Math.min(expiresAt, context.expiresAt);
+      parentId = context.tokenId;
+    } else {
+      if (!this.credential) {
+        throw new DelegationError('Cannot delegate before a credential has been verified');
+      }
+      credential = this.credential;
+      expiresAt = Math.min(expiresAt, credential.credential.expiresAt);
     }
 
-    console.log(`Access granted for ${instrument}`);
-    return true;
-  }
+    const grant: DelegationGrant = {
+      id,
+      issuer: this.publicKey,
+      subject,
+      parent: parentId,
+      scope: {
+        instruments: scope.instruments ? [...scope.instruments] : undefined,
+        maxSpend: scope.maxSpend
+      },
+      issuedAt: now,
+      expiresAt
+    };
+
+    const token = {
+      grant,
+      signature: encodeBase58(signBytes(this.keypair.secretKey, encodeDelegationMessage(grant)))
+    };
 
-  private getRequiredClearance(instrument: InstrumentType): number {
-    const clearanceLevels: Record<InstrumentType, number> = {
-      'dna-sequencer': 2,
-      'spectroscopy': 1,
-      'microscopy': 1,
-      'mass-spec': 2,
-      'nmr': 2,
-      'x-ray-diffraction': 3
+    return {
+      credential,
+      chain: [...(parent?.chain || []), token]
     };
+  }
+
+  /**
+   * Check a delegation chain that ends at our key: the root credential, every
+   * token's signature, linkage and expiry, and that each scope only narrows.
+   * Returns the delegator's identity carrying the effective scope.
+   */
+  verifyDelegation(delegation: Delegation, now: number = Date.now()): ResearcherIdentity {
+    const { credential, chain } = delegation;
+
+    if (chain.length === 0) {
+      throw new DelegationError('Delegation chain is empty');
+    }
+
+    const identity = this.checkCredential(credential, chain[0].grant.issuer, now);
+    let context: DelegationContext | undefined;
+
+    chain.forEach(({ grant, signature }, index) => {
+      const previous = index > 0 ? chain[index - 1].grant : undefined;
+
+      // Each token must be issued by the previous token's subject, naming it as parent
+      const linked = previous
+        ? grant.issuer === previous.subject && grant.parent === previous.id
+        : grant.parent === undefined;
+
+      if (!linked) {
+        throw new DelegationError(`Delegation ${grant.id} is not linked to the chain before it`, grant.id);
+      }
+
+      let valid = false;
+      try {
+        valid = verifyBytes(
+          decodeBase58(grant.issuer),
+          encodeDelegationMessage(grant),
+          decodeBase58(signature)
+        );
+      } catch {
+        valid = false;
+      }
+
+      if (!valid) {
+        throw new InvalidSignatureError(`Delegation ${grant.id} signature does not match its issuer`);
+      }
+
+      if (grant.expiresAt <= now) {
+        throw new DelegationExpiredError(grant.id, grant.expiresAt);
+      }
+
+      if (context) {
+        this.checkNarrows(grant.id, grant.scope, context);
+      }
+
+      context = {
+        tokenId: grant.id,
+        chain: [...(context?.chain || []), grant.id],
+        delegator: chain[0].grant.issuer,
+        delegate: grant.subject,
+        instruments: grant.scope.instruments ?? context?.instruments,
+        maxSpend: grant.scope.maxSpend ?? context?.maxSpend,
+        expiresAt: Math.min(grant.expiresAt, context?.expiresAt ?? Infinity)
+      };
+
+      if (grant.scope.maxSpend !== undefined) {
+        this.delegationLimits.set(grant.id, grant.scope.maxSpend);
+      }
+    });
+
+    if (context!.delegate !== this.publicKey) {
+      throw new DelegationError(`Delegation ${context!.tokenId} was issued to a different key`, context!.tokenId);
+    }
+
+    return { ...identity, delegation: context };
+  }
+
+  /**
+   * Reserve spend (USD) against every token in a delegated identity's chain.
+   * Throws DelegationScopeError if any token's maxSpend would be exceeded.
+   */
+  authorizeDelegatedSpend(identity: ResearcherIdentity, amount: number): void {
+    const tokens = identity.delegation?.chain || [];
+    const entries = tokens.length > 0 ? this.delegatedSpend.load() : [];
+
+    tokens.forEach(tokenId => {
+      const limit = this.delegationLimits.get(tokenId);
+      const spent = this.sumSpend(entries, tokenId);
+
+      if (limit !== undefined && spent + amount > limit + 1e-9) {
+        throw new DelegationScopeError(
+          tokenId,
+          `Delegation ${tokenId} allows $${limit.toFixed(2)}, $${Math.max(limit - spent, 0).toFixed(2)} remaining`
+        );
+      }
+    });
+
+    this.recordDelegatedSpend(identity, amount);
+  }
+
+  /**
+   * Record spend against a delegated identity's chain; negative amounts credit it back
+   */
+  recordDelegatedSpend(identity: ResearcherIdentity, amount: number): void {
+    const timestamp = Date.now();
+
+    (identity.delegation?.chain || []).forEach(tokenId => {
+      this.delegatedSpend.append({ tokenId, amount, timestamp });
+    });
+  }
+
+  getDelegatedSpend(tokenId: string): number {
+    return this.sumSpend(this.delegatedSpend.load(), tokenId);
+  }
+
+  private sumSpend(entries: DelegatedSpendEntry[], tokenId: string): number {
+    return entries
+      .filter(entry => entry.tokenId === tokenId)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+  }
+
+  private checkNarrows(tokenId: string, scope: DelegationScope, parent: DelegationScope): void {
+    if (parent.instruments) {
+      const widened = scope.instruments
+        ? scope.instruments.filter(instrument => !parent.instruments!.includes(instrument))
+        : ['any instrument'];
+
+      if (widened.length > 0) {
+        throw new DelegationScopeError(tokenId, `Delegation ${tokenId} widens instruments to ${widened.join(', ')}`);
+      }
+    }
+
+    if (parent.maxSpend !== undefined && (scope.maxSpend === undefined || scope.maxSpend > parent.maxSpend)) {
+      throw new DelegationScopeError(tokenId, `Delegation ${tokenId} exceeds the $${parent.maxSpend.toFixed(2)} spend limit it was delegated`);
+    }
+  }
+
+  trustIssuer(publicKey: string): void {
+    this.trustedIssuers.add(publicKey);
+  }
 
-    return clearanceLevels[instrument] || 1;
+  revokeCredential(credentialId: string): void {
+    this.revoked.add(credentialId);
   }
 
-  async generateProof(): Promise<string> {
-    // Mock: Generate zero-knowledge proof
-    const nonce = randomBytes(16).toString('hex');
-    const timestamp = Date.now().toString();
-    const data = this.researcherKey + nonce + timestamp;
-    
-    const proof = createHash('sha256').update(data).digest('hex');
-    
-    return proof;
+  getPublicKey(): string {
+    return this.publicKey;
+  }
+
+  getCredential(): SignedCredential | undefined {
+    return this.credential;
+  }
+
+  private signChallenge(challenge: string): string {
+    return encodeBase58(signBytes(this.keypair.secretKey, Buffer.from(challenge)));
+  }
+
+  /**
+   * Evaluate the access policy for an instrument. Throws AccessDeniedError on deny;
+   * allow and require-approval decisions are returned with their explanation.
+   */
+  async checkAccess(
+    instrument: InstrumentType,
+    identity: ResearcherIdentity,
+    context: Omit<AccessContext, 'identity' | 'instrument'> = {}
+  ): Promise<AccessDecision> {
+    // Credentials can lapse or be revoked after verification
+    if (identity.credentialId && this.revoked.has(identity.credentialId)) {
+      throw new CredentialRevokedError(identity.credentialId);
+    }
+
+    if (identity.credentialId && identity.expiresAt !== undefined && identity.expiresAt <= Date.now()) {
+      throw new CredentialExpiredError(identity.credentialId, identity.expiresAt);
+    }
+
+    const { delegation } = identity;
+    if (delegation) {
+      if (delegation.expiresAt <= Date.now()) {
+        throw new DelegationExpiredError(delegation.tokenId, delegation.expiresAt);
+      }
+
+      if (delegation.instruments && !delegation.instruments.includes(instrument)) {
+        throw new DelegationScopeError(delegation.tokenId, `Delegation ${delegation.tokenId} does not cover ${instrument}`);
+      }
+    }
+
+    const decision = this.policy.evaluate({ ...context, identity, instrument });
+
+    this.audit?.append('access.check', instrument, {
+      effect: decision.effect,
+      rule: decision.rule?.id,
+      explanation: decision.explanation,
+      lab: context.lab?.id,
+      sampleType: context.sampleType,
+      delegate: delegation?.delegate,
+      delegationId: delegation?.tokenId
+    }, identity.id);
+
+    if (decision.effect === 'deny') {
+      throw new AccessDeniedError(instrument, decision);
+    }
+
+    console.log(decision.effect === 'allow'
+      ? `Access granted for ${instrument}`
+      : `Access to ${instrument} needs approval`);
+    console.log(`Policy: ${decision.explanation}`);
+
+    return decision;
+  }
+
+  getPolicy(): PolicyEngine {
+    return this.policy;
+  }
+
+  /**
+   * Answer a verifier's nonce with a proof of key possession bound to the nonce,
+   * the current time and the verifier's audience. The key itself is never sent.
+   */
+  async generateProof(challenge: ProofChallenge | string): Promise<IdentityProof> {
+    const { nonce, audience } = typeof challenge === 'string'
+      ? { nonce: challenge, audience: undefined }
+      : challenge;
+
+    const unsigned = {
+      publicKey: this.publicKey,
+      nonce,
+      timestamp: Date.now(),
+      audience
+    };
+
+    return {
+      ...unsigned,
+      signature: encodeBase58(signBytes(this.keypair.secretKey, encodeProofMessage(unsigned)))
+    };
   }
 
-  private generateId(): string {
-    const hash = createHash('sha256')
-      .update(this.researcherKey)
-      .digest('hex');
-    
-    return hash.substring(0, 16);
+  private generateId(publicKey: string = this.publicKey): string {
+    return deriveResearcherId(publicKey);
   }
 
-  async logAccess(instrument: InstrumentType, analysisId: string): Promise<void> {
+  async logAccess(instrument: InstrumentType, analysisId: string, identity?: ResearcherIdentity): Promise<void> {
+    this.audit?.append('analysis.request', analysisId, {
+      instrument,
+      delegate: identity?.delegation?.delegate,
+      delegationId: identity?.delegation?.tokenId
+    }, identity?.id || this.generateId());
     console.log(`Access logged: ${instrument} - Analysis ${analysisId}`);
   }
 }
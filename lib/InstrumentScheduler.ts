@@ -0,0 +1,282 @@
+// InstrumentScheduler - per lab instrument calendars with holds, reservations and conflict checks
+
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import type { InstrumentType, Lab402Event } from './types';
+import type {
+  Reservation,
+  ReservationRequest,
+  TimeSlot,
+  InstrumentSchedulerOptions
+} from './schedule-types';
+import { ReservationError, ReservationConflictError } from './errors';
+
+export class InstrumentScheduler extends EventEmitter {
+  private reservations: Map<string, Reservation>;
+  private holdTtl: number;
+
+  constructor(options: InstrumentSchedulerOptions = {}) {
+    super();
+    this.reservations = new Map();
+    this.holdTtl = options.holdTtl ?? 900000; // 15 minutes
+  }
+
+  /**
+   * Tentatively claim a slot while details are sorted out; it lapses after the
+   * hold TTL unless confirm()ed
+   */
+  hold(request: ReservationRequest, ttl: number = this.holdTtl): Reservation {
+    const reservation = this.book(request, 'held');
+    reservation.holdExpiresAt = Date.now() + ttl;
+
+    this.emitEvent('reservation.held', { reservation: { ...reservation } });
+
+    return { ...reservation };
+  }
+
+  /**
+   * Book a slot outright
+   */
+  reserve(request: ReservationRequest): Reservation {
+    const reservation = this.book(request, 'reserved');
+
+    this.emitEvent('reservation.confirmed', { reservation: { ...reservation } });
+
+    return { ...reservation };
+  }
+
+  /**
+   * Turn a live hold into a reservation
+   */
+  confirm(reservationId: string): Reservation {
+    const reservation = this.requireReservation(reservationId);
+
+    if (reservation.status !== 'held') {
+      throw new ReservationError(reservationId, `Reservation ${reservationId} is ${reservation.status}, not held`, 'RESERVATION_STATE');
+    }
+
+    reservation.status = 'reserved';
+    reservation.holdExpiresAt = undefined;
+
+    this.emitEvent('reservation.confirmed', { reservation: { ...reservation } });
+
+    return { ...reservation };
+  }
+
+  /**
+   * Give a held or reserved slot back to the calendar
+   */
+  release(reservationId: string, reason?: string): Reservation {
+    const reservation = this.requireReservation(reservationId);
+
+    if (reservation.status !== 'held' && reservation.status !== 'reserved') {
+      throw new ReservationError(reservationId, `Reservation ${reservationId} is already ${reservation.status}`, 'RESERVATION_STATE');
+    }
+
+    reservation.status = 'released';
+
+    this.emitEvent('reservation.released', { reservation: { ...reservation }, reason });
+
+    return { ...reservation };
+  }
+
+  /**
+   * Bind a reservation to the analysis that will run in it. Only the holder can
+   * use it, for the instrument it was booked for, and only once.
+   */
+  attach(reservationId: string, analysisId: string, holder: string, instrument: InstrumentType): Reservation {
+    const reservation = this.requireReservation(reservationId);
+
+    if (reservation.status === 'held') {
+      throw new ReservationError(reservationId, `Reservation ${reservationId} must be confirmed before use`, 'RESERVATION_STATE');
+    }
+
+    if (reservation.status !== 'reserved') {
+      throw new ReservationError(reservationId, `Reservation ${reservationId} is ${reservation.status}`, 'RESERVATION_STATE');
+    }
+
+    if (reservation.holder !== holder) {
+      throw new ReservationError(reservationId, `Reservation ${reservationId} belongs to another researcher`, 'RESERVATION_HOLDER');
+    }
+
+    if (reservation.instrument !== instrument) {
+      throw new ReservationError(reservationId, `Reservation ${reservationId} is for ${reservation.instrument}, not ${instrument}`);
+    }
+
+    if (reservation.end <= Date.now()) {
+      throw new ReservationError(reservationId, `Reservation ${reservationId} ended at ${new Date(reservation.end).toISOString()}`, 'RESERVATION_ENDED');
+    }
+
+    if (reservation.analysisId) {
+      throw new ReservationError(reservationId, `Reservation ${reservationId} is already used by analysis ${reservation.analysisId}`, 'RESERVATION_STATE');
+    }
+
+    reservation.analysisId = analysisId;
+
+    return { ...reservation };
+  }
+
+  /**
+   * Free a reservation again for another analysis, e.g. when the one it was
+   * attached to was never submitted
+   */
+  detach(reservationId: string, analysisId: string): void {
+    const reservation = this.requireReservation(reservationId);
+
+    if (reservation.analysisId === analysisId) {
+      reservation.analysisId = undefined;
+    }
+  }
+
+  getReservation(reservationId: string): Reservation | undefined {
+    const reservation = this.reservations.get(reservationId);
+    if (reservation) this.expireHold(reservation);
+    return reservation ? { ...reservation } : undefined;
+  }
+
+  /**
+   * Active holds and reservations on an instrument overlapping [from, to), by start time
+   */
+  getCalendar(labId: string, instrument: InstrumentType, from: number = Date.now(), to: number = Infinity): Reservation[] {
+    return this.active(labId, instrument)
+      .filter(r => r.start < to && r.end > from)
+      .sort((a, b) => a.start - b.start)
+      .map(r => ({ ...r }));
+  }
+
+  /**
+   * Active holds and reservations that overlap the requested slot
+   */
+  findConflicts(labId: string, instrument: InstrumentType, slot: TimeSlot): Reservation[] {
+    return this.getCalendar(labId, instrument, slot.start, slot.end);
+  }
+
+  /**
+   * Free windows of at least `duration` ms on an instrument between `from` and `to`
+   */
+  findAvailableSlots(
+    labId: string,
+    instrument: InstrumentType,
+    duration: number,
+    from: number = Date.now(),
+    to: number = from + 604800000 // 1 week
+  ): TimeSlot[] {
+    const slots: TimeSlot[] = [];
+    let cursor = from;
+
+    this.getCalendar(labId, instrument, from, to).forEach(booking => {
+      if (booking.start - cursor >= duration) {
+        slots.push({ start: cursor, end: booking.start });
+      }
+      cursor = Math.max(cursor, booking.end);
+    });
+
+    if (to - cursor >= duration) {
+      slots.push({ start: cursor, end: to });
+    }
+
+    return slots;
+  }
+
+  /**
+   * Earliest start time at or after `after` with `duration` ms free
+   */
+  nextAvailable(labId: string, instrument: InstrumentType, duration: number, after: number = Date.now()): number {
+    let cursor = after;
+
+    this.getCalendar(labId, instrument, after).forEach(booking => {
+      if (booking.start - cursor < duration) {
+        cursor = Math.max(cursor, booking.end);
+      }
+    });
+
+    return cursor;
+  }
+
+  getReservationsByHolder(holder: string): Reservation[] {
+    return Array.from(this.reservations.values())
+      .filter(r => r.holder === holder)
+      .map(r => {
+        this.expireHold(r);
+        return { ...r };
+      });
+  }
+
+  private book(request: ReservationRequest, status: 'held' | 'reserved'): Reservation {
+    const end = request.end ?? (request.duration !== undefined ? request.start + request.duration : undefined);
+
+    if (end === undefined || !Number.isFinite(request.start) || !Number.isFinite(end) || end <= request.start) {
+      throw new ReservationError(undefined, 'A reservation needs a start and a later end (or a positive duration)');
+    }
+
+    if (end <= Date.now()) {
+      throw new ReservationError(undefined, 'Cannot book a slot that has already ended');
+    }
+
+    const conflicts = this.findConflicts(request.labId, request.instrument, { start: request.start, end });
+    if (conflicts.length > 0) {
+      throw new ReservationConflictError(request.labId, request.instrument, conflicts);
+    }
+
+    const reservation: Reservation = {
+      id: randomBytes(8).toString('hex'),
+      labId: request.labId,
+      instrument: request.instrument,
+      start: request.start,
+      end,
+      holder: request.holder,
+      status,
+      note: request.note,
+      createdAt: Date.now()
+    };
+
+    this.reservations.set(reservation.id, reservation);
+
+    return reservation;
+  }
+
+  private active(labId: string, instrument: InstrumentType): Reservation[] {
+    return Array.from(this.reservations.values()).filter(r => {
+      this.expireHold(r);
+      return r.labId === labId &&
+        r.instrument === instrument &&
+        (r.status === 'held' || r.status === 'reserved');
+    });
+  }
+
+  /**
+   * Lapse a hold whose TTL has passed
+   */
+  private expireHold(reservation: Reservation): void {
+    if (
+      reservation.status === 'held' &&
+      reservation.holdExpiresAt !== undefined &&
+      reservation.holdExpiresAt <= Date.now()
+    ) {
+      reservation.status = 'expired';
+      this.emitEvent('reservation.expired', { reservation: { ...reservation } });
+    }
+  }
+
+  private requireReservation(reservationId: string): Reservation {
+    const reservation = this.reservations.get(reservationId);
+
+    if (!reservation) {
+      throw new ReservationError(reservationId, `Reservation ${reservationId} not found`, 'RESERVATION_NOT_FOUND');
+    }
+
+    this.expireHold(reservation);
+
+    return reservation;
+  }
+
+  private emitEvent(type: Lab402Event['type'], data: any): void {
+    const event: Lab402Event = {
+      type,
+      timestamp: Date.now(),
+      data
+    };
+
+    this.emit(type, event);
+  }
+}
@@ -0,0 +1,277 @@
+// JobQueue - per lab instrument run queues ordered by priority and fair share
+
+import { EventEmitter } from 'events';
+import type { InstrumentType, Lab402Event } from './types';
+import type {
+  JobPriority,
+  JobRequest,
+  QueuedJob,
+  QueuePosition,
+  PreemptionRule,
+  FairShareKey,
+  JobQueueOptions
+} from './queue-types';
+
+export const DEFAULT_PREEMPTION_RULES: PreemptionRule[] = [
+  { priority: 'high', preempts: ['low'], maxPreemptions: 1 }
+];
+
+const PRIORITY_RANK: Record<JobPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0
+};
+
+export class JobQueue extends EventEmitter {
+  private jobs: Map<string, QueuedJob>;
+  private watchers: Map<string, (job: QueuedJob) => void>;
+  private usage: Map<string, Map<string, number>>; // Queue key -> owner -> ms started
+  private concurrency: number;
+  private defaultDuration: number;
+  private fairShare: FairShareKey;
+  private shares: Record<string, number>;
+  private preemption: PreemptionRule[];
+
+  constructor(options: JobQueueOptions = {}) {
+    super();
+    this.jobs = new Map();
+    this.watchers = new Map();
+    this.usage = new Map();
+    this.concurrency = options.concurrency ?? 1;
+    this.defaultDuration = options.defaultDuration ?? 60000; // 1 minute
+    this.fairShare = options.fairShare || 'researcher';
+    this.shares = options.shares || {};
+    this.preemption = options.preemption || DEFAULT_PREEMPTION_RULES;
+  }
+
+  /**
+   * Queue a job for its lab instrument; it starts right away if a slot is free
+   * or it can preempt a running job. `onChange` is called whenever the job
+   * starts, is preempted, completes or is removed.
+   *
+   * Priority, fair share and preemption only weigh jobs in this queue, so they
+   * balance separate Lab402 clients only when those share one JobQueue.
+   */
+  enqueue(request: JobRequest, onChange?: (job: QueuedJob) => void): QueuedJob {
+    if (this.jobs.has(request.id)) {
+      throw new Error(`Job ${request.id} is already queued`);
+    }
+
+    const duration = request.duration ?? this.defaultDuration;
+    const job: QueuedJob = {
+      id: request.id,
+      labId: request.labId,
+      instrument: request.instrument,
+      priority: request.priority || 'normal',
+      researcher: request.researcher,
+      project: request.project,
+      duration,
+      remaining: duration,
+      status: 'queued',
+      enqueuedAt: Date.now(),
+      preemptions: 0
+    };
+
+    this.jobs.set(job.id, job);
+    if (onChange) this.watchers.set(job.id, onChange);
+
+    this.emitEvent('queue.enqueued', { job: { ...job } });
+
+    this.preemptFor(job);
+    this.dispatch(job.labId, job.instrument);
+
+    return { ...job };
+  }
+
+  /**
+   * The job is done with the instrument; the next one in line starts
+   */
+  complete(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status === 'completed' || job.status === 'removed') return;
+
+    job.status = 'completed';
+    job.remaining = 0;
+    this.settle(job, 'queue.completed');
+  }
+
+  /**
+   * Drop a job that was cancelled or failed, freeing its slot if it was running
+   */
+  remove(jobId: string, reason?: string): void {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status === 'completed' || job.status === 'removed') return;
+
+    // Give back the unused part of the estimate
+    if (job.status === 'running') {
+      this.addUsage(job, -Math.max(0, job.startedAt! + job.remaining - Date.now()));
+    }
+
+    job.status = 'removed';
+    this.settle(job, 'queue.removed', reason);
+  }
+
+  getJob(jobId: string): QueuedJob | undefined {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  /**
+   * Running jobs first, then waiting ones in the order they will start
+   */
+  getJobs(labId: string, instrument: InstrumentType): QueuedJob[] {
+    return [...this.running(labId, instrument), ...this.waiting(labId, instrument)].map(job => ({ ...job }));
+  }
+
+  /**
+   * Where a job stands and when it is expected to get the instrument. Estimates
+   * assume every job ahead runs for its estimated duration.
+   */
+  getPosition(jobId: string): QueuePosition | undefined {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status === 'completed' || job.status === 'removed') return undefined;
+
+    if (job.status === 'running') {
+      return { jobId, status: job.status, position: 0, ahead: 0, estimatedStart: job.startedAt! };
+    }
+
+    const now = Date.now();
+    const waiting = this.waiting(job.labId, job.instrument);
+    const ahead = waiting.findIndex(j => j.id === jobId);
+
+    // When each slot frees up, then fill them with the jobs ahead
+    const slots = this.running(job.labId, job.instrument).map(j => Math.max(now, j.startedAt! + j.remaining));
+    while (slots.length < this.concurrency) slots.push(now);
+
+    waiting.slice(0, ahead).forEach(j => {
+      slots.sort((a, b) => a - b);
+      slots[0] += j.remaining;
+    });
+
+    return {
+      jobId,
+      status: job.status,
+      position: ahead + 1,
+      ahead,
+      estimatedStart: Math.min(...slots)
+    };
+  }
+
+  private dispatch(labId: string, instrument: InstrumentType): void {
+    while (this.running(labId, instrument).length < this.concurrency) {
+      const next = this.waiting(labId, instrument)[0];
+      if (!next) return;
+      this.start(next);
+    }
+  }
+
+  private start(job: QueuedJob): void {
+    const resumed = job.status === 'preempted';
+    job.status = 'running';
+    job.startedAt = Date.now();
+    this.addUsage(job, job.remaining);
+
+    console.log(`${resumed ? 'Resumed' : 'Started'} ${job.priority} job ${job.id} on ${job.instrument} at ${job.labId}`);
+
+    this.emitEvent('queue.started', { job: { ...job }, resumed });
+    this.notify(job);
+  }
+
+  /**
+   * Suspend a running job to make room for `job` if every slot is busy and a
+   * preemption rule allows it. Prefers the lowest priority, then the job that
+   * started last, since it loses the least work.
+   */
+  private preemptFor(job: QueuedJob): void {
+    const running = this.running(job.labId, job.instrument);
+    if (running.length < this.concurrency) return;
+
+    const rule = this.preemption.find(r => r.priority === job.priority);
+    if (!rule) return;
+
+    const victim = running
+      .filter(r => rule.preempts.includes(r.priority) && r.preemptions < (rule.maxPreemptions ?? 1))
+      .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || b.startedAt! - a.startedAt!)[0];
+    if (!victim) return;
+
+    const elapsed = Date.now() - victim.startedAt!;
+    this.addUsage(victim, -Math.max(0, victim.remaining - elapsed));
+    victim.remaining = Math.max(0, victim.remaining - elapsed);
+    victim.status = 'preempted';
+    victim.preemptions++;
+
+    console.log(`Preempted ${victim.priority} job ${victim.id} for ${job.priority} job ${job.id}`);
+
+    this.emitEvent('queue.preempted', { job: { ...victim }, by: job.id });
+    this.notify(victim);
+  }
+
+  private settle(job: QueuedJob, type: 'queue.completed' | 'queue.removed', reason?: string): void {
+    this.emitEvent(type, { job: { ...job }, reason });
+    this.notify(job);
+    this.watchers.delete(job.id);
+    this.jobs.delete(job.id);
+    this.dispatch(job.labId, job.instrument);
+  }
+
+  private running(labId: string, instrument: InstrumentType): QueuedJob[] {
+    return Array.from(this.jobs.values()).filter(job =>
+      job.labId === labId && job.instrument === instrument && job.status === 'running'
+    );
+  }
+
+  /**
+   * Queued and preempted jobs by priority, then by their owner's usage
+   * relative to its share, then first come first served
+   */
+  private waiting(labId: string, instrument: InstrumentType): QueuedJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job =>
+        job.labId === labId &&
+        job.instrument === instrument &&
+        (job.status === 'queued' || job.status === 'preempted')
+      )
+      .sort((a, b) =>
+        PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] ||
+        this.getShareUsed(a) - this.getShareUsed(b) ||
+        a.enqueuedAt - b.enqueuedAt
+      );
+  }
+
+  private getShareUsed(job: QueuedJob): number {
+    const owner = this.getOwner(job);
+    const used = this.usage.get(this.getKey(job))?.get(owner) || 0;
+    return used / (this.shares[owner] ?? 1);
+  }
+
+  private addUsage(job: QueuedJob, amount: number): void {
+    const key = this.getKey(job);
+    const owner = this.getOwner(job);
+
+    if (!this.usage.has(key)) this.usage.set(key, new Map());
+    const usage = this.usage.get(key)!;
+    usage.set(owner, Math.max(0, (usage.get(owner) || 0) + amount));
+  }
+
+  private getOwner(job: QueuedJob): string {
+    return this.fairShare === 'project' && job.project ? job.project : job.researcher;
+  }
+
+  private getKey(job: QueuedJob): string {
+    return `${job.labId}:${job.instrument}`;
+  }
+
+  private notify(job: QueuedJob): void {
+    this.watchers.get(job.id)?.({ ...job });
+  }
+
+  private emitEvent(type: Lab402Event['type'], data: any): void {
+    const event: Lab402Event = {
+      type,
+      timestamp: Date.now(),
+      data
+    };
+
+    this.emit(type, event);
+  }
+}
@@ -0,0 +1,35 @@
+// JsonFileLedgerStore - ledger persisted as a JSON document on disk
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { LedgerEntry, LedgerStore } from './payment-types';
+
+export class JsonFileLedgerStore implements LedgerStore {
+  private path: string;
+  private entries: LedgerEntry[];
+
+  constructor(path: string) {
+    this.path = path;
+    this.entries = existsSync(path)
+      ? JSON.parse(readFileSync(path, 'utf8')).entries || []
+      : [];
+  }
+
+  load(): LedgerEntry[] {
+    return [...this.entries];
+  }
+
+  append(entry: LedgerEntry): void {
+    this.entries.push(entry);
+    this.flush();
+  }
+
+  private flush(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+
+    // Write then rename so a crash never leaves a truncated ledger
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify({ version: 1, entries: this.entries }, null, 2));
+    renameSync(tmp, this.path);
+  }
+}
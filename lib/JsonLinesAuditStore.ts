@@ -0,0 +1,40 @@
+// JsonLinesAuditStore - append-only audit log file, one JSON record per line
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import type { AuditRecord, AuditStore, UnreadableAuditRecord } from './audit-types';
+
+export class JsonLinesAuditStore implements AuditStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * A truncated or corrupt line is returned as unreadable, in its place, so
+   * verification can report it instead of failing to load the log
+   */
+  load(): Array<AuditRecord | UnreadableAuditRecord> {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    return readFileSync(this.path, 'utf8')
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => {
+        try {
+          return JSON.parse(line);
+        } catch (error) {
+          return { unreadable: true, error: (error as Error).message };
+        }
+      });
+  }
+
+  append(record: AuditRecord): void {
+    // Never rewrite earlier lines; existing records stay byte-for-byte intact
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, JSON.stringify(record) + '\n');
+  }
+}
@@ -0,0 +1,32 @@
+// JsonLinesDelegatedSpendStore - delegated spend file, one JSON entry per line
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import type { DelegatedSpendEntry, DelegatedSpendStore } from './identity-types';
+
+export class JsonLinesDelegatedSpendStore implements DelegatedSpendStore {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Re-read on every load, so clients sharing the file see each other's spend
+   */
+  load(): DelegatedSpendEntry[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    return readFileSync(this.path, 'utf8')
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line));
+  }
+
+  append(entry: DelegatedSpendEntry): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, JSON.stringify(entry) + '\n');
+  }
+}
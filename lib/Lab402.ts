@@ -11,10 +11,34 @@ import { AIModelSelector } from './AIModelSelector';
 import { CostOptimizer } from './CostOptimizer';
 import { Pipeline } from './Pipeline';
 import { PipelineTemplates } from './PipelineTemplates';
+import { HttpTransport } from './HttpTransport';
+import { MockTransport } from './MockTransport';
+import { sendRequest } from './Transport';
+import { RefundPolicy } from './RefundPolicy';
+import { BudgetManager } from './BudgetManager';
+import { AuditLog } from './AuditLog';
+import { ApprovalManager, DEFAULT_APPROVAL_RULES } from './ApprovalManager';
+import { HealthMonitor } from './HealthMonitor';
+import { InstrumentScheduler } from './InstrumentScheduler';
+import { JobQueue } from './JobQueue';
+import { MOCK_ISSUER, MOCK_LABS } from './mock-data';
+import { resolveLocation } from './gazetteer';
+import { ApprovalError, ApprovalRequiredError, ReservationError, RoutingError } from './errors';
+import type { PolicyEngine } from './PolicyEngine';
+import type { AccessContext, AccessDecision } from './policy-types';
+import type { ProofChallenge, IdentityProof, Delegation, DelegationScope } from './identity-types';
+import type { PaymentLedger } from './PaymentLedger';
+import type { SpendContext } from './budget-types';
+import type { ApprovalRequest, ApproverSignature } from './approval-types';
+import type { LabHealth } from './health-types';
+import type { Reservation, ReservationRequest, SlotRequest, TimeSlot } from './schedule-types';
+import type { QueuedJob } from './queue-types';
 import type {
   Lab402Config,
+  ResolvedLab402Config,
   AnalysisRequest,
   UnifiedInvoice,
+  InvoiceAttribution,
   InstrumentAvailability,
   PricingTier,
   ResearcherIdentity,
@@ -24,6 +48,10 @@ import type {
   LabInfo,
   LabPricing,
   LabSelection,
+  GeoLocation,
+  LabScorer,
+  RoutingOptions,
+  RoutingExplanation,
   BatchRequest,
   TrackedSample,
   SampleMetadata,
@@ -40,7 +68,7 @@ import type {
 } from './cost-optimizer-types';
 
 export class Lab402 extends EventEmitter {
-  private config: Required<Lab402Config>;
+  private config: ResolvedLab402Config;
   private payment: Payment402;
   private identity: Identity403;
   private registry: LabRegistry;
@@ -51,52 +79,192 @@ export class Lab402 extends EventEmitter {
   private costOptimizer?: CostOptimizer;
   private researcherIdentity?: ResearcherIdentity;
   private activeAnalyses: Map<string, Analysis>;
+  private ready: Promise<void>;
+  private audit: AuditLog;
+  private approvals: ApprovalManager;
+  private health: HealthMonitor;
+  private scheduler: InstrumentScheduler;
+  private queue: JobQueue;
 
   constructor(config: Lab402Config) {
     super();
 
+    const endpoint = config.endpoint || 'https://api.lab402.io';
+    const timeout = config.timeout || 60000;
+    const retries = config.retries ?? 3;
+
+    // Talk HTTP only when explicitly pointed at a gateway; otherwise keep the in-memory mock
+    const transport = config.transport || (config.endpoint
+      ? new HttpTransport({ endpoint, timeout, retries })
+      : new MockTransport());
+
     this.config = {
       researcher: config.researcher,
       wallet: config.wallet,
-      endpoint: config.endpoint || 'https://api.lab402.io',
-      timeout: config.timeout || 60000,
-      retries: config.retries || 3
+      endpoint,
+      timeout,
+      retries,
+      transport,
+      signer: config.signer,
+      ledger: config.ledger,
+      refundPolicy: config.refundPolicy || new RefundPolicy(),
+      budget: config.budget || new BudgetManager(),
+      currency: config.currency || 'USD',
+      settlementCurrency: config.settlementCurrency,
+      rates: config.rates,
+      delegation: config.delegation
     };
 
-    this.payment = new Payment402(this.config.wallet, this.config.endpoint);
-    this.identity = new Identity403(this.config.researcher);
-    this.registry = new LabRegistry();
-    this.router = new Router(this.registry);
+    this.config.budget.on('budget.warning', (event) => this.emit('budget.warning', event));
+    this.config.budget.on('budget.exceeded', (event) => this.emit('budget.exceeded', event));
+
+    // Trust the mock issuer only when talking to the mock gateway
+    const trustedIssuers = config.trustedIssuers ||
+      (transport instanceof MockTransport ? [MOCK_ISSUER.publicKey] : []);
+
+    this.audit = config.audit || new AuditLog();
+    this.approvals = config.approvals || new ApprovalManager(DEFAULT_APPROVAL_RULES, {
+      trustedIssuers,
+      revoked: config.revokedCredentials
+    });
+    this.approvals.on('approval.requested', (event) => this.emit('approval.requested', event));
+    this.approvals.on('approval.granted', (event) => this.emit('approval.granted', event));
+    this.approvals.on('approval.approved', (event) => this.emit('approval.approved', event));
+    this.approvals.on('approval.rejected', (event) => this.emit('approval.rejected', event));
+    this.approvals.on('approval.cancelled', (event) => this.emit('approval.cancelled', event));
+    this.payment = new Payment402(this.config.wallet, this.config.transport, {
+      signer: this.config.signer,
+      ledger: this.config.ledger,
+      rates: this.config.rates,
+      settlementCurrency: this.config.settlementCurrency,
+      audit: this.audit
+    });
+    this.identity = new Identity403(this.config.researcher, this.config.transport, {
+      credential: config.credential,
+      trustedIssuers,
+      revoked: config.revokedCredentials,
+      policy: config.accessPolicy,
+      audit: this.audit,
+      delegatedSpend: config.delegatedSpend
+    });
+    // Only the gateway knows catalog labs; registered labs report through getHealthMonitor().recordHeartbeat()
+    this.health = config.health || new HealthMonitor({
+      transport,
+      labs: () => this.registry.getAllLabs()
+        .filter(lab => !this.registry.isRegistered(lab.id))
+        .map(lab => lab.id)
+    });
+    this.health.on('lab.circuit.open', (event) => this.emit('lab.circuit.open', event));
+    this.health.on('lab.circuit.half-open', (event) => this.emit('lab.circuit.half-open', event));
+    this.health.on('lab.circuit.closed', (event) => this.emit('lab.circuit.closed', event));
+    this.health.on('lab.heartbeat.missed', (event) => this.emit('lab.heartbeat.missed', event));
+    if (config.healthCheckInterval) {
+      this.health.start(config.healthCheckInterval);
+    }
+    this.scheduler = config.scheduler || new InstrumentScheduler();
+    this.scheduler.on('reservation.held', (event) => this.emit('reservation.held', event));
+    this.scheduler.on('reservation.confirmed', (event) => this.emit('reservation.confirmed', event));
+    this.scheduler.on('reservation.released', (event) => this.emit('reservation.released', event));
+    this.scheduler.on('reservation.expired', (event) => this.emit('reservation.expired', event));
+    this.queue = config.queue || new JobQueue();
+    this.queue.on('queue.enqueued', (event) => this.emit('queue.enqueued', event));
+    this.queue.on('queue.started', (event) => this.emit('queue.started', event));
+    this.queue.on('queue.preempted', (event) => this.emit('queue.preempted', event));
+    this.queue.on('queue.completed', (event) => this.emit('queue.completed', event));
+    this.queue.on('queue.removed', (event) => this.emit('queue.removed', event));
+
+    // Seed the mock catalog so routing works before the first refresh
+    this.registry = new LabRegistry(this.config.transport, {
+      source: config.labSource,
+      labs: transport instanceof MockTransport ? MOCK_LABS : undefined,
+      refreshInterval: config.labRefreshInterval,
+      health: this.health
+    });
+    this.registry.on('registry.updated', (event) => this.emit('registry.updated', event));
+    this.registry.on('registry.failed', (event) => this.emit('registry.failed', event));
+    this.router = new Router(
+      this.registry,
+      config.location !== undefined ? resolveLocation(config.location) : undefined,
+      config.logistics
+    );
     this.batchManager = new BatchManager(this.payment);
     this.sampleTracker = new SampleTracker();
+    this.sampleTracker.on('sample.status.updated', (event) => {
+      const { sampleId, oldStatus, newStatus, sample } = event.data;
+      const latest = sample.history[sample.history.length - 1];
+      this.audit.append('sample.status', sampleId, { from: oldStatus, to: newStatus }, latest?.actor);
+    });
     this.aiModelSelector = new AIModelSelector();
     this.activeAnalyses = new Map();
 
-    this.initialize();
+    this.ready = this.initialize();
+    // Failures surface from request()/createBatch(); avoid an unhandled rejection meanwhile
+    this.ready.catch(() => {});
   }
 
   private async initialize(): Promise<void> {
-    // Verify researcher identity
-    this.researcherIdentity = await this.identity.verifyIdentity();
+    // Load the lab catalog alongside identity; requests still work if it is unreachable
+    const catalog = this.registry.refresh().catch(error => {
+      this.emitEvent('registry.failed', { source: this.registry.getSource()?.name, error: error.message });
+    });
+
+    // Verify researcher identity, or act under a delegator's credential
+    this.researcherIdentity = this.config.delegation
+      ? this.identity.verifyDelegation(this.config.delegation)
+      : await this.identity.verifyIdentity();
     this.emitEvent('identity.verified', { identity: this.researcherIdentity });
+
+    await catalog;
   }
 
   async request(analysisRequest: AnalysisRequest): Promise<Analysis> {
+    await this.ready;
+
     if (!this.researcherIdentity) {
       throw new Error('Researcher identity not verified');
     }
 
-    // Check access permissions
-    await this.identity.checkAccess(analysisRequest.instrument, this.researcherIdentity);
+    // A per-request delegation runs under the delegator's clearance and budget
+    const identity = analysisRequest.delegation
+      ? this.identity.verifyDelegation(analysisRequest.delegation)
+      : this.researcherIdentity;
 
     // Select best lab using routing
     let selectedLab: LabSelection | undefined;
-    
-    if (analysisRequest.routing) {
+    let reservation: Reservation | undefined;
+
+    // A reservation pins the run to the lab it was booked at
+    if (analysisRequest.reservation) {
+      reservation = this.scheduler.getReservation(analysisRequest.reservation);
+
+      if (!reservation) {
+        throw new ReservationError(analysisRequest.reservation, `Reservation ${analysisRequest.reservation} not found`, 'RESERVATION_NOT_FOUND');
+      }
+
+      const lab = this.registry.getLabById(reservation.labId);
+
+      if (!lab) {
+        throw new ReservationError(reservation.id, `Lab ${reservation.labId} is no longer in the registry`, 'LAB_NOT_FOUND');
+      }
+
+      selectedLab = {
+        lab,
+        score: 0,
+        reasoning: `Reserved slot at ${new Date(reservation.start).toISOString()}`,
+        alternatives: [],
+        offering: this.registry.getOffering(lab, analysisRequest.instrument)
+      };
+    } else if (analysisRequest.routing) {
+      // Cold-chain shipping depends on how the sample has to be stored
+      const routing = {
+        ...analysisRequest.routing,
+        storageConditions: analysisRequest.routing.storageConditions ?? this.getStorageConditions(analysisRequest.sample)
+      };
+
       try {
         selectedLab = this.router.selectLab(
           analysisRequest.instrument,
-          analysisRequest.routing
+          routing
         );
         
         console.log(`Selected lab: ${selectedLab.lab.name}`);
@@ -105,13 +273,17 @@ export class Lab402 extends EventEmitter {
         this.emitEvent('lab.selected', {
           lab: selectedLab.lab,
           reasoning: selectedLab.reasoning,
-          alternatives: selectedLab.alternatives
+          alternatives: selectedLab.alternatives,
+          offering: selectedLab.offering,
+          distance: selectedLab.distance,
+          shipping: selectedLab.shipping,
+          explanation: selectedLab.explanation
         });
       } catch (error) {
         // Try fallback if primary selection fails
         const fallbackLab = this.router.tryFallback(
           analysisRequest.instrument,
-          analysisRequest.routing
+          routing
         );
         
         if (fallbackLab) {
@@ -128,8 +300,18 @@ export class Lab402 extends EventEmitter {
       }
     }
 
+    // Check access permissions against the chosen lab and sample
+    const decision = await this.identity.checkAccess(analysisRequest.instrument, identity, {
+      lab: selectedLab?.lab,
+      sampleType: analysisRequest.sampleType ?? analysisRequest.sample?.type
+    });
+
     // Generate unified 402 invoice (use selected lab pricing if available)
-    const invoice = this.generateInvoice(analysisRequest, selectedLab?.lab);
+    // and lock its rate in the requested currency
+    const invoice = await this.payment.quoteInvoice(
+      { ...this.generateInvoice(analysisRequest, selectedLab?.lab), attribution: this.getAttribution(identity) },
+      analysisRequest.currency || this.config.currency
+    );
 
     // Create analysis instance
     const analysis = new Analysis({
@@ -139,24 +321,158 @@ export class Lab402 extends EventEmitter {
       invoice
     });
 
-    // Store selected lab info in analysis
-    if (selectedLab) {
-      (analysis as any).selectedLab = selectedLab.lab;
+    // Reserved runs own their slot. Others queue for the routed lab's instrument
+    // when asked to; unrouted runs leave the ordering to the gateway.
+    if (reservation) {
+      analysis.useReservation(
+        this.scheduler.attach(reservation.id, analysis.id, identity.id, analysisRequest.instrument),
+        this.scheduler
+      );
+    } else if (selectedLab && (analysisRequest.queue || analysisRequest.priority !== undefined)) {
+      analysis.useQueue(this.queue, {
+        id: analysis.id,
+        labId: selectedLab.lab.id,
+        instrument: analysisRequest.instrument,
+        priority: analysisRequest.priority,
+        researcher: identity.id,
+        project: analysisRequest.project,
+        duration: analysisRequest.duration
+      });
     }
 
-    this.activeAnalyses.set(analysis.id, analysis);
+    // Enforce delegation and spending limits (kept in USD) before the invoice is issued
+    const spend = this.getSpendContext(analysisRequest.project, identity);
+    let budgetAmount: number;
+
+    try {
+      budgetAmount = await this.payment.convert(invoice.totalCost, invoice.currency!, 'USD');
+      this.authorizeSpend(budgetAmount, spend, identity, analysis.id);
+    } catch (error) {
+      // The request never happened, so the holder keeps the slot for a retry
+      if (reservation) this.scheduler.detach(reservation.id, analysis.id);
+      throw error;
+    }
 
-    // Log access
-    await this.identity.logAccess(analysisRequest.instrument, analysis.id);
+    const toBudget = (amount: number) => invoice.totalCost > 0 ? amount * budgetAmount / invoice.totalCost : 0;
 
-    this.emitEvent('analysis.requested', { 
-      analysisId: analysis.id,
-      instrument: analysisRequest.instrument,
-      invoice,
-      selectedLab: selectedLab?.lab
-    });
+    // The held spend is credited back at most once, whichever way the run ends unpaid
+    let spendHeld = true;
+    const releaseSpend = () => {
+      if (!spendHeld) return;
+      spendHeld = false;
+      this.creditSpend(budgetAmount, spend, identity, analysis.id);
+    };
+
+    // A half-open lab takes one trial request at a time. Claim it only once the
+    // request is going ahead; another request may have taken it in the meantime.
+    const trial = !!selectedLab && this.health.getHealth(selectedLab.lab.id).circuit === 'half-open';
+    if (selectedLab && !this.health.beginTrial(selectedLab.lab.id)) {
+      releaseSpend();
+      if (reservation) this.scheduler.detach(reservation.id, analysis.id);
+      throw new RoutingError(
+        analysisRequest.instrument,
+        `${selectedLab.lab.name} became unavailable while the request was prepared`,
+        [{
+          lab: selectedLab.lab.id,
+          labName: selectedLab.lab.name,
+          filter: 'availability',
+          reason: this.registry.getUnavailableReason(selectedLab.lab) || 'Unavailable'
+        }],
+        'NO_LABS_AVAILABLE'
+      );
+    }
+
+    try {
+      // Store selected lab info in analysis
+      if (selectedLab) {
+        (analysis as any).selectedLab = selectedLab.lab;
+      }
+
+      this.activeAnalyses.set(analysis.id, analysis);
+
+      // Sensitive or expensive runs wait for sign-off before their invoice is issued
+      const approvalContext = {
+        instrument: analysisRequest.instrument,
+        amount: budgetAmount,
+        identity,
+        lab: selectedLab?.lab,
+        decision
+      };
+      const requirements = this.approvals.evaluate(approvalContext);
+      let approval: ApprovalRequest | undefined;
+
+      if (requirements.length > 0) {
+        approval = this.approvals.open(analysis.id, approvalContext, requirements);
+        analysis.requireApproval(approval, this.approvals);
+
+        // Release the reserved spend, and free the slot and the trial like a cancelled run, if it is never approved
+        this.approvals.waitFor(approval.id).catch(() => {
+          releaseSpend();
+          if (reservation) this.freeReservation(reservation.id, analysis.id, 'Approval rejected');
+          if (trial) this.health.endTrial(selectedLab!.lab.id);
+        });
+      }
 
-    return analysis;
+      // Runs that fail or are cancelled before anything is paid give it all back
+      analysis.on('analysis.failed', (event) => {
+        if (!event.data.paid) releaseSpend();
+      });
+      analysis.on('analysis.cancelled', (event) => {
+        if (!event.data.paid) releaseSpend();
+      });
+
+      // Credit refunds and unused escrow back to the budget
+      analysis.on('payment.refunded', (event) => {
+        this.creditSpend(toBudget(event.data.amount), spend, identity, analysis.id);
+      });
+      analysis.on('escrow.released', (event) => {
+        this.creditSpend(toBudget(event.data.released), spend, identity, analysis.id);
+      });
+
+      // Feed submission outcomes into the routed lab's circuit breaker
+      if (selectedLab) {
+        const labId = selectedLab.lab.id;
+        analysis.on('analysis.started', () => this.health.recordSuccess(labId));
+        analysis.on('analysis.failed', (event) => {
+          // Only a failed submission says anything about the lab
+          if (event.data.stage === 'submission') {
+            this.health.recordFailure(labId, event.data.error);
+          } else if (trial) {
+            this.health.endTrial(labId);
+          }
+        });
+        analysis.on('analysis.cancelled', () => {
+          if (trial) this.health.endTrial(labId);
+        });
+      }
+
+      // Forward analysis events
+      analysis.on('analysis.started', (event) => this.emit('analysis.started', event));
+      analysis.on('analysis.failed', (event) => this.emit('analysis.failed', event));
+      analysis.on('analysis.cancelled', (event) => this.emit('analysis.cancelled', event));
+      analysis.on('payment.refunded', (event) => this.emit('payment.refunded', event));
+      analysis.on('escrow.opened', (event) => this.emit('escrow.opened', event));
+      analysis.on('escrow.charged', (event) => this.emit('escrow.charged', event));
+      analysis.on('escrow.released', (event) => this.emit('escrow.released', event));
+
+      // Log access
+      await this.identity.logAccess(analysisRequest.instrument, analysis.id, identity);
+
+      this.emitEvent('analysis.requested', { 
+        analysisId: analysis.id,
+        instrument: analysisRequest.instrument,
+        invoice,
+        selectedLab: selectedLab?.lab,
+        approval,
+        reservation
+      });
+
+      return analysis;
+    } catch (error) {
+      // The request never reached the lab, so free the trial for the next one
+      if (trial) this.health.endTrial(selectedLab!.lab.id);
+      throw error;
+    }
   }
 
   private generateInvoice(request: AnalysisRequest, lab?: LabInfo): UnifiedInvoice {
@@ -182,11 +498,18 @@ export class Lab402 extends EventEmitter {
       storageCost,
       totalCost,
       paymentAddress: this.config.wallet,
-      expiresAt: Date.now() + 3600000 // 1 hour
+      expiresAt: Date.now() + 3600000, // 1 hour
+      currency: pricing.currency || 'USD'
     };
   }
 
   private calculateInstrumentCost(instrument: InstrumentType, lab?: LabInfo): number {
+    // A lab's published offering sets the price for that instrument
+    const offering = lab && this.registry.getOffering(lab, instrument);
+    if (offering) {
+      return offering.pricePerRun;
+    }
+
     const baseCosts: Record<InstrumentType, number> = {
       'dna-sequencer': 50.00,
       'spectroscopy': 10.00,
@@ -252,28 +575,10 @@ export class Lab402 extends EventEmitter {
   }
 
   async getAvailableInstruments(): Promise<InstrumentAvailability[]> {
-    // Mock implementation
-    return [
-      {
-        instrument: 'dna-sequencer',
-        available: true,
-        location: 'MIT BioLab',
-        capabilities: ['Illumina NovaSeq', 'High-throughput', '150 GB/run']
-      },
-      {
-        instrument: 'spectroscopy',
-        available: true,
-        location: 'Stanford ChemLab',
-        capabilities: ['UV-Vis', 'IR', 'Raman']
-      },
-      {
-        instrument: 'microscopy',
-        available: false,
-        nextAvailable: Date.now() + 3600000,
-        location: 'UCSF Imaging',
-        capabilities: ['Confocal', 'Electron', 'Super-resolution']
-      }
-    ];
+    return sendRequest<InstrumentAvailability[]>(this.config.transport, {
+      method: 'GET',
+      path: '/instruments'
+    });
   }
 
   async getPricing(): Promise<PricingTier[]> {
@@ -288,12 +593,184 @@ export class Lab402 extends EventEmitter {
     return this.registry.getAllLabs();
   }
 
+  /**
+   * Reload the lab catalog from the configured source (the transport by default)
+   */
+  async refreshLabs(): Promise<LabInfo[]> {
+    return this.registry.refresh();
+  }
+
+  /**
+   * Add an on-prem facility so it is routed to alongside external labs
+   *
+   * @example
+   * ```ts
+   * lab.registerLab({
+   *   id: 'core-facility',
+   *   name: 'Genomics Core',
+   *   location: 'Cambridge, MA, USA',
+   *   country: 'US',
+   *   instruments: ['dna-sequencer'],
+   *   pricing: { tier: 'standard', instrumentRate: 0.8, computeRate: 0.004, aiRate: 10, storageRate: 0.01 },
+   *   quality: 4.5,
+   *   availability: 100,
+   *   uptime: 99.5,
+   *   currentLoad: 20,
+   *   coordinates: { lat: 42.36, lon: -71.09 },
+   *   certifications: ['ISO-9001']
+   * });
+   * ```
+   */
+  registerLab(lab: LabInfo): LabInfo {
+    return this.registry.registerLab(lab);
+  }
+
+  updateLab(labId: string, changes: Partial<Omit<LabInfo, 'id'>>): LabInfo {
+    return this.registry.updateLab(labId, changes);
+  }
+
+  deregisterLab(labId: string): LabInfo {
+    return this.registry.deregisterLab(labId);
+  }
+
+  getHealthMonitor(): HealthMonitor {
+    return this.health;
+  }
+
+  /**
+   * Poll every lab's health endpoint now
+   */
+  async checkLabHealth(): Promise<LabHealth[]> {
+    return this.health.check();
+  }
+
+  getQueue(): JobQueue {
+    return this.queue;
+  }
+
+  /**
+   * Runs holding a lab instrument, then those waiting for it in start order
+   */
+  getQueuedJobs(labId: string, instrument: InstrumentType): QueuedJob[] {
+    return this.queue.getJobs(labId, instrument);
+  }
+
+  getScheduler(): InstrumentScheduler {
+    return this.scheduler;
+  }
+
+  /**
+   * Tentatively claim instrument time; confirm it with confirmReservation()
+   * before the hold lapses
+   */
+  async holdSlot(request: SlotRequest, ttl?: number): Promise<Reservation> {
+    return this.scheduler.hold(await this.toReservationRequest(request), ttl);
+  }
+
+  /**
+   * Book instrument time outright, then pass the reservation ID on
+   * AnalysisRequest.reservation to run in it
+   *
+   * @example
+   * ```ts
+   * const [slot] = lab.findAvailableSlots('mit-biolab', 'mass-spec', 7200000, Date.parse('2025-03-03T09:00:00Z'));
+   * const reservation = await lab.reserveSlot({
+   *   labId: 'mit-biolab',
+   *   instrument: 'mass-spec',
+   *   start: slot.start,
+   *   duration: 7200000
+   * });
+   *
+   * const analysis = await lab.request({ instrument: 'mass-spec', sample: 'protein-001', reservation: reservation.id });
+   * await analysis.start(); // Waits for the slot
+   * ```
+   */
+  async reserveSlot(request: SlotRequest): Promise<Reservation> {
+    return this.scheduler.reserve(await this.toReservationRequest(request));
+  }
+
+  confirmReservation(reservationId: string): Reservation {
+    return this.scheduler.confirm(reservationId);
+  }
+
+  releaseReservation(reservationId: string, reason?: string): Reservation {
+    return this.scheduler.release(reservationId, reason);
+  }
+
+  findAvailableSlots(labId: string, instrument: InstrumentType, duration: number, from?: number, to?: number): TimeSlot[] {
+    return this.scheduler.findAvailableSlots(labId, instrument, duration, from, to);
+  }
+
+  private async toReservationRequest(request: SlotRequest): Promise<ReservationRequest> {
+    await this.ready;
+
+    const lab = this.registry.getLabById(request.labId);
+
+    if (!lab) {
+      throw new ReservationError(undefined, `Lab ${request.labId} not found`, 'LAB_NOT_FOUND');
+    }
+
+    if (!lab.instruments.includes(request.instrument)) {
+      throw new ReservationError(undefined, `${lab.name} does not offer ${request.instrument}`);
+    }
+
+    return { ...request, holder: request.holder || this.researcherIdentity!.id };
+  }
+
+  /**
+   * Move where distances are measured from, e.g. `lab.setLocation('Oxford, UK')`
+   */
+  setLocation(location: GeoLocation | string): GeoLocation {
+    const coordinates = resolveLocation(location);
+    this.router.setUserLocation(coordinates);
+    return coordinates;
+  }
+
+  getLocation(): GeoLocation | undefined {
+    return this.router.getUserLocation();
+  }
+
+  /**
+   * Route by a custom criterion, on its own or weighted with the built-in ones
+   *
+   * @example
+   * ```ts
+   * lab.registerScorer('green-energy', (info) => info.certifications.includes('ISO-14001') ? 1 : 0);
+   *
+   * await lab.request({
+   *   instrument: 'dna-sequencer',
+   *   sample: 'sample-001',
+   *   routing: { strategy: 'weighted', weights: { cost: 2, quality: 1, 'green-energy': 1 } }
+   * });
+   * ```
+   */
+  registerScorer(name: string, scorer: LabScorer): void {
+    this.router.registerScorer(name, scorer);
+  }
+
+  unregisterScorer(name: string): boolean {
+    return this.router.unregisterScorer(name);
+  }
+
+  /**
+   * Every candidate lab ranked with its per-criterion scores, plus the labs
+   * the routing filters eliminated and why. Unlike request(), this doesn't
+   * throw when no lab matches.
+   */
+  explainRouting(instrument: InstrumentType, routing?: RoutingOptions): RoutingExplanation {
+    return this.router.explain(instrument, routing);
+  }
+
   getLabsByInstrument(instrument: InstrumentType): LabInfo[] {
     return this.registry.getLabsByInstrument(instrument);
   }
 
-  getLabPricing(instrument: InstrumentType): LabPricing[] {
-    return this.router.getLabPricing(instrument);
+  /**
+   * Prices per lab; with a location set, shipping and landed cost are included,
+   * cold-chain surcharges following `storageConditions` (e.g. "-80°C")
+   */
+  getLabPricing(instrument: InstrumentType, storageConditions?: string): LabPricing[] {
+    return this.router.getLabPricing(instrument, storageConditions);
   }
 
   getActiveAnalyses(): Analysis[] {
@@ -301,12 +778,22 @@ export class Lab402 extends EventEmitter {
   }
 
   async createBatch(request: BatchRequest): Promise<BatchAnalysis> {
+    await this.ready;
+
     if (!this.researcherIdentity) {
       throw new Error('Researcher identity not verified');
     }
 
-    // Check access permissions
-    await this.identity.checkAccess(request.instrument, this.researcherIdentity);
+    const identity = request.delegation
+      ? this.identity.verifyDelegation(request.delegation)
+      : this.researcherIdentity;
+
+    // Check access permissions; batches have no approval hold
+    const decision = await this.identity.checkAccess(request.instrument, identity, { sampleType: request.sampleType });
+
+    if (decision.effect === 'require-approval') {
+      throw new ApprovalRequiredError(`Batch on ${request.instrument}`, [decision.explanation]);
+    }
 
     console.log(`\n🧪 Creating batch analysis...`);
     console.log(`Instrument: ${request.instrument}`);
@@ -314,9 +801,43 @@ export class Lab402 extends EventEmitter {
 
     // Get base price for instrument
     const basePrice = this.calculateInstrumentCost(request.instrument);
+    const pricing = this.batchManager.calculateBatchPricing(
+      request.instrument,
+      request.samples.length,
+      basePrice
+    );
 
     // Create batch
-    const batch = this.batchManager.createBatch(request, basePrice);
+    const batch = this.batchManager.createBatch(
+      { ...request, currency: request.currency || this.config.currency },
+      basePrice,
+      pricing,
+      this.getAttribution(identity)
+    );
+
+    // Enforce delegation and spending limits before the batch invoice is issued at start()
+    const spend = this.getSpendContext(request.project, identity);
+    try {
+      this.authorizeSpend(pricing.discountedCost, spend, identity, batch.id);
+    } catch (error) {
+      this.batchManager.deleteBatch(batch.id);
+      throw error;
+    }
+
+    // An unpaid batch invoice never becomes spend; a retry has to fit the budget again
+    let spendHeld = true;
+    batch.holdSpend({
+      claim: () => {
+        if (spendHeld) return;
+        this.authorizeSpend(pricing.discountedCost, spend, identity, batch.id);
+        spendHeld = true;
+      },
+      release: () => {
+        if (!spendHeld) return;
+        spendHeld = false;
+        this.creditSpend(pricing.discountedCost, spend, identity, batch.id);
+      }
+    });
 
     // Forward batch events
     batch.on('batch.started', (event) => this.emit('batch.started', event));
@@ -324,6 +845,10 @@ export class Lab402 extends EventEmitter {
     batch.on('batch.sample.completed', (event) => this.emit('batch.sample.completed', event));
     batch.on('batch.sample.failed', (event) => this.emit('batch.sample.failed', event));
     batch.on('batch.completed', (event) => this.emit('batch.completed', event));
+    batch.on('batch.failed', (event) => this.emit('batch.failed', event));
+    batch.on('payment.pending', (event) => this.emit('payment.pending', event));
+    batch.on('payment.settled', (event) => this.emit('payment.settled', event));
+    batch.on('payment.failed', (event) => this.emit('payment.failed', event));
 
     this.emitEvent('batch.created', {
       batchId: batch.id,
@@ -334,6 +859,166 @@ export class Lab402 extends EventEmitter {
     return batch;
   }
 
+  getLedger(): PaymentLedger {
+    return this.payment.getLedger();
+  }
+
+  getAuditLog(): AuditLog {
+    return this.audit;
+  }
+
+  getBudget(): BudgetManager {
+    return this.config.budget;
+  }
+
+  /**
+   * Remaining hard-limit budget for this researcher (and project), or undefined if unlimited
+   */
+  async getRemainingBudget(project?: string): Promise<number | undefined> {
+    await this.ready;
+    return this.config.budget.getRemaining(this.getSpendContext(project));
+  }
+
+  /**
+   * Explain how the access policy treats an instrument for this researcher, without enforcing it
+   */
+  async evaluateAccess(
+    instrument: InstrumentType,
+    context: Omit<AccessContext, 'identity' | 'instrument'> = {}
+  ): Promise<AccessDecision> {
+    await this.ready;
+    return this.identity.getPolicy().evaluate({ ...context, identity: this.researcherIdentity!, instrument });
+  }
+
+  /**
+   * Prove possession of the researcher key to a verifier that issued `challenge`
+   */
+  async generateProof(challenge: ProofChallenge | string): Promise<IdentityProof> {
+    await this.ready;
+    return this.identity.generateProof(challenge);
+  }
+
+  getAccessPolicy(): PolicyEngine {
+    return this.identity.getPolicy();
+  }
+
+  /**
+   * Public key other researchers delegate to
+   */
+  getPublicKey(): string {
+    return this.identity.getPublicKey();
+  }
+
+  /**
+   * Let another key run analyses under this researcher's credential, limited to
+   * `scope`. Pass a delegation we received as `parent` to re-delegate part of it.
+   *
+   * @example
+   * ```ts
+   * const token = await pi.delegate(student.getPublicKey(), {
+   *   instruments: ['spectroscopy'],
+   *   maxSpend: 200
+   * });
+   * await student.request({ instrument: 'spectroscopy', delegation: token });
+   * ```
+   */
+  async delegate(
+    subject: string,
+    scope: DelegationScope = {},
+    ttl?: number,
+    parent?: Delegation
+  ): Promise<Delegation> {
+    await this.ready;
+    return this.identity.delegate(subject, scope, ttl, parent || this.config.delegation);
+  }
+
+  getApproval(approvalId: string): ApprovalRequest | undefined {
+    return this.approvals.getApproval(approvalId);
+  }
+
+  /**
+   * Approvals this researcher can still sign off
+   */
+  async getPendingApprovals(): Promise<ApprovalRequest[]> {
+    await this.ready;
+    return this.approvals.getPending(this.researcherIdentity!.id)
+      .filter(approval => approval.delegate !== this.identity.getPublicKey());
+  }
+
+  /**
+   * Sign off an approval as this researcher
+   */
+  async approve(approvalId: string, comment?: string): Promise<ApprovalRequest> {
+    return this.approvals.approve(approvalId, await this.signApproval(approvalId), comment);
+  }
+
+  /**
+   * Reject an approval as this researcher; the analysis will not run
+   */
+  async reject(approvalId: string, reason?: string): Promise<ApprovalRequest> {
+    return this.approvals.reject(approvalId, await this.signApproval(approvalId), reason);
+  }
+
+  /**
+   * Answer the manager's challenge with our own credential and key. Delegates
+   * can't sign off: the credential they act under names the delegator's key.
+   */
+  private async signApproval(approvalId: string): Promise<ApproverSignature> {
+    await this.ready;
+
+    const credential = this.identity.getCredential();
+    if (!credential) {
+      throw new ApprovalError(approvalId, 'Signing off needs our own verified credential', 'APPROVER_UNVERIFIED');
+    }
+
+    const proof = await this.identity.generateProof(this.approvals.issueChallenge(approvalId));
+
+    return { credential, proof };
+  }
+
+  private authorizeSpend(amount: number, spend: SpendContext, identity: ResearcherIdentity, reference: string): void {
+    this.identity.authorizeDelegatedSpend(identity, amount);
+
+    try {
+      this.config.budget.authorize(amount, spend, reference);
+    } catch (error) {
+      this.identity.recordDelegatedSpend(identity, -amount);
+      throw error;
+    }
+  }
+
+  /**
+   * Give up a reservation a run will no longer use, so anyone can book the slot
+   */
+  private freeReservation(reservationId: string, analysisId: string, reason: string): void {
+    this.scheduler.detach(reservationId, analysisId);
+
+    const current = this.scheduler.getReservation(reservationId);
+    if (current && current.status === 'reserved' && current.end > Date.now()) {
+      this.scheduler.release(reservationId, reason);
+    }
+  }
+
+  private creditSpend(amount: number, spend: SpendContext, identity: ResearcherIdentity, reference: string): void {
+    this.config.budget.record(-amount, spend, reference);
+    this.identity.recordDelegatedSpend(identity, -amount);
+  }
+
+  private getSpendContext(project?: string, identity: ResearcherIdentity = this.researcherIdentity!): SpendContext {
+    return {
+      researcher: identity.id,
+      project
+    };
+  }
+
+  private getAttribution(identity: ResearcherIdentity): InvoiceAttribution {
+    return {
+      researcher: identity.id,
+      delegate: identity.delegation?.delegate,
+      delegationId: identity.delegation?.tokenId
+    };
+  }
+
   getBatchManager(): BatchManager {
     return this.batchManager;
   }
@@ -357,6 +1042,19 @@ export class Lab402 extends EventEmitter {
     return sample;
   }
 
+  /**
+   * Storage conditions of the sample being shipped: looked up in the sample
+   * tracker for a sample ID or barcode, or read from the sample's own metadata
+   */
+  private getStorageConditions(sample: any): string | undefined {
+    if (typeof sample === 'string') {
+      const tracked = this.sampleTracker.getSample(sample) || this.sampleTracker.getSampleByBarcode(sample);
+      return tracked?.metadata.storageConditions;
+    }
+
+    return sample?.metadata?.storageConditions;
+  }
+
   getSample(sampleId: string): TrackedSample | undefined {
     return this.sampleTracker.getSample(sampleId);
   }
@@ -649,12 +1347,14 @@ export class Lab402 extends EventEmitter {
   async close(): Promise<void> {
     // Cancel all active analyses
     for (const analysis of this.activeAnalyses.values()) {
-      if (analysis.getStatus() === 'running' || analysis.getStatus() === 'processing') {
+      if (['scheduled', 'queued', 'running', 'preempted', 'processing'].includes(analysis.getStatus())) {
         await analysis.cancel();
       }
     }
 
     this.activeAnalyses.clear();
+    this.registry.stopAutoRefresh();
+    this.health.stop();
     this.removeAllListeners();
   }
 
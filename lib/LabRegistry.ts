@@ -1,121 +1,375 @@
-import type { LabInfo, InstrumentType, PricingTier } from './types';
+import { EventEmitter } from 'events';
+import type { LabInfo, InstrumentType, InstrumentOffering, PricingTier, Lab402Event } from './types';
+import type { Transport } from './transport-types';
+import type {
+  LabSource,
+  LabRegistryOptions,
+  LabValidationIssue,
+  InvalidLab,
+  LabChange,
+  RegistryDiff
+} from './registry-types';
+import { TransportLabSource } from './TransportLabSource';
+import type { HealthMonitor } from './HealthMonitor';
+import { LabValidationError, LabRegistrationError } from './errors';
+import { cloneLab } from './mock-data';
 
-export class LabRegistry {
+const INSTRUMENT_TYPES: InstrumentType[] = [
+  'dna-sequencer',
+  'spectroscopy',
+  'microscopy',
+  'mass-spec',
+  'nmr',
+  'x-ray-diffraction'
+];
+
+/**
+ * The string id of an untrusted catalog entry, if it has one
+ */
+function labIdOf(value: unknown): string | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const id = (value as Record<string, unknown>).id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+/**
+ * Check an untrusted value against the LabInfo schema; an empty list means it is valid
+ */
+export function validateLabInfo(value: unknown): LabValidationIssue[] {
+  const issues: LabValidationIssue[] = [];
+  const lab = value as Record<string, any>;
+
+  if (!lab || typeof lab !== 'object' || Array.isArray(lab)) {
+    return [{ field: 'lab', message: 'must be an object' }];
+  }
+
+  const text = (field: string, value: any) => {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      issues.push({ field, message: 'must be a non-empty string' });
+    }
+  };
+  const range = (field: string, value: any, min: number, max: number) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      issues.push({
+        field,
+        message: max === Infinity ? `must be a number of at least ${min}` : `must be a number from ${min} to ${max}`
+      });
+    }
+  };
+
+  text('id', lab.id);
+  text('name', lab.name);
+  text('location', lab.location);
+
+  if (typeof lab.country !== 'string' || !/^[A-Z]{2}$/.test(lab.country)) {
+    issues.push({ field: 'country', message: 'must be an ISO 3166-1 alpha-2 code, e.g. "US"' });
+  }
+
+  if (!Array.isArray(lab.instruments) || lab.instruments.length === 0) {
+    issues.push({ field: 'instruments', message: 'must list at least one instrument' });
+  } else {
+    lab.instruments
+      .filter((instrument: any) => !INSTRUMENT_TYPES.includes(instrument))
+      .forEach((instrument: any) => {
+        issues.push({ field: 'instruments', message: `has unknown instrument ${JSON.stringify(instrument)}` });
+      });
+
+    if (new Set(lab.instruments).size !== lab.instruments.length) {
+      issues.push({ field: 'instruments', message: 'must not repeat an instrument' });
+    }
+  }
+
+  const pricing = lab.pricing as Partial<PricingTier> | undefined;
+  if (!pricing || typeof pricing !== 'object') {
+    issues.push({ field: 'pricing', message: 'must be an object' });
+  } else {
+    text('pricing.tier', pricing.tier);
+    (['instrumentRate', 'computeRate', 'aiRate', 'storageRate'] as const).forEach(rate => {
+      range(`pricing.${rate}`, pricing[rate], 0, Infinity);
+    });
+    if (pricing.currency !== undefined) {
+      text('pricing.currency', pricing.currency);
+    }
+  }
+
+  range('quality', lab.quality, 1, 5);
+  range('availability', lab.availability, 0, 100);
+  range('uptime', lab.uptime, 0, 100);
+  range('currentLoad', lab.currentLoad, 0, 100);
+
+  if (lab.coordinates !== undefined) {
+    if (!lab.coordinates || typeof lab.coordinates !== 'object') {
+      issues.push({ field: 'coordinates', message: 'must be an object with lat and lon' });
+    } else {
+      range('coordinates.lat', lab.coordinates.lat, -90, 90);
+      range('coordinates.lon', lab.coordinates.lon, -180, 180);
+    }
+  }
+
+  if (lab.offerings !== undefined) {
+    if (!Array.isArray(lab.offerings)) {
+      issues.push({ field: 'offerings', message: 'must be an array' });
+    } else {
+      const offered = new Set<string>();
+
+      lab.offerings.forEach((offering: Partial<InstrumentOffering>, index: number) => {
+        const field = `offerings.${index}`;
+
+        if (!offering || typeof offering !== 'object') {
+          issues.push({ field, message: 'must be an object' });
+          return;
+        }
+
+        if (!Array.isArray(lab.instruments) || !lab.instruments.includes(offering.instrument)) {
+          issues.push({ field: `${field}.instrument`, message: 'must be one of the lab\'s instruments' });
+        } else if (offered.has(offering.instrument!)) {
+          issues.push({ field: `${field}.instrument`, message: 'is offered more than once' });
+        }
+        offered.add(offering.instrument!);
+
+        text(`${field}.model`, offering.model);
+        text(`${field}.resolution`, offering.resolution);
+        text(`${field}.throughput`, offering.throughput);
+        range(`${field}.maxSampleSize`, offering.maxSampleSize, 0, Infinity);
+        range(`${field}.pricePerRun`, offering.pricePerRun, 0, Infinity);
+
+        if (!Array.isArray(offering.dataFormat) || offering.dataFormat.some(f => typeof f !== 'string')) {
+          issues.push({ field: `${field}.dataFormat`, message: 'must be an array of strings' });
+        }
+      });
+    }
+  }
+
+  if (!Array.isArray(lab.certifications) || lab.certifications.some((c: any) => typeof c !== 'string' || c.trim().length === 0)) {
+    issues.push({ field: 'certifications', message: 'must be an array of non-empty strings' });
+  } else if (new Set(lab.certifications).size !== lab.certifications.length) {
+    issues.push({ field: 'certifications', message: 'must not repeat a certification' });
+  }
+
+  return issues;
+}
+
+export class LabRegistry extends EventEmitter {
   private labs: Map<string, LabInfo>;
+  private registered: Set<string>;
+  private source?: LabSource;
+  private health?: HealthMonitor;
+  private refreshTimer?: ReturnType<typeof setInterval>;
 
-  constructor() {
+  constructor(transport?: Transport, options: LabRegistryOptions = {}) {
+    super();
     this.labs = new Map();
-    this.initializeLabs();
-  }
-
-  private initializeLabs(): void {
-    // Mock lab data - in production would be fetched from API
-    const mockLabs: LabInfo[] = [
-      {
-        id: 'mit-biolab',
-        name: 'MIT BioLab',
-        location: 'Boston, MA, USA',
-        country: 'US',
-        instruments: ['dna-sequencer', 'mass-spec', 'nmr'],
-        pricing: {
-          tier: 'performance',
-          instrumentRate: 2.0,
-          computeRate: 0.012,
-          aiRate: 20.00,
-          storageRate: 0.02
-        },
-        quality: 5,
-        availability: 95,
-        uptime: 99.9,
-        currentLoad: 45,
-        coordinates: { lat: 42.3601, lon: -71.0942 },
-        certifications: ['ISO-9001', 'CLIA', 'CAP']
-      },
-      {
-        id: 'stanford-lab',
-        name: 'Stanford BioLab',
-        location: 'Stanford, CA, USA',
-        country: 'US',
-        instruments: ['dna-sequencer', 'spectroscopy', 'microscopy'],
-        pricing: {
-          tier: 'standard',
-          instrumentRate: 1.5,
-          computeRate: 0.008,
-          aiRate: 15.00,
-          storageRate: 0.015
-        },
-        quality: 4.5,
-        availability: 98,
-        uptime: 99.5,
-        currentLoad: 30,
-        coordinates: { lat: 37.4275, lon: -122.1697 },
-        certifications: ['ISO-9001', 'CLIA']
-      },
-      {
-        id: 'oxford-lab',
-        name: 'Oxford Research Lab',
-        location: 'Oxford, UK',
-        country: 'UK',
-        instruments: ['dna-sequencer', 'x-ray-diffraction', 'nmr'],
-        pricing: {
-          tier: 'performance',
-          instrumentRate: 2.2,
-          computeRate: 0.013,
-          aiRate: 22.00,
-          storageRate: 0.025
-        },
-        quality: 5,
-        availability: 90,
-        uptime: 99.8,
-        currentLoad: 65,
-        coordinates: { lat: 51.7520, lon: -1.2577 },
-        certifications: ['ISO-9001', 'UKAS']
-      },
-      {
-        id: 'tokyo-biotech',
-        name: 'Tokyo Biotech Center',
-        location: 'Tokyo, Japan',
-        country: 'JP',
-        instruments: ['spectroscopy', 'microscopy', 'mass-spec'],
-        pricing: {
-          tier: 'standard',
-          instrumentRate: 1.3,
-          computeRate: 0.007,
-          aiRate: 12.00,
-          storageRate: 0.01
-        },
-        quality: 4,
-        availability: 100,
-        uptime: 99.0,
-        currentLoad: 20,
-        coordinates: { lat: 35.6762, lon: 139.6503 },
-        certifications: ['ISO-9001']
-      },
-      {
-        id: 'singapore-biolab',
-        name: 'Singapore BioLab',
-        location: 'Singapore',
-        country: 'SG',
-        instruments: ['dna-sequencer', 'microscopy', 'spectroscopy'],
-        pricing: {
-          tier: 'extreme',
-          instrumentRate: 3.0,
-          computeRate: 0.025,
-          aiRate: 30.00,
-          storageRate: 0.03
-        },
-        quality: 5,
-        availability: 100,
-        uptime: 99.99,
-        currentLoad: 15,
-        coordinates: { lat: 1.3521, lon: 103.8198 },
-        certifications: ['ISO-9001', 'CLIA', 'CAP', 'NABL']
+    this.registered = new Set();
+    this.source = options.source || (transport ? new TransportLabSource(transport) : undefined);
+    this.health = options.health;
+
+    if (options.labs) {
+      this.apply(options.labs, 'initial');
+    }
+
+    if (options.refreshInterval) {
+      this.startAutoRefresh(options.refreshInterval);
+    }
+  }
+
+  /**
+   * Reload the catalog from the source and replace the registry contents.
+   * Invalid entries are skipped and reported; emits registry.updated when
+   * labs were added, removed or changed.
+   */
+  async refresh(): Promise<LabInfo[]> {
+    if (!this.source) {
+      return this.getAllLabs();
+    }
+
+    const catalog = await this.source.load();
+    const entries = Array.isArray(catalog) ? catalog : (catalog as { labs?: unknown })?.labs;
+
+    if (!Array.isArray(entries)) {
+      throw new LabValidationError(undefined, [
+        { field: 'catalog', message: `from ${this.source.name} must be an array of labs or { labs: [...] }` }
+      ]);
+    }
+
+    this.apply(entries, this.source.name);
+
+    return this.getAllLabs();
+  }
+
+  /**
+   * Refresh every `interval` ms in the background. Failed loads keep the
+   * current catalog and emit registry.failed.
+   */
+  startAutoRefresh(interval: number): void {
+    this.stopAutoRefresh();
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(error => {
+        this.emitEvent('registry.failed', { source: this.source?.name, error: error.message });
+      });
+    }, interval);
+
+    // Don't keep the process alive just to poll the catalog
+    this.refreshTimer.unref?.();
+  }
+
+  stopAutoRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
+  getSource(): LabSource | undefined {
+    return this.source;
+  }
+
+  /**
+   * Add our own facility to the registry. It takes part in routing like any
+   * catalog lab and survives catalog refreshes until deregistered.
+   */
+  registerLab(lab: LabInfo): LabInfo {
+    const issues = validateLabInfo(lab);
+    if (issues.length > 0) {
+      throw new LabValidationError(labIdOf(lab), issues);
+    }
+
+    if (this.labs.has(lab.id)) {
+      throw new LabRegistrationError(lab.id, `Lab ${lab.id} already exists`, 'LAB_EXISTS');
+    }
+
+    const next = new Map(this.labs);
+    next.set(lab.id, cloneLab(lab));
+    this.registered.add(lab.id);
+    this.commit(next, 'local');
+
+    return cloneLab(lab);
+  }
+
+  /**
+   * Change fields of a registered lab; the result is validated as a whole
+   */
+  updateLab(labId: string, changes: Partial<Omit<LabInfo, 'id'>>): LabInfo {
+    const current = this.requireRegistered(labId);
+    const updated = { ...cloneLab(current), ...cloneLab(changes as LabInfo), id: labId };
+
+    const issues = validateLabInfo(updated);
+    if (issues.length > 0) {
+      throw new LabValidationError(labId, issues);
+    }
+
+    const next = new Map(this.labs);
+    next.set(labId, updated);
+    this.commit(next, 'local');
+
+    return cloneLab(updated);
+  }
+
+  deregisterLab(labId: string): LabInfo {
+    const lab = this.requireRegistered(labId);
+
+    const next = new Map(this.labs);
+    next.delete(labId);
+    this.registered.delete(labId);
+    this.commit(next, 'local');
+
+    return lab;
+  }
+
+  /**
+   * Whether the lab was added with registerLab() rather than loaded from the catalog
+   */
+  isRegistered(labId: string): boolean {
+    return this.registered.has(labId);
+  }
+
+  private requireRegistered(labId: string): LabInfo {
+    const lab = this.labs.get(labId);
+
+    if (!lab || !this.registered.has(labId)) {
+      throw new LabRegistrationError(
+        labId,
+        lab ? `Lab ${labId} comes from the catalog and cannot be changed locally` : `Lab ${labId} not found`,
+        lab ? 'LAB_NOT_REGISTERED' : 'LAB_NOT_FOUND'
+      );
+    }
+
+    return lab;
+  }
+
+  private apply(entries: unknown[], source: string): RegistryDiff {
+    const next = new Map<string, LabInfo>();
+    const invalid: InvalidLab[] = [];
+
+    entries.forEach((entry, index) => {
+      const labId = labIdOf(entry);
+      const issues = validateLabInfo(entry);
+
+      if (labId && next.has(labId)) {
+        issues.push({ field: 'id', message: `duplicates an earlier lab in the catalog` });
+      }
+
+      if (issues.length > 0) {
+        invalid.push({ labId, index, issues });
+        return;
+      }
+
+      next.set(labId!, cloneLab(entry as LabInfo));
+    });
+
+    // Registered labs are ours; the catalog neither removes nor overrides them
+    this.registered.forEach(labId => {
+      const index = entries.findIndex(entry => labIdOf(entry) === labId);
+      if (index >= 0) {
+        invalid.push({ labId, index, issues: [{ field: 'id', message: 'is taken by a registered lab' }] });
+      }
+      next.set(labId, this.labs.get(labId)!);
+    });
+
+    invalid.forEach(entry => {
+      console.log(`Skipping invalid lab ${entry.labId ?? `#${entry.index}`} from ${source}: ${entry.issues.map(i => `${i.field} ${i.message}`).join('; ')}`);
+    });
+
+    return this.commit(next, source, invalid);
+  }
+
+  private commit(next: Map<string, LabInfo>, source: string, invalid: InvalidLab[] = []): RegistryDiff {
+    const diff = this.diff(next, source, invalid);
+    this.labs = next;
+
+    if (diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0) {
+      this.emitEvent('registry.updated', diff);
+    }
+
+    return diff;
+  }
+
+  private diff(next: Map<string, LabInfo>, source: string, invalid: InvalidLab[]): RegistryDiff {
+    const added: LabInfo[] = [];
+    const changed: LabChange[] = [];
+
+    next.forEach((after, id) => {
+      const before = this.labs.get(id);
+
+      if (!before) {
+        added.push(after);
+        return;
       }
-    ];
 
-    mockLabs.forEach(lab => {
-      this.labs.set(lab.id, lab);
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof LabInfo>;
+      const fields = Array.from(keys).filter(key =>
+        JSON.stringify(before[key]) !== JSON.stringify(after[key])
+      );
+
+      if (fields.length > 0) {
+        changed.push({ before, after, fields });
+      }
     });
+
+    const removed = Array.from(this.labs.values()).filter(lab => !next.has(lab.id));
+
+    return { source, added, removed, changed, invalid };
   }
 
   getAllLabs(): LabInfo[] {
@@ -132,6 +386,13 @@ export class LabRegistry {
     );
   }
 
+  /**
+   * The lab's published offering for an instrument, if it lists one
+   */
+  getOffering(lab: LabInfo, instrument: InstrumentType): InstrumentOffering | undefined {
+    return lab.offerings?.find(offering => offering.instrument === instrument);
+  }
+
   getLabsByCountry(country: string): LabInfo[] {
     return this.getAllLabs().filter(lab => 
       lab.country === country
@@ -144,10 +405,52 @@ export class LabRegistry {
     );
   }
 
+  /**
+   * Labs that can take work now. With a health monitor, observed uptime and
+   * load replace the catalog figures and labs with open circuits are left out.
+   */
   getAvailableLabs(instrument: InstrumentType): LabInfo[] {
-    return this.getLabsByInstrument(instrument).filter(lab => 
-      lab.availability > 0 && lab.currentLoad < 90
-    );
+    return this.getLabsByInstrument(instrument)
+      .map(lab => this.withHealth(lab))
+      .filter(lab => this.isAvailable(lab));
+  }
+
+  isAvailable(lab: LabInfo): boolean {
+    return this.getUnavailableReason(lab) === undefined;
+  }
+
+  /**
+   * Why routing skips a lab right now; undefined when it is available
+   */
+  getUnavailableReason(lab: LabInfo): string | undefined {
+    if (this.health && !this.health.isAvailable(lab.id)) {
+      return 'Circuit breaker open after repeated failures';
+    }
+
+    const { availability, currentLoad } = this.withHealth(lab);
+
+    if (availability <= 0) return 'No availability';
+    if (currentLoad >= 90) return `Load too high (${Math.round(currentLoad)}%)`;
+
+    return undefined;
+  }
+
+  getHealthMonitor(): HealthMonitor | undefined {
+    return this.health;
+  }
+
+  private withHealth(lab: LabInfo): LabInfo {
+    const health = this.health?.getHealth(lab.id);
+
+    if (!health || health.samples === 0) {
+      return lab;
+    }
+
+    return {
+      ...lab,
+      uptime: health.uptime ?? lab.uptime,
+      currentLoad: health.load ?? lab.currentLoad
+    };
   }
 
   updateLabLoad(labId: string, load: number): void {
@@ -173,4 +476,14 @@ export class LabRegistry {
     const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
     return R * c;
   }
+
+  private emitEvent(type: Lab402Event['type'], data: any): void {
+    const event: Lab402Event = {
+      type,
+      timestamp: Date.now(),
+      data
+    };
+
+    this.emit(type, event);
+  }
 }
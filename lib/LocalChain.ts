@@ -0,0 +1,100 @@
+// LocalChain - in-memory ledger standing in for Solana in tests and local development
+
+import type { SignedTransfer, TransferResult } from './payment-types';
+import { decodeBase58, verifyBytes } from './crypto';
+import { InsufficientFundsError, InvalidSignatureError } from './errors';
+
+/**
+ * Canonical bytes a wallet signs to authorize a transfer
+ */
+export function encodeTransferMessage(transfer: Omit<SignedTransfer, 'signature'>): Uint8Array {
+  return Buffer.from(JSON.stringify({
+    from: transfer.from,
+    to: transfer.to,
+    amount: transfer.amount,
+    memo: transfer.memo || '',
+    nonce: transfer.nonce
+  }));
+}
+
+export class LocalChain {
+  private balances: Map<string, number>;
+  private transactions: Map<string, TransferResult>;
+
+  constructor(balances: Record<string, number> = {}) {
+    this.balances = new Map(Object.entries(balances));
+    this.transactions = new Map();
+  }
+
+  /**
+   * Credit an address out of thin air (test funding)
+   */
+  airdrop(address: string, amount: number): void {
+    this.balances.set(address, this.getBalance(address) + amount);
+  }
+
+  getBalance(address: string): number {
+    return this.balances.get(address) || 0;
+  }
+
+  /**
+   * Verify the sender's signature, then move funds. The signature doubles as
+   * the transaction hash, so replaying a signed transfer is rejected.
+   */
+  submitTransfer(transfer: SignedTransfer): TransferResult {
+    if (!(transfer.amount > 0)) {
+      throw new Error('Transfer amount must be positive');
+    }
+
+    if (this.transactions.has(transfer.signature)) {
+      throw new InvalidSignatureError(`Transfer ${transfer.signature} already submitted`);
+    }
+
+    let valid = false;
+    try {
+      valid = verifyBytes(
+        decodeBase58(transfer.from),
+        encodeTransferMessage(transfer),
+        decodeBase58(transfer.signature)
+      );
+    } catch {
+      valid = false;
+    }
+
+    if (!valid) {
+      throw new InvalidSignatureError(`Invalid signature for transfer from ${transfer.from}`);
+    }
+
+    const balance = this.getBalance(transfer.from);
+    if (balance < transfer.amount) {
+      throw new InsufficientFundsError(transfer.from, balance, transfer.amount);
+    }
+
+    this.balances.set(transfer.from, balance - transfer.amount);
+    this.balances.set(transfer.to, this.getBalance(transfer.to) + transfer.amount);
+
+    const result: TransferResult = {
+      txHash: transfer.signature,
+      from: transfer.from,
+      to: transfer.to,
+      amount: transfer.amount,
+      memo: transfer.memo,
+      timestamp: Date.now()
+    };
+
+    this.transactions.set(result.txHash, result);
+
+    return result;
+  }
+
+  getTransaction(txHash: string): TransferResult | undefined {
+    return this.transactions.get(txHash);
+  }
+
+  getTransactions(address?: string): TransferResult[] {
+    const all = Array.from(this.transactions.values());
+    return address
+      ? all.filter(tx => tx.from === address || tx.to === address)
+      : all;
+  }
+}
@@ -0,0 +1,50 @@
+// LocalKeypairSigner - ed25519 wallet signer backed by a LocalChain
+
+import { createHash, randomBytes } from 'crypto';
+import type { WalletSigner, TransferRequest, TransferResult } from './payment-types';
+import type { Ed25519Keypair } from './crypto';
+import { generateKeypair, signBytes, encodeBase58 } from './crypto';
+import { LocalChain, encodeTransferMessage } from './LocalChain';
+
+export class LocalKeypairSigner implements WalletSigner {
+  public readonly address: string;
+  private keypair: Ed25519Keypair;
+  private chain: LocalChain;
+
+  /**
+   * @param chain Ledger transfers are submitted to
+   * @param seed 32-byte seed, or any string to derive one from (deterministic wallets for tests)
+   */
+  constructor(chain: LocalChain, seed?: Uint8Array | string) {
+    const seedBytes = typeof seed === 'string'
+      ? createHash('sha256').update(seed).digest()
+      : seed;
+
+    this.keypair = generateKeypair(seedBytes);
+    this.address = encodeBase58(this.keypair.publicKey);
+    this.chain = chain;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes = typeof message === 'string' ? Buffer.from(message) : message;
+    return encodeBase58(signBytes(this.keypair.secretKey, bytes));
+  }
+
+  async signAndSubmitTransfer(transfer: TransferRequest): Promise<TransferResult> {
+    const unsigned = {
+      ...transfer,
+      from: this.address,
+      nonce: randomBytes(16).toString('hex')
+    };
+
+    const signature = encodeBase58(
+      signBytes(this.keypair.secretKey, encodeTransferMessage(unsigned))
+    );
+
+    return this.chain.submitTransfer({ ...unsigned, signature });
+  }
+
+  async getBalance(): Promise<number> {
+    return this.chain.getBalance(this.address);
+  }
+}
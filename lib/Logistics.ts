@@ -0,0 +1,133 @@
+// Logistics - shipping cost and transit time for getting a sample to a lab
+
+import type { LabInfo } from './types';
+import type { ColdChainTier, ShippingRates, ShippingEstimate } from './logistics-types';
+
+export const DEFAULT_SHIPPING_RATES: ShippingRates = {
+  bands: [
+    { maxDistance: 50, cost: 25, transitTime: 4 }, // Local courier
+    { maxDistance: 500, cost: 45, transitTime: 24 },
+    { maxDistance: 2000, cost: 75, transitTime: 48 },
+    { maxDistance: 8000, cost: 120, transitTime: 72 },
+    { maxDistance: Infinity, cost: 180, transitTime: 96 }
+  ],
+  international: { surcharge: 60, delay: 24 },
+  coldChain: {
+    ambient: 0,
+    refrigerated: 30, // Gel packs
+    frozen: 60,
+    'deep-frozen': 120, // Dry ice
+    cryogenic: 250 // Liquid nitrogen dry shipper
+  }
+};
+
+const NUMBER = String.raw`[-−]?\d+(?:\.\d+)?`;
+
+// "15-25°C", "2–8 °C", "-25 to -15 C": a dash between two numbers separates a range
+const TEMPERATURE_RANGE = new RegExp(
+  String.raw`(${NUMBER})\s*(?:°\s*)?([cf])?\s*(?:to|\.\.|[-–—])\s*(${NUMBER})\s*(?:°\s*([cf])?|([cf])\b)`
+);
+
+const TEMPERATURE = new RegExp(String.raw`(${NUMBER})\s*(?:°\s*([cf])?|([cf])\b)`);
+
+/**
+ * Cold-chain tier for free-form storage conditions such as "-80°C", "2–8 °C",
+ * "dry ice" or "liquid nitrogen"; ambient when unset or unrecognized. A range
+ * is classified by its warmest bound, the least cooling that keeps it in range.
+ */
+export function classifyStorage(conditions?: string): ColdChainTier {
+  if (!conditions) return 'ambient';
+
+  const text = conditions.toLowerCase();
+
+  if (/liquid nitrogen|\bln2\b|cryo/.test(text)) return 'cryogenic';
+  if (/dry ice/.test(text)) return 'deep-frozen';
+
+  const range = text.match(TEMPERATURE_RANGE);
+  if (range) {
+    const unit = range[4] || range[5] || range[2];
+    return classifyTemperature(Math.max(toCelsius(range[1], unit), toCelsius(range[3], unit)));
+  }
+
+  const match = text.match(TEMPERATURE);
+  if (match) {
+    return classifyTemperature(toCelsius(match[1], match[2] || match[3]));
+  }
+
+  if (/frozen|freezer/.test(text)) return 'frozen';
+  if (/refrigerat|fridge|chilled|cold/.test(text)) return 'refrigerated';
+
+  return 'ambient';
+}
+
+function toCelsius(value: string, unit?: string): number {
+  const number = parseFloat(value.replace('−', '-'));
+  return unit === 'f' ? (number - 32) * 5 / 9 : number;
+}
+
+function classifyTemperature(celsius: number): ColdChainTier {
+  if (celsius <= -150) return 'cryogenic';
+  if (celsius <= -60) return 'deep-frozen';
+  if (celsius <= -10) return 'frozen';
+  if (celsius <= 10) return 'refrigerated';
+  return 'ambient';
+}
+
+export class Logistics {
+  private rates: ShippingRates;
+
+  constructor(rates: Partial<ShippingRates> = {}) {
+    const bands = [...(rates.bands || DEFAULT_SHIPPING_RATES.bands)].sort((a, b) => a.maxDistance - b.maxDistance);
+
+    if (bands.length === 0) {
+      throw new Error('Shipping rates need at least one distance band');
+    }
+
+    this.rates = {
+      bands,
+      international: { ...DEFAULT_SHIPPING_RATES.international, ...rates.international },
+      coldChain: { ...DEFAULT_SHIPPING_RATES.coldChain, ...rates.coldChain }
+    };
+  }
+
+  /**
+   * Ship to `lab` from `distance` km away. Unknown distances are priced as the
+   * farthest band, and shipments count as international unless both countries
+   * are known and match.
+   */
+  estimate(lab: LabInfo, distance?: number, fromCountry?: string, storageConditions?: string): ShippingEstimate {
+    const bands = this.rates.bands;
+    const farthest = bands[bands.length - 1];
+    const band = distance === undefined
+      ? farthest
+      : bands.find(b => distance <= b.maxDistance) || farthest;
+
+    const international = fromCountry === undefined || lab.country !== fromCountry;
+    const coldChain = classifyStorage(storageConditions);
+
+    const breakdown = {
+      base: band.cost,
+      international: international ? this.rates.international.surcharge : 0,
+      coldChain: this.rates.coldChain[coldChain]
+    };
+
+    return {
+      labId: lab.id,
+      distance,
+      international,
+      coldChain,
+      cost: breakdown.base + breakdown.international + breakdown.coldChain,
+      currency: 'USD',
+      transitTime: band.transitTime + (international ? this.rates.international.delay : 0),
+      breakdown
+    };
+  }
+
+  getRates(): ShippingRates {
+    return {
+      bands: this.rates.bands.map(band => ({ ...band })),
+      international: { ...this.rates.international },
+      coldChain: { ...this.rates.coldChain }
+    };
+  }
+}
@@ -0,0 +1,19 @@
+// MemoryAuditStore - non-persistent audit log storage
+
+import type { AuditRecord, AuditStore } from './audit-types';
+
+export class MemoryAuditStore implements AuditStore {
+  private records: AuditRecord[];
+
+  constructor(records: AuditRecord[] = []) {
+    this.records = [...records];
+  }
+
+  load(): AuditRecord[] {
+    return [...this.records];
+  }
+
+  append(record: AuditRecord): void {
+    this.records.push(record);
+  }
+}
@@ -0,0 +1,19 @@
+// MemoryDelegatedSpendStore - non-persistent delegated spend storage
+
+import type { DelegatedSpendEntry, DelegatedSpendStore } from './identity-types';
+
+export class MemoryDelegatedSpendStore implements DelegatedSpendStore {
+  private entries: DelegatedSpendEntry[];
+
+  constructor(entries: DelegatedSpendEntry[] = []) {
+    this.entries = [...entries];
+  }
+
+  load(): DelegatedSpendEntry[] {
+    return [...this.entries];
+  }
+
+  append(entry: DelegatedSpendEntry): void {
+    this.entries.push(entry);
+  }
+}
@@ -0,0 +1,19 @@
+// MemoryLedgerStore - non-persistent ledger storage
+
+import type { LedgerEntry, LedgerStore } from './payment-types';
+
+export class MemoryLedgerStore implements LedgerStore {
+  private entries: LedgerEntry[];
+
+  constructor(entries: LedgerEntry[] = []) {
+    this.entries = [...entries];
+  }
+
+  load(): LedgerEntry[] {
+    return [...this.entries];
+  }
+
+  append(entry: LedgerEntry): void {
+    this.entries.push(entry);
+  }
+}
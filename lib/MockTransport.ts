@@ -0,0 +1,382 @@
+// MockTransport - in-memory stand-in for the Lab402 gateway
+
+import type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  HttpMethod,
+  MockRouteHandler,
+  MockTransportOptions
+} from './transport-types';
+import type { UnifiedInvoice } from './types';
+import type { PaymentProof, PaymentReceipt } from './payment-types';
+import { MOCK_LABS, MOCK_IDENTITY, MOCK_ISSUER, mockInstruments } from './mock-data';
+import { verifyBytes, decodeBase58 } from './crypto';
+import { ProofVerifier } from './ProofVerifier';
+import type { LocalChain } from './LocalChain';
+import {
+  PAYMENT_PROOF_HEADER,
+  PAYMENT_RECEIPT_HEADER,
+  encodePaymentHeader,
+  decodePaymentHeader
+} from './Payment402';
+
+interface MockRoute {
+  method: HttpMethod;
+  segments: string[];
+  handler: MockRouteHandler;
+}
+
+interface MockEscrow {
+  invoiceId: string;
+  deposit: number;
+  charged: number;
+  released: boolean;
+}
+
+export class MockTransport implements Transport {
+  private routes: MockRoute[];
+  private requests: TransportRequest[];
+  private settlements: Map<string, number>; // txHash -> amount
+  private escrows: Map<string, MockEscrow>;
+  private challenges: Map<string, { publicKey: string; expiresAt: number }>;
+  private proofs: ProofVerifier;
+  private chain?: LocalChain;
+  private latency: number;
+
+  constructor(options: MockTransportOptions = {}) {
+    this.routes = [];
+    this.requests = [];
+    this.settlements = new Map();
+    this.escrows = new Map();
+    this.challenges = new Map();
+    this.proofs = new ProofVerifier({ audience: 'lab402-mock-gateway' });
+    this.chain = options.chain;
+    this.latency = options.latency ?? 0;
+
+    if (options.defaults !== false) {
+      this.registerDefaultRoutes();
+    }
+  }
+
+  /**
+   * Register a handler. Path segments starting with ':' are captured as params.
+   * Routes registered later take precedence, so defaults can be overridden.
+   */
+  on(method: HttpMethod, path: string, handler: MockRouteHandler): this {
+    this.routes.unshift({
+      method,
+      segments: this.split(path),
+      handler
+    });
+    return this;
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    this.requests.push(request);
+
+    if (this.latency > 0) {
+      await this.delay(this.latency);
+    }
+
+    const segments = this.split(request.path);
+
+    for (const route of this.routes) {
+      if (route.method !== request.method) continue;
+
+      const params = this.match(route.segments, segments);
+      if (params) {
+        return await route.handler(request, params) as TransportResponse<T>;
+      }
+    }
+
+    return MockTransport.json(404, {
+      error: `No mock route for ${request.method} ${request.path}`
+    }) as TransportResponse<T>;
+  }
+
+  /**
+   * Register a route guarded by the 402 handshake: requests without a valid
+   * payment proof receive `402 Payment Required` with the quoted invoice.
+   * Return null from `quote` when the request is already paid for (e.g. by escrow).
+   */
+  onPaid(
+    method: HttpMethod,
+    path: string,
+    quote: (request: TransportRequest) => UnifiedInvoice | null,
+    handler: MockRouteHandler
+  ): this {
+    return this.on(method, path, async (request, params) => {
+      const invoice = quote(request);
+      if (!invoice) {
+        return handler(request, params);
+      }
+
+      const header = this.findHeader(request, PAYMENT_PROOF_HEADER);
+
+      if (!header) {
+        if (invoice.expiresAt <= Date.now()) {
+          return MockTransport.json(402, { invoice, code: 'INVOICE_EXPIRED', error: 'Invoice expired' });
+        }
+        return MockTransport.json(402, { invoice });
+      }
+
+      let proof: PaymentProof;
+      try {
+        proof = decodePaymentHeader<PaymentProof>(header);
+      } catch {
+        return MockTransport.json(402, { invoice, error: 'Malformed payment proof' });
+      }
+
+      if (proof.invoiceId !== invoice.analysisId) {
+        return MockTransport.json(402, { invoice, error: 'Proof is for a different invoice' });
+      }
+
+      const settled = this.findSettlement(proof.txHash, invoice);
+      if (settled === undefined || settled < (invoice.quote?.amount ?? invoice.totalCost)) {
+        return MockTransport.json(402, { invoice, error: 'Transaction not found or underpaid' });
+      }
+
+      const receipt: PaymentReceipt = {
+        invoiceId: invoice.analysisId,
+        txHash: proof.txHash,
+        amount: settled,
+        settledAt: Date.now()
+      };
+
+      const response = await handler(request, params);
+      return {
+        ...response,
+        headers: {
+          ...response.headers,
+          [PAYMENT_RECEIPT_HEADER]: encodePaymentHeader(receipt)
+        }
+      };
+    });
+  }
+
+  /**
+   * Requests received so far, oldest first
+   */
+  getRequests(): TransportRequest[] {
+    return [...this.requests];
+  }
+
+  static json<T>(status: number, data: T, headers: Record<string, string> = {}): TransportResponse<T> {
+    return {
+      status,
+      headers: { 'content-type': 'application/json', ...headers },
+      data
+    };
+  }
+
+  static generateTxHash(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let hash = '';
+    for (let i = 0; i < 64; i++) {
+      hash += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return hash;
+  }
+
+  private registerDefaultRoutes(): void {
+    this.on('POST', '/identity/challenge', (request) => {
+      const challenge = MockTransport.generateTxHash();
+      const expiresAt = Date.now() + 300000;
+      this.challenges.set(challenge, { publicKey: request.body?.publicKey, expiresAt });
+      return MockTransport.json(200, { challenge, expiresAt });
+    });
+
+    // Checks the challenge signature, then echoes the presented credential
+    // or issues one from the mock issuer
+    this.on('POST', '/identity/verify', (request) => {
+      const { publicKey, challenge, signature, credential } = request.body || {};
+      const issued = this.challenges.get(challenge);
+      this.challenges.delete(challenge);
+
+      if (!issued || issued.publicKey !== publicKey || issued.expiresAt <= Date.now()) {
+        return MockTransport.json(401, { error: 'Unknown or expired challenge' });
+      }
+
+      let valid = false;
+      try {
+        valid = verifyBytes(decodeBase58(publicKey), Buffer.from(challenge), decodeBase58(signature));
+      } catch {
+        valid = false;
+      }
+
+      if (!valid) {
+        return MockTransport.json(401, { error: 'Challenge signature invalid' });
+      }
+
+      return MockTransport.json(200, {
+        credential: credential || MOCK_ISSUER.issue(publicKey, MOCK_IDENTITY)
+      });
+    });
+
+    // Lab-side proof check: issue a nonce, then verify the signed answer once
+    this.on('POST', '/proofs/nonce', () => MockTransport.json(200, this.proofs.issueNonce()));
+
+    this.on('POST', '/proofs/verify', (request) => {
+      const result = this.proofs.verifyProof(request.body?.proof);
+      return MockTransport.json(result.valid ? 200 : 401, result);
+    });
+
+    this.on('GET', '/labs', () => MockTransport.json(200, MOCK_LABS));
+
+    // Lab heartbeat: catalog load with some jitter
+    this.on('GET', '/labs/:id/health', (_request, params) => {
+      const lab = MOCK_LABS.find(l => l.id === params.id);
+      if (!lab) {
+        return MockTransport.json(404, { error: `Lab ${params.id} not found` });
+      }
+
+      const load = Math.max(0, Math.min(100, lab.currentLoad + (Math.random() - 0.5) * 20));
+      return MockTransport.json(200, { up: true, load: Math.round(load) });
+    });
+
+    this.on('GET', '/instruments', () => MockTransport.json(200, mockInstruments()));
+
+    // The mock gateway accepts the client's quote as its invoice;
+    // streaming analyses are covered by their escrow instead
+    this.onPaid(
+      'POST',
+      '/analyses',
+      (request) => {
+        const escrow = this.escrows.get(request.body?.escrowId);
+        const invoice = request.body?.invoice;
+        return escrow && !escrow.released && escrow.invoiceId === invoice?.analysisId
+          ? null
+          : invoice;
+      },
+      (request) => MockTransport.json(202, {
+        analysisId: request.body?.analysisId,
+        status: 'accepted',
+        billing: request.body?.billing || 'upfront'
+      })
+    );
+
+    this.on('POST', '/escrows', (request) => {
+      const { invoice, amount, settlementAmount, depositTxHash } = request.body || {};
+      const deposited = invoice ? this.findSettlement(depositTxHash, invoice) : undefined;
+
+      if (deposited === undefined || deposited < (settlementAmount ?? amount)) {
+        return MockTransport.json(400, { error: 'Escrow deposit not found or underpaid' });
+      }
+
+      // Escrow balances are kept in the invoice currency
+      const escrowId = `esc_${MockTransport.generateTxHash().slice(0, 16)}`;
+      this.escrows.set(escrowId, {
+        invoiceId: invoice.analysisId,
+        deposit: amount,
+        charged: 0,
+        released: false
+      });
+      return MockTransport.json(201, { escrowId, amount });
+    });
+
+    this.on('POST', '/escrows/:id/charges', (request, params) => {
+      const escrow = this.escrows.get(params.id);
+      const amount = Number(request.body?.amount) || 0;
+
+      if (!escrow) {
+        return MockTransport.json(404, { error: `Unknown escrow ${params.id}` });
+      }
+      if (escrow.released || escrow.charged + amount > escrow.deposit + 1e-9) {
+        return MockTransport.json(409, { error: 'Charge exceeds escrow balance' });
+      }
+
+      escrow.charged += amount;
+      return MockTransport.json(200, {
+        charged: escrow.charged,
+        remaining: escrow.deposit - escrow.charged
+      });
+    });
+
+    this.on('POST', '/escrows/:id/release', (_request, params) => {
+      const escrow = this.escrows.get(params.id);
+
+      if (!escrow) {
+        return MockTransport.json(404, { error: `Unknown escrow ${params.id}` });
+      }
+      if (escrow.released) {
+        return MockTransport.json(409, { error: 'Escrow already released' });
+      }
+
+      escrow.released = true;
+      const amount = escrow.deposit - escrow.charged;
+      return MockTransport.json(200, {
+        txHash: amount > 0 ? MockTransport.generateTxHash() : undefined,
+        amount
+      });
+    });
+
+    this.on('POST', '/payments', async (request) => {
+      // Simulate settlement delay
+      await this.delay(1000);
+      const txHash = MockTransport.generateTxHash();
+      this.settlements.set(txHash, Number(request.body?.amount) || 0);
+      return MockTransport.json(200, {
+        txHash,
+        amount: request.body?.amount
+      });
+    });
+
+    this.on('POST', '/payments/refund', (request) => MockTransport.json(200, {
+      txHash: MockTransport.generateTxHash(),
+      amount: request.body?.amount
+    }));
+
+    this.on('GET', '/wallets/:address/balance', (_request, params) => MockTransport.json(200, {
+      address: params.address,
+      balance: this.chain
+        ? this.chain.getBalance(params.address)
+        : 100.0 + Math.random() * 900
+    }));
+  }
+
+  private findSettlement(txHash: string, invoice: UnifiedInvoice): number | undefined {
+    const gatewayPayment = this.settlements.get(txHash);
+    if (gatewayPayment !== undefined) {
+      return gatewayPayment;
+    }
+
+    const tx = this.chain?.getTransaction(txHash);
+    if (tx && tx.to === invoice.paymentAddress && tx.memo === invoice.analysisId) {
+      return tx.amount;
+    }
+
+    return undefined;
+  }
+
+  private findHeader(request: TransportRequest, name: string): string | undefined {
+    const entry = Object.entries(request.headers || {}).find(
+      ([key]) => key.toLowerCase() === name
+    );
+    return entry?.[1];
+  }
+
+  private match(pattern: string[], segments: string[]): Record<string, string> | null {
+    if (pattern.length !== segments.length) return null;
+
+    const params: Record<string, string> = {};
+
+    for (let i = 0; i < pattern.length; i++) {
+      if (pattern[i].startsWith(':')) {
+        params[pattern[i].slice(1)] = decodeURIComponent(segments[i]);
+      } else if (pattern[i] !== segments[i]) {
+        return null;
+      }
+    }
+
+    return params;
+  }
+
+  private split(path: string): string[] {
+    return path.split('?')[0].split('/').filter(Boolean);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
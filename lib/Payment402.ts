@@ -1,48 +1,822 @@
-import type { UnifiedInvoice } from './types';
+import { randomBytes } from 'crypto';
+import type { UnifiedInvoice, BatchPricing, InvoiceLineItem } from './types';
+import type { Transport, TransportRequest, TransportResponse } from './transport-types';
+import type {
+  PaymentRequiredBody,
+  PaymentProof,
+  PaymentReceipt,
+  PaidResponse,
+  WalletSigner,
+  InvoiceRecord,
+  CreateInvoiceOptions,
+  LedgerReference,
+  Payment402Options,
+  LedgerEntry,
+  EscrowAccount,
+  RateProvider,
+  CurrencyCode
+} from './payment-types';
+import { sendRequest } from './Transport';
+import { PaymentLedger } from './PaymentLedger';
+import type { AuditLog } from './AuditLog';
+import { StaticRateProvider } from './StaticRateProvider';
+import {
+  TransportError,
+  InvoiceExpiredError,
+  PaymentRejectedError,
+  PaymentProtocolError,
+  InvoiceStateError,
+  EscrowError
+} from './errors';
+
+export const PAYMENT_PROOF_HEADER = 'x-payment-proof';
+export const PAYMENT_RECEIPT_HEADER = 'x-payment-receipt';
+
+export function encodePaymentHeader(value: PaymentProof | PaymentReceipt): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
+
+export function decodePaymentHeader<T>(header: string): T {
+  return JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+}
+
+/**
+ * Field `key` of a response body, or undefined when the body isn't an object
+ */
+function bodyField(data: unknown, key: string): unknown {
+  return typeof data === 'object' && data !== null ? (data as Record<string, unknown>)[key] : undefined;
+}
+
+function isPaymentReceipt(value: unknown): value is PaymentReceipt {
+  return typeof bodyField(value, 'invoiceId') === 'string' &&
+    typeof bodyField(value, 'txHash') === 'string' &&
+    typeof bodyField(value, 'amount') === 'number';
+}
 
 export class Payment402 {
   private wallet: string;
-  private endpoint: string;
+  private payee: string;
+  private transport: Transport;
+  private signer?: WalletSigner;
+  private ledger: PaymentLedger;
+  private invoices: Map<string, InvoiceRecord>;
+  private escrows: Map<string, EscrowAccount>;
+  private rates: RateProvider;
+  private settlementCurrency: CurrencyCode;
+  private quotes: Map<string, Pick<UnifiedInvoice, 'currency' | 'quote'>>; // invoiceId -> locked quote
+  private audit?: AuditLog;
+
+  constructor(wallet: string, transport: Transport, options: Payment402Options = {}) {
+    // A signer pays from its own key; the configured wallet still receives invoices
+    this.wallet = options.signer?.address || wallet;
+    this.payee = wallet;
+    this.transport = transport;
+    this.signer = options.signer;
+    this.ledger = options.ledger || new PaymentLedger();
+    this.invoices = new Map();
+    this.escrows = new Map();
+    this.rates = options.rates || new StaticRateProvider();
+    this.settlementCurrency = options.settlementCurrency || 'USDC';
+    this.quotes = new Map();
+    this.audit = options.audit;
+  }
+
+  /**
+   * Create an open invoice in `currency`. Batch pricing is itemized into per-sample and
+   * discount lines and converted from its own currency; a plain amount is taken as-is.
+   */
+  async createInvoice(
+    invoiceId: string,
+    pricing: BatchPricing | number,
+    currency: CurrencyCode = 'USD',
+    options: CreateInvoiceOptions = {}
+  ): Promise<UnifiedInvoice> {
+    if (this.invoices.has(invoiceId)) {
+      throw new Error(`Invoice ${invoiceId} already exists`);
+    }
+
+    const lineItems = typeof pricing === 'number'
+      ? [{ description: 'Analysis', quantity: 1, unitPrice: pricing, amount: pricing }]
+      : this.batchLineItems(pricing);
+
+    const totalCost = lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+    const invoice = await this.quoteInvoice({
+      analysisId: invoiceId,
+      instrumentCost: totalCost,
+      computeCost: 0,
+      aiCost: 0,
+      storageCost: 0,
+      totalCost,
+      paymentAddress: options.paymentAddress || this.payee,
+      expiresAt: Date.now() + (options.ttl ?? 3600000),
+      lineItems,
+      currency: typeof pricing === 'number' ? currency : pricing.currency || 'USD',
+      attribution: options.attribution
+    }, currency);
+
+    // Another call may have claimed the ID while rates were being fetched
+    if (this.invoices.has(invoiceId)) {
+      throw new Error(`Invoice ${invoiceId} already exists`);
+    }
+
+    this.invoices.set(invoiceId, {
+      invoice,
+      status: 'open',
+      currency,
+      batchId: options.batchId,
+      createdAt: Date.now()
+    });
+
+    this.recordInvoice(invoice, { batchId: options.batchId });
+
+    return { ...invoice };
+  }
+
+  /**
+   * Convert an invoice into `currency` and lock its settlement amount until it expires.
+   * The lock expires early if the rate provider's quote does.
+   */
+  async quoteInvoice(
+    invoice: UnifiedInvoice,
+    currency: CurrencyCode = invoice.currency || 'USD'
+  ): Promise<UnifiedInvoice> {
+    const from = invoice.currency || 'USD';
+    let converted: UnifiedInvoice = { ...invoice };
+
+    if (from !== currency) {
+      const { rate } = await this.rates.getRate(from, currency);
+      converted = {
+        ...invoice,
+        instrumentCost: invoice.instrumentCost * rate,
+        computeCost: invoice.computeCost * rate,
+        aiCost: invoice.aiCost * rate,
+        storageCost: invoice.storageCost * rate,
+        totalCost: invoice.totalCost * rate,
+        lineItems: invoice.lineItems?.map(item => ({
+          ...item,
+          unitPrice: item.unitPrice * rate,
+          amount: item.amount * rate
+        }))
+      };
+    }
+
+    const settlement = await this.rates.getRate(currency, this.settlementCurrency);
+    const expiresAt = Math.min(invoice.expiresAt, settlement.expiresAt ?? Infinity);
+
+    return {
+      ...converted,
+      currency,
+      expiresAt,
+      quote: {
+        currency: this.settlementCurrency,
+        rate: settlement.rate,
+        amount: converted.totalCost * settlement.rate,
+        lockedAt: Date.now(),
+        expiresAt
+      }
+    };
+  }
+
+  async convert(amount: number, from: CurrencyCode, to: CurrencyCode): Promise<number> {
+    if (from === to) return amount;
+
+    const { rate } = await this.rates.getRate(from, to);
+    return amount * rate;
+  }
+
+  getInvoice(invoiceId: string): InvoiceRecord | undefined {
+    const record = this.invoices.get(invoiceId);
+
+    if (record && record.status === 'open' && record.invoice.expiresAt <= Date.now()) {
+      record.status = 'expired';
+    }
+
+    return record ? { ...record } : undefined;
+  }
+
+  getInvoices(): InvoiceRecord[] {
+    return Array.from(this.invoices.keys()).map(id => this.getInvoice(id)!);
+  }
+
+  /**
+   * Settle an open invoice created with createInvoice(). The invoice is
+   * 'paying' while the payment is in flight, so a second call can't pay it twice.
+   */
+  async payInvoice(invoiceId: string): Promise<InvoiceRecord> {
+    const record = this.requireInvoice(invoiceId);
+
+    if (record.status === 'open' && record.invoice.expiresAt <= Date.now()) {
+      record.status = 'expired';
+      throw new InvoiceExpiredError(invoiceId, record.invoice.expiresAt);
+    }
+
+    if (record.status !== 'open') {
+      throw new InvoiceStateError(invoiceId, record.status, 'pay');
+    }
+
+    record.status = 'paying';
+
+    try {
+      record.txHash = await this.processPayment(
+        record.invoice,
+        record.batchId ? { batchId: record.batchId } : undefined
+      );
+    } catch (error) {
+      record.status = 'open';
+      throw error;
+    }
+
+    record.status = 'paid';
+    record.paidAt = Date.now();
+
+    return { ...record };
+  }
+
+  voidInvoice(invoiceId: string, reason: string = 'Voided'): InvoiceRecord {
+    const record = this.requireInvoice(invoiceId);
+
+    if (record.status === 'paying' || record.status === 'paid' || record.status === 'void') {
+      throw new InvoiceStateError(invoiceId, record.status, 'void');
+    }
+
+    record.status = 'void';
+    record.voidedAt = Date.now();
+    record.voidReason = reason;
 
-  constructor(wallet: string, endpoint: string) {
-    this.wallet = wallet;
-    this.endpoint = endpoint;
+    return { ...record };
   }
 
-  async processPayment(invoice: UnifiedInvoice): Promise<void> {
+  private requireInvoice(invoiceId: string): InvoiceRecord {
+    const record = this.invoices.get(invoiceId);
+
+    if (!record) {
+      throw new Error(`Invoice ${invoiceId} not found`);
+    }
+
+    return record;
+  }
+
+  private batchLineItems(pricing: BatchPricing): InvoiceLineItem[] {
+    const unitPrice = pricing.totalSamples > 0 ? pricing.baseCost / pricing.totalSamples : 0;
+    const items: InvoiceLineItem[] = [
+      {
+        description: 'Sample analysis',
+        quantity: pricing.totalSamples,
+        unitPrice,
+        amount: pricing.baseCost
+      }
+    ];
+
+    if (pricing.savings > 0) {
+      items.push({
+        description: `Volume discount (${(pricing.discountRate * 100).toFixed(0)}%)`,
+        quantity: 1,
+        unitPrice: -pricing.savings,
+        amount: -pricing.savings
+      });
+    }
+
+    return items;
+  }
+
+  async processPayment(
+    invoice: UnifiedInvoice,
+    reference: LedgerReference = { analysisId: invoice.analysisId }
+  ): Promise<string> {
     console.log(`Processing 402 payment...`);
     console.log(`Invoice ID: ${invoice.analysisId}`);
     console.log(`Total: $${invoice.totalCost.toFixed(4)}`);
+    if (invoice.quote && invoice.quote.currency !== invoice.currency) {
+      console.log(`  Settling ${invoice.quote.amount.toFixed(6)} ${invoice.quote.currency} (${invoice.currency})`);
+    }
     console.log(`  - Instrument: $${invoice.instrumentCost.toFixed(4)}`);
     console.log(`  - Compute: $${invoice.computeCost.toFixed(4)}`);
     console.log(`  - AI: $${invoice.aiCost.toFixed(4)}`);
     console.log(`  - Storage: $${invoice.storageCost.toFixed(4)}`);
 
-    // Mock: Solana transaction
-    const txHash = this.generateTxHash();
+    const txHash = await this.transfer(invoice, this.toSettlement(invoice, invoice.totalCost));
     console.log(`Payment settled: ${txHash}`);
 
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    this.record({
+      type: 'settlement',
+      invoiceId: invoice.analysisId,
+      ...reference,
+      amount: invoice.totalCost,
+      ...this.currencyFields(invoice, invoice.totalCost),
+      txHash
+    });
+
+    return txHash;
   }
 
-  async getBalance(): Promise<number> {
-    // Mock: Get Solana wallet balance
-    return 100.0 + Math.random() * 900;
+  /**
+   * Convert an amount in the invoice currency at the invoice's locked rate
+   */
+  private toSettlement(invoice: Pick<UnifiedInvoice, 'quote'> | undefined, amount: number): number {
+    return invoice?.quote ? amount * invoice.quote.rate : amount;
+  }
+
+  private currencyFields(invoice: Pick<UnifiedInvoice, 'currency' | 'quote'> | undefined, amount: number) {
+    const currency = invoice?.currency || 'USD';
+
+    return {
+      currency,
+      settlementAmount: this.toSettlement(invoice, amount),
+      settlementCurrency: invoice?.quote?.currency || currency
+    };
+  }
+
+  /**
+   * Move `amount` (settlement currency) to the invoice's payment address
+   */
+  private transfer(invoice: UnifiedInvoice, amount: number): Promise<string> {
+    return this.signer
+      ? this.payOnChain(invoice, amount, this.signer)
+      : this.payViaGateway(invoice, amount);
+  }
+
+  private async payOnChain(invoice: UnifiedInvoice, amount: number, signer: WalletSigner): Promise<string> {
+    const transfer = await signer.signAndSubmitTransfer({
+      to: invoice.paymentAddress,
+      amount,
+      memo: invoice.analysisId
+    });
+
+    return transfer.txHash;
+  }
+
+  private async payViaGateway(invoice: UnifiedInvoice, amount: number): Promise<string> {
+    const { txHash } = await sendRequest<{ txHash: string }>(this.transport, {
+      method: 'POST',
+      path: '/payments',
+      idempotencyKey: this.idempotencyKey('payment'),
+      body: {
+        from: this.wallet,
+        to: invoice.paymentAddress,
+        amount,
+        currency: invoice.quote?.currency || invoice.currency || 'USD',
+        invoice
+      }
+    });
+
+    return txHash;
+  }
+
+  /**
+   * Prepay an invoice into escrow. The gateway draws it down with chargeEscrow()
+   * as work is delivered and returns the rest on releaseEscrow(). If the gateway
+   * won't open the escrow, the deposit is recorded and asked back.
+   */
+  async openEscrow(
+    invoice: UnifiedInvoice,
+    reference: LedgerReference = { analysisId: invoice.analysisId },
+    amount: number = invoice.totalCost
+  ): Promise<EscrowAccount> {
+    if (invoice.expiresAt <= Date.now()) {
+      throw new InvoiceExpiredError(invoice.analysisId, invoice.expiresAt);
+    }
+
+    console.log(`Depositing $${amount.toFixed(4)} into escrow for ${invoice.analysisId}`);
+    const settlementAmount = this.toSettlement(invoice, amount);
+    const depositTxHash = await this.transfer(invoice, settlementAmount);
+    this.quotes.set(invoice.analysisId, { currency: invoice.currency, quote: invoice.quote });
+
+    let escrowId: string;
+    try {
+      ({ escrowId } = await sendRequest<{ escrowId: string }>(this.transport, {
+        method: 'POST',
+        path: '/escrows',
+        idempotencyKey: this.idempotencyKey('escrow'),
+        body: {
+          invoiceId: invoice.analysisId,
+          payer: this.wallet,
+          amount,
+          settlementAmount,
+          depositTxHash,
+          invoice
+        }
+      }));
+    } catch (error) {
+      await this.returnDeposit(invoice, reference, amount, depositTxHash, (error as Error).message);
+      throw error;
+    }
+
+    const account: EscrowAccount = {
+      id: escrowId,
+      invoiceId: invoice.analysisId,
+      analysisId: reference.analysisId,
+      deposit: amount,
+      charged: 0,
+      released: 0,
+      status: 'open',
+      depositTxHash,
+      charges: [],
+      openedAt: Date.now()
+    };
+    this.escrows.set(escrowId, account);
+
+    this.record({
+      type: 'escrow-deposit',
+      invoiceId: invoice.analysisId,
+      ...reference,
+      amount,
+      ...this.currencyFields(invoice, amount),
+      txHash: depositTxHash
+    });
+
+    return this.copyEscrow(account);
+  }
+
+  /**
+   * Book a deposit whose escrow was never opened and get it refunded. Throws
+   * EscrowError if the refund fails, leaving the deposit on the ledger.
+   */
+  private async returnDeposit(
+    invoice: UnifiedInvoice,
+    reference: LedgerReference,
+    amount: number,
+    depositTxHash: string,
+    cause: string
+  ): Promise<void> {
+    const currencyFields = this.currencyFields(invoice, amount);
+    const reason = `Escrow not opened: ${cause}`;
+
+    this.record({
+      type: 'escrow-deposit',
+      invoiceId: invoice.analysisId,
+      ...reference,
+      amount,
+      ...currencyFields,
+      txHash: depositTxHash
+    });
+
+    let txHash: string;
+    try {
+      txHash = await this.sendRefund(currencyFields.settlementAmount, currencyFields.settlementCurrency, reason, invoice.analysisId);
+    } catch (error) {
+      throw new EscrowError(
+        invoice.analysisId,
+        `deposit ${depositTxHash} was not returned after the escrow failed to open: ${(error as Error).message}`
+      );
+    }
+    console.log(`Escrow deposit returned: ${txHash}`);
+
+    this.record({
+      type: 'escrow-release',
+      invoiceId: invoice.analysisId,
+      ...reference,
+      amount,
+      ...currencyFields,
+      txHash,
+      reason
+    });
+  }
+
+  /**
+   * Draw an incremental payment out of an open escrow
+   */
+  async chargeEscrow(escrowId: string, amount: number, description: string): Promise<EscrowAccount> {
+    const account = this.requireEscrow(escrowId);
+
+    if (account.status !== 'open') {
+      throw new EscrowError(escrowId, `cannot charge a ${account.status} escrow`);
+    }
+
+    if (amount <= 0) {
+      throw new EscrowError(escrowId, `charge must be positive, got ${amount}`);
+    }
+
+    const remaining = account.deposit - account.charged;
+    if (amount > remaining + 1e-9) {
+      throw new EscrowError(
+        escrowId,
+        `charge of $${amount.toFixed(4)} exceeds remaining $${remaining.toFixed(4)}`
+      );
+    }
+
+    await sendRequest(this.transport, {
+      method: 'POST',
+      path: `/escrows/${encodeURIComponent(escrowId)}/charges`,
+      idempotencyKey: this.idempotencyKey('charge'),
+      body: { amount, description }
+    });
+
+    const timestamp = Date.now();
+    account.charged += amount;
+    account.charges.push({ amount, description, timestamp });
+
+    this.record({
+      type: 'charge',
+      invoiceId: account.invoiceId,
+      analysisId: account.analysisId,
+      amount,
+      ...this.currencyFields(this.quotes.get(account.invoiceId), amount),
+      reason: description,
+      timestamp
+    });
+
+    return this.copyEscrow(account);
+  }
+
+  /**
+   * Close an escrow and return whatever was not charged to the payer
+   */
+  async releaseEscrow(escrowId: string, reason: string = 'Escrow closed'): Promise<EscrowAccount> {
+    const account = this.requireEscrow(escrowId);
+
+    if (account.status !== 'open') {
+      throw new EscrowError(escrowId, 'already released');
+    }
+
+    const { txHash, amount } = await sendRequest<{ txHash?: string; amount: number }>(this.transport, {
+      method: 'POST',
+      path: `/escrows/${encodeURIComponent(escrowId)}/release`,
+      idempotencyKey: this.idempotencyKey('release'),
+      body: { reason }
+    });
+
+    // Everything that wasn't charged has to come back
+    const uncharged = account.deposit - account.charged;
+    if (typeof amount !== 'number' || Math.abs(amount - uncharged) > 1e-9) {
+      throw new EscrowError(
+        escrowId,
+        `gateway released ${amount} but ${uncharged.toFixed(4)} was left uncharged`
+      );
+    }
+
+    account.status = 'released';
+    account.released = amount;
+    account.releaseTxHash = txHash;
+    account.closedAt = Date.now();
+    console.log(`Escrow released: $${amount.toFixed(4)} returned`);
+
+    this.record({
+      type: 'escrow-release',
+      invoiceId: account.invoiceId,
+      analysisId: account.analysisId,
+      amount,
+      ...this.currencyFields(this.quotes.get(account.invoiceId), amount),
+      txHash,
+      reason
+    });
+
+    return this.copyEscrow(account);
+  }
+
+  getEscrow(escrowId: string): EscrowAccount | undefined {
+    const account = this.escrows.get(escrowId);
+    return account ? this.copyEscrow(account) : undefined;
+  }
+
+  private requireEscrow(escrowId: string): EscrowAccount {
+    const account = this.escrows.get(escrowId);
+    if (!account) {
+      throw new EscrowError(escrowId, 'not found');
+    }
+    return account;
+  }
+
+  /**
+   * Fresh key for one money-moving call; the transport reuses it across retries
+   * so the gateway can settle the call at most once
+   */
+  private idempotencyKey(operation: string): string {
+    return `${operation}:${randomBytes(16).toString('hex')}`;
+  }
+
+  private copyEscrow(account: EscrowAccount): EscrowAccount {
+    return { ...account, charges: [...account.charges] };
+  }
+
+  /**
+   * Send a request and settle a `402 Payment Required` challenge if the server issues one:
+   * pay the returned invoice, retry with a payment proof and verify the server's receipt
+   */
+  async requestWithPayment<T = any>(request: TransportRequest): Promise<PaidResponse<T>> {
+    const initial = await this.transport.request<T | PaymentRequiredBody>(request);
+
+    if (initial.status !== 402) {
+      this.ensureOk(request, initial);
+      return { status: initial.status, data: initial.data as T };
+    }
+
+    const invoice = this.parseInvoice(initial.data);
+
+    if (invoice.expiresAt <= Date.now()) {
+      throw new InvoiceExpiredError(invoice.analysisId, invoice.expiresAt);
+    }
+
+    const txHash = await this.processPayment(invoice);
+    const proof: PaymentProof = {
+      invoiceId: invoice.analysisId,
+      txHash,
+      payer: this.wallet,
+      amount: this.toSettlement(invoice, invoice.totalCost),
+      paidAt: Date.now()
+    };
+
+    // The proof names a settled transfer, so resending it can't pay twice
+    const paid = await this.transport.request<T>({
+      ...request,
+      idempotencyKey: `proof:${txHash}`,
+      headers: {
+        ...request.headers,
+        [PAYMENT_PROOF_HEADER]: encodePaymentHeader(proof)
+      }
+    });
+
+    if (paid.status === 402) {
+      if (bodyField(paid.data, 'code') === 'INVOICE_EXPIRED') {
+        throw new InvoiceExpiredError(invoice.analysisId, invoice.expiresAt);
+      }
+
+      const error = bodyField(paid.data, 'error');
+      throw new PaymentRejectedError(invoice.analysisId, typeof error === 'string' ? error : 'proof not accepted');
+    }
+
+    this.ensureOk(request, paid);
+
+    const receipt = this.verifyReceipt(paid, proof);
+    console.log(`Payment receipt verified: ${receipt.txHash}`);
+
+    this.record({
+      type: 'receipt',
+      invoiceId: receipt.invoiceId,
+      analysisId: invoice.analysisId,
+      amount: invoice.totalCost,
+      ...this.currencyFields(invoice, invoice.totalCost),
+      settlementAmount: receipt.amount,
+      txHash: receipt.txHash,
+      timestamp: receipt.settledAt
+    });
+
+    return {
+      status: paid.status,
+      data: paid.data,
+      invoice,
+      proof,
+      receipt
+    };
   }
 
-  private generateTxHash(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let hash = '';
-    for (let i = 0; i < 64; i++) {
-      hash += chars.charAt(Math.floor(Math.random() * chars.length));
+  private parseInvoice(body: any): UnifiedInvoice {
+    const invoice = body?.invoice;
+
+    if (
+      !invoice ||
+      typeof invoice.analysisId !== 'string' ||
+      typeof invoice.totalCost !== 'number' ||
+      typeof invoice.paymentAddress !== 'string' ||
+      typeof invoice.expiresAt !== 'number'
+    ) {
+      throw new PaymentProtocolError('402 response did not include a valid invoice');
     }
-    return hash;
+
+    return invoice;
   }
 
-  async refund(amount: number, reason: string): Promise<void> {
+  private verifyReceipt(response: TransportResponse, proof: PaymentProof): PaymentReceipt {
+    const header = response.headers[PAYMENT_RECEIPT_HEADER];
+    let receipt: unknown;
+
+    try {
+      receipt = header
+        ? decodePaymentHeader<unknown>(header)
+        : bodyField(response.data, 'receipt');
+    } catch {
+      throw new PaymentProtocolError(`Malformed ${PAYMENT_RECEIPT_HEADER} header`);
+    }
+
+    if (!receipt) {
+      throw new PaymentProtocolError(`Server did not return a receipt for invoice ${proof.invoiceId}`);
+    }
+
+    if (
+      !isPaymentReceipt(receipt) ||
+      receipt.invoiceId !== proof.invoiceId ||
+      receipt.txHash !== proof.txHash ||
+      receipt.amount < proof.amount
+    ) {
+      throw new PaymentProtocolError(`Receipt does not match payment for invoice ${proof.invoiceId}`);
+    }
+
+    return receipt;
+  }
+
+  getWalletAddress(): string {
+    return this.wallet;
+  }
+
+  private ensureOk(request: TransportRequest, response: TransportResponse): void {
+    if (response.status < 200 || response.status >= 300) {
+      throw TransportError.fromResponse(request, response);
+    }
+  }
+
+  async getBalance(): Promise<number> {
+    if (this.signer) {
+      return this.signer.getBalance();
+    }
+
+    const { balance } = await sendRequest<{ balance: number }>(this.transport, {
+      method: 'GET',
+      path: `/wallets/${encodeURIComponent(this.wallet)}/balance`
+    });
+
+    return balance;
+  }
+
+  async refund(
+    amount: number,
+    reason: string,
+    invoiceId?: string,
+    reference: LedgerReference = {}
+  ): Promise<string> {
     console.log(`Refunding $${amount.toFixed(4)} - ${reason}`);
-    const txHash = this.generateTxHash();
+    const locked = invoiceId ? this.quotes.get(invoiceId) : undefined;
+    const currencyFields = this.currencyFields(locked, amount);
+
+    const txHash = await this.sendRefund(currencyFields.settlementAmount, currencyFields.settlementCurrency, reason, invoiceId);
     console.log(`Refund settled: ${txHash}`);
+
+    this.record({
+      type: 'refund',
+      invoiceId: invoiceId || reference.analysisId || reference.batchId || 'unassigned',
+      ...reference,
+      amount,
+      ...currencyFields,
+      txHash,
+      reason
+    });
+
+    return txHash;
+  }
+
+  /**
+   * Ask the gateway to send `amount` (settlement currency) back to our wallet
+   */
+  private async sendRefund(amount: number, currency: CurrencyCode, reason: string, invoiceId?: string): Promise<string> {
+    const { txHash } = await sendRequest<{ txHash: string }>(this.transport, {
+      method: 'POST',
+      path: '/payments/refund',
+      idempotencyKey: this.idempotencyKey('refund'),
+      body: {
+        to: this.wallet,
+        amount,
+        currency,
+        reason,
+        invoiceId
+      }
+    });
+
+    return txHash;
+  }
+
+  /**
+   * Record an invoice issued outside createInvoice() (e.g. analysis quotes)
+   */
+  recordInvoice(invoice: UnifiedInvoice, reference: LedgerReference = {}): void {
+    this.quotes.set(invoice.analysisId, { currency: invoice.currency, quote: invoice.quote });
+
+    this.record({
+      type: 'invoice',
+      invoiceId: invoice.analysisId,
+      ...reference,
+      amount: invoice.totalCost,
+      ...this.currencyFields(invoice, invoice.totalCost)
+    });
+  }
+
+  /**
+   * Mark work billed under an invoice as delivered, so reconcile() can
+   * catch completions that were never paid for
+   */
+  recordCompletion(invoiceId: string, amount: number, reference: LedgerReference = {}): void {
+    this.record({
+      type: 'completion',
+      invoiceId,
+      ...reference,
+      amount,
+      ...this.currencyFields(this.quotes.get(invoiceId), amount)
+    });
+  }
+
+  private record(entry: Parameters<PaymentLedger['record']>[0]): LedgerEntry {
+    const recorded = this.ledger.record(entry);
+    this.audit?.append('payment', recorded.invoiceId, { ...recorded }, this.wallet);
+    return recorded;
+  }
+
+  getLedger(): PaymentLedger {
+    return this.ledger;
+  }
+
+  getRateProvider(): RateProvider {
+    return this.rates;
+  }
+
+  getSettlementCurrency(): CurrencyCode {
+    return this.settlementCurrency;
   }
 }
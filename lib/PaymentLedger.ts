@@ -0,0 +1,176 @@
+// PaymentLedger - record of every invoice, settlement and refund, with reconciliation
+
+import { randomBytes } from 'crypto';
+import type {
+  LedgerEntry,
+  LedgerStore,
+  LedgerQuery,
+  ReconciliationIssue,
+  ReconciliationReport,
+  ReconciliationTotals
+} from './payment-types';
+import { MemoryLedgerStore } from './MemoryLedgerStore';
+
+export class PaymentLedger {
+  private store: LedgerStore;
+  private entries: LedgerEntry[];
+
+  constructor(store: LedgerStore = new MemoryLedgerStore()) {
+    this.store = store;
+    this.entries = store.load();
+  }
+
+  record(entry: Omit<LedgerEntry, 'id' | 'timestamp'> & { timestamp?: number }): LedgerEntry {
+    const recorded: LedgerEntry = {
+      ...entry,
+      id: randomBytes(8).toString('hex'),
+      timestamp: entry.timestamp ?? Date.now()
+    };
+
+    this.store.append(recorded);
+    this.entries.push(recorded);
+
+    return recorded;
+  }
+
+  query(query: LedgerQuery = {}): LedgerEntry[] {
+    let results = this.entries;
+
+    if (query.type) {
+      const types = Array.isArray(query.type) ? query.type : [query.type];
+      results = results.filter(e => types.includes(e.type));
+    }
+
+    if (query.invoiceId) {
+      results = results.filter(e => e.invoiceId === query.invoiceId);
+    }
+
+    if (query.analysisId) {
+      results = results.filter(e => e.analysisId === query.analysisId);
+    }
+
+    if (query.batchId) {
+      results = results.filter(e => e.batchId === query.batchId);
+    }
+
+    if (query.from !== undefined) {
+      results = results.filter(e => e.timestamp >= query.from!);
+    }
+
+    if (query.to !== undefined) {
+      results = results.filter(e => e.timestamp <= query.to!);
+    }
+
+    return [...results];
+  }
+
+  getByAnalysis(analysisId: string): LedgerEntry[] {
+    return this.query({ analysisId });
+  }
+
+  getByBatch(batchId: string): LedgerEntry[] {
+    return this.query({ batchId });
+  }
+
+  getByDateRange(from: number, to: number): LedgerEntry[] {
+    return this.query({ from, to });
+  }
+
+  /**
+   * Net amount paid for an invoice after refunds. Escrow charges count as
+   * payment; deposits do not until they are charged.
+   */
+  getNetPaid(invoiceId: string): number {
+    return this.query({ invoiceId }).reduce((sum, e) => {
+      if (e.type === 'settlement' || e.type === 'charge') return sum + e.amount;
+      if (e.type === 'refund') return sum - e.amount;
+      return sum;
+    }, 0);
+  }
+
+  /**
+   * Flag invoices paid more than once, refunds without (or beyond) a payment,
+   * analyses that completed without settlement and escrows charged beyond their deposit
+   */
+  reconcile(): ReconciliationReport {
+    const issues: ReconciliationIssue[] = [];
+    const byInvoice = new Map<string, LedgerEntry[]>();
+
+    this.entries.forEach(entry => {
+      const list = byInvoice.get(entry.invoiceId) || [];
+      list.push(entry);
+      byInvoice.set(entry.invoiceId, list);
+    });
+
+    // Invoices in different currencies can't be summed together
+    const totals: Record<string, ReconciliationTotals> = {};
+
+    byInvoice.forEach((entries, invoiceId) => {
+      const settlements = entries.filter(e => e.type === 'settlement');
+      const charges = entries.filter(e => e.type === 'charge');
+      const deposits = entries.filter(e => e.type === 'escrow-deposit');
+      const refunds = entries.filter(e => e.type === 'refund');
+      const completions = entries.filter(e => e.type === 'completion');
+      const payments = [...settlements, ...charges];
+
+      const settled = payments.reduce((sum, e) => sum + e.amount, 0);
+      const refunded = refunds.reduce((sum, e) => sum + e.amount, 0);
+      const charged = charges.reduce((sum, e) => sum + e.amount, 0);
+      const deposited = deposits.reduce((sum, e) => sum + e.amount, 0);
+      const currency = entries[0].currency || 'USD';
+      const total = totals[currency] || (totals[currency] = { settled: 0, refunded: 0 });
+      total.settled += settled;
+      total.refunded += refunded;
+
+      if (settlements.length > 1) {
+        issues.push({
+          type: 'duplicate-payment',
+          invoiceId,
+          message: `Invoice ${invoiceId} was paid ${settlements.length} times`,
+          entries: settlements
+        });
+      }
+
+      if (refunds.length > 0 && payments.length === 0) {
+        issues.push({
+          type: 'refund-without-payment',
+          invoiceId,
+          message: `Invoice ${invoiceId} was refunded ${refunded.toFixed(2)} ${currency} without a payment`,
+          entries: refunds
+        });
+      } else if (refunded > settled + 1e-9) {
+        issues.push({
+          type: 'refund-exceeds-payment',
+          invoiceId,
+          message: `Invoice ${invoiceId} refunded ${refunded.toFixed(2)} of ${settled.toFixed(2)} ${currency} paid`,
+          entries: [...payments, ...refunds]
+        });
+      }
+
+      if (charged > deposited + 1e-9) {
+        issues.push({
+          type: 'escrow-overcharge',
+          invoiceId,
+          message: `Invoice ${invoiceId} charged ${charged.toFixed(2)} against a ${deposited.toFixed(2)} ${currency} escrow deposit`,
+          entries: [...deposits, ...charges]
+        });
+      }
+
+      if (completions.length > 0 && payments.length === 0) {
+        issues.push({
+          type: 'unsettled-completion',
+          invoiceId,
+          message: `Invoice ${invoiceId} completed without settlement`,
+          entries: completions
+        });
+      }
+    });
+
+    return {
+      checkedAt: Date.now(),
+      entriesChecked: this.entries.length,
+      totals,
+      issues
+    };
+  }
+}
@@ -0,0 +1,204 @@
+// PolicyEngine - declarative allow / deny / require-approval rules for instrument access
+
+import type { InstrumentType } from './types';
+import type {
+  PolicyEffect,
+  PolicyRule,
+  PolicyConditions,
+  TimeOfDayWindow,
+  AccessContext,
+  AccessDecision,
+  RuleEvaluation,
+  PolicyEngineOptions
+} from './policy-types';
+
+export const INSTRUMENT_CLEARANCE: Record<InstrumentType, number> = {
+  'dna-sequencer': 2,
+  'spectroscopy': 1,
+  'microscopy': 1,
+  'mass-spec': 2,
+  'nmr': 2,
+  'x-ray-diffraction': 3
+};
+
+// Reproduces the per-instrument clearance table
+export const DEFAULT_ACCESS_RULES: PolicyRule[] = [
+  ...(Object.entries(INSTRUMENT_CLEARANCE) as [InstrumentType, number][])
+    .filter(([, level]) => level > 1)
+    .map(([instrument, level]): PolicyRule => ({
+      id: `clearance-${instrument}`,
+      description: `${instrument} requires clearance ${level}`,
+      effect: 'deny',
+      when: { instruments: [instrument], maxClearance: level - 1 }
+    })),
+  {
+    id: 'clearance-baseline',
+    description: 'Researchers with clearance 1 or higher',
+    effect: 'allow',
+    when: { minClearance: 1 }
+  }
+];
+
+// Deny beats require-approval beats allow
+const EFFECT_PRECEDENCE: PolicyEffect[] = ['deny', 'require-approval', 'allow'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export class PolicyEngine {
+  private rules: PolicyRule[];
+  private defaultEffect: PolicyEffect;
+
+  constructor(rules: PolicyRule[] = DEFAULT_ACCESS_RULES, options: PolicyEngineOptions = {}) {
+    this.rules = [];
+    this.defaultEffect = options.defaultEffect || 'deny';
+
+    rules.forEach(rule => this.addRule(rule));
+  }
+
+  addRule(rule: PolicyRule): void {
+    if (this.rules.some(r => r.id === rule.id)) {
+      throw new Error(`Policy rule ${rule.id} already exists`);
+    }
+
+    this.rules.push(rule);
+  }
+
+  removeRule(ruleId: string): boolean {
+    const before = this.rules.length;
+    this.rules = this.rules.filter(rule => rule.id !== ruleId);
+    return this.rules.length < before;
+  }
+
+  getRules(): PolicyRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Evaluate every rule against the context. The strictest matching effect wins
+   * (deny, then require-approval, then allow); ties go to the rule listed first.
+   */
+  evaluate(context: AccessContext): AccessDecision {
+    const evaluations = this.rules.map(rule => this.evaluateRule(rule, context));
+
+    for (const effect of EFFECT_PRECEDENCE) {
+      const index = evaluations.findIndex(e => e.matched && e.effect === effect);
+
+      if (index >= 0) {
+        const rule = this.rules[index];
+        return {
+          effect,
+          rule,
+          explanation: `${this.describeEffect(effect)} by rule ${rule.id}` +
+            (rule.description ? `: ${rule.description}` : ''),
+          evaluations
+        };
+      }
+    }
+
+    return {
+      effect: this.defaultEffect,
+      explanation: `No rule matched ${context.instrument}; default is ${this.defaultEffect}`,
+      evaluations
+    };
+  }
+
+  private evaluateRule(rule: PolicyRule, context: AccessContext): RuleEvaluation {
+    const unmet = this.unmetConditions(rule.when, context);
+
+    return {
+      ruleId: rule.id,
+      effect: rule.effect,
+      matched: unmet.length === 0,
+      unmet
+    };
+  }
+
+  private unmetConditions(when: PolicyConditions, context: AccessContext): string[] {
+    const { identity, instrument, lab, sampleType } = context;
+    const unmet: string[] = [];
+
+    if (when.instruments && !when.instruments.includes(instrument)) {
+      unmet.push(`instrument ${instrument} not in [${when.instruments.join(', ')}]`);
+    }
+
+    if (when.labCertifications) {
+      const missing = when.labCertifications.filter(c => !lab?.certifications.includes(c));
+      if (missing.length > 0) {
+        unmet.push(lab
+          ? `lab ${lab.id} lacks ${missing.join(', ')}`
+          : `no lab selected to hold ${missing.join(', ')}`);
+      }
+    }
+
+    if (when.credentials) {
+      const missing = when.credentials.filter(c => !identity.credentials.includes(c));
+      if (missing.length > 0) {
+        unmet.push(`researcher lacks credential ${missing.join(', ')}`);
+      }
+    }
+
+    if (when.lacksCredentials && when.lacksCredentials.every(c => identity.credentials.includes(c))) {
+      unmet.push(`researcher holds ${when.lacksCredentials.join(', ')}`);
+    }
+
+    if (when.specializations && !when.specializations.some(s => identity.specializations.includes(s))) {
+      unmet.push(`researcher has none of [${when.specializations.join(', ')}]`);
+    }
+
+    if (when.minClearance !== undefined && identity.clearanceLevel < when.minClearance) {
+      unmet.push(`clearance ${identity.clearanceLevel} below ${when.minClearance}`);
+    }
+
+    if (when.maxClearance !== undefined && identity.clearanceLevel > when.maxClearance) {
+      unmet.push(`clearance ${identity.clearanceLevel} above ${when.maxClearance}`);
+    }
+
+    if (when.sampleTypes && (!sampleType || !when.sampleTypes.includes(sampleType))) {
+      unmet.push(`sample type ${sampleType || 'unknown'} not in [${when.sampleTypes.join(', ')}]`);
+    }
+
+    if (when.timeOfDay && !this.withinWindow(when.timeOfDay, context.time ?? Date.now())) {
+      const { start, end, timezone } = when.timeOfDay;
+      unmet.push(`outside ${start}-${end} ${timezone || 'UTC'}`);
+    }
+
+    return unmet;
+  }
+
+  private withinWindow(window: TimeOfDayWindow, time: number): boolean {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: window.timezone || 'UTC',
+      hour12: false,
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short'
+    }).formatToParts(new Date(time));
+
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+    const minutes = (Number(part('hour')) % 24) * 60 + Number(part('minute'));
+    const day = WEEKDAYS.indexOf(part('weekday'));
+
+    const start = this.parseClock(window.start);
+    const end = this.parseClock(window.end);
+
+    // The hours after midnight of a wrapping window belong to the day it started
+    let startDay: number;
+    if (start <= end ? minutes >= start && minutes < end : minutes >= start) {
+      startDay = day;
+    } else if (start > end && minutes < end) {
+      startDay = (day + 6) % 7;
+    } else {
+      return false;
+    }
+
+    return !window.days || window.days.includes(startDay);
+  }
+
+  private parseClock(clock: string): number {
+    const [hours, minutes] = clock.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+  }
+
+  private describeEffect(effect: PolicyEffect): string {
+    return effect === 'allow' ? 'Allowed' : effect === 'deny' ? 'Denied' : 'Approval required';
+  }
+}
@@ -0,0 +1,166 @@
+// ProofVerifier - lab-side challenge/response check of researcher key proofs
+
+import { randomBytes } from 'crypto';
+import type {
+  ProofChallenge,
+  IdentityProof,
+  ProofVerification,
+  ProofVerifierOptions,
+  ProofFailureReason
+} from './identity-types';
+import { verifyBytes, decodeBase58 } from './crypto';
+
+/**
+ * Canonical bytes a researcher key signs to prove possession for a nonce
+ */
+export function encodeProofMessage(proof: Omit<IdentityProof, 'signature'>): Uint8Array {
+  return Buffer.from(JSON.stringify({
+    domain: 'lab402-identity-proof',
+    publicKey: proof.publicKey,
+    nonce: proof.nonce,
+    timestamp: proof.timestamp,
+    audience: proof.audience || ''
+  }));
+}
+
+export class ProofVerifier {
+  private audience?: string;
+  private nonceTtl: number;
+  private maxAge: number;
+  private clockSkew: number;
+  private maxNonces: number;
+  private issued: Map<string, ProofChallenge>; // Outstanding nonces, oldest first
+  private used: Map<string, number>; // Consumed nonce -> expiry, kept to report replays
+
+  constructor(options: ProofVerifierOptions = {}) {
+    this.audience = options.audience;
+    this.nonceTtl = options.nonceTtl ?? 300000;
+    this.maxAge = options.maxAge ?? 60000;
+    this.clockSkew = options.clockSkew ?? 5000;
+    this.maxNonces = options.maxNonces ?? 10000;
+    this.issued = new Map();
+    this.used = new Map();
+  }
+
+  issueNonce(): ProofChallenge {
+    this.sweep();
+
+    const issuedAt = Date.now();
+    const challenge: ProofChallenge = {
+      nonce: randomBytes(32).toString('hex'),
+      audience: this.audience,
+      issuedAt,
+      expiresAt: issuedAt + this.nonceTtl
+    };
+
+    this.issued.set(challenge.nonce, challenge);
+
+    // Bound memory: drop the oldest outstanding nonces first
+    while (this.issued.size > this.maxNonces) {
+      this.issued.delete(this.issued.keys().next().value!);
+    }
+
+    return challenge;
+  }
+
+  /**
+   * Check that a proof answers a nonce this verifier issued, is fresh, is bound to
+   * the nonce, timestamp and audience, and was signed by the claimed key.
+   * A nonce is consumed by its first valid proof; later proofs are replays.
+   */
+  verifyProof(proof: IdentityProof, expectedPublicKey?: string): ProofVerification {
+    const result = this.check(proof, expectedPublicKey);
+    this.sweep();
+    return result;
+  }
+
+  /**
+   * Outstanding nonces, for monitoring
+   */
+  getPendingCount(): number {
+    this.sweep();
+    return this.issued.size;
+  }
+
+  private check(proof: IdentityProof, expectedPublicKey?: string): ProofVerification {
+    const now = Date.now();
+
+    if (
+      !proof ||
+      typeof proof.publicKey !== 'string' ||
+      typeof proof.nonce !== 'string' ||
+      typeof proof.timestamp !== 'number' ||
+      typeof proof.signature !== 'string'
+    ) {
+      return this.fail('malformed', 'Proof is missing required fields');
+    }
+
+    if (this.used.has(proof.nonce)) {
+      return this.fail('replayed', `Nonce ${proof.nonce.slice(0, 12)} was already used`);
+    }
+
+    const challenge = this.issued.get(proof.nonce);
+    if (!challenge) {
+      return this.fail('unknown-nonce', 'Nonce was not issued by this verifier');
+    }
+
+    if (challenge.expiresAt <= now) {
+      this.issued.delete(proof.nonce);
+      return this.fail('expired-nonce', 'Nonce expired before the proof arrived');
+    }
+
+    if (proof.timestamp > now + this.clockSkew) {
+      return this.fail('future-timestamp', 'Proof timestamp is in the future');
+    }
+
+    if (proof.timestamp < now - this.maxAge || proof.timestamp < challenge.issuedAt - this.clockSkew) {
+      return this.fail('stale', 'Proof is older than the freshness window');
+    }
+
+    if ((proof.audience || undefined) !== challenge.audience) {
+      return this.fail('audience-mismatch', `Proof is for ${proof.audience || 'no audience'}`);
+    }
+
+    if (expectedPublicKey && proof.publicKey !== expectedPublicKey) {
+      return this.fail('key-mismatch', 'Proof was signed by a different key');
+    }
+
+    let valid = false;
+    try {
+      const { signature, ...unsigned } = proof;
+      valid = verifyBytes(
+        decodeBase58(proof.publicKey),
+        encodeProofMessage(unsigned),
+        decodeBase58(signature)
+      );
+    } catch {
+      valid = false;
+    }
+
+    if (!valid) {
+      return this.fail('bad-signature', 'Signature does not bind this nonce, timestamp and key');
+    }
+
+    this.issued.delete(proof.nonce);
+    this.used.set(proof.nonce, challenge.expiresAt);
+
+    return { valid: true, publicKey: proof.publicKey };
+  }
+
+  private fail(reason: ProofFailureReason, message: string): ProofVerification {
+    return { valid: false, reason, message };
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+
+    this.issued.forEach((challenge, nonce) => {
+      if (challenge.expiresAt <= now) this.issued.delete(nonce);
+    });
+
+    // A consumed nonce can't be answered again once it would have expired anyway
+    this.used.forEach((expiresAt, nonce) => {
+      if (expiresAt <= now) this.used.delete(nonce);
+    });
+  }
+}
@@ -0,0 +1,69 @@
+// RefundPolicy - decides how much of an invoice to refund when an analysis is cancelled
+
+import type { UnifiedInvoice } from './types';
+import type {
+  RefundStage,
+  RefundComponent,
+  RefundRates,
+  RefundDecision
+} from './payment-types';
+
+export const DEFAULT_REFUND_RATES: RefundRates = {
+  // Nothing consumed yet
+  pending: { instrument: 1, compute: 1, ai: 1, storage: 1 },
+  // Instrument booked and partly used
+  running: { instrument: 0.5, compute: 1, ai: 1, storage: 1 },
+  // Instrument run finished, data being processed
+  processing: { instrument: 0, compute: 0.5, ai: 1, storage: 0 },
+  // Only AI interpretation left
+  interpreting: { instrument: 0, compute: 0, ai: 0.5, storage: 0 }
+};
+
+export class RefundPolicy {
+  private rates: RefundRates;
+
+  constructor(rates: Partial<Record<RefundStage, Partial<Record<RefundComponent, number>>>> = {}) {
+    this.rates = { ...DEFAULT_REFUND_RATES };
+
+    (Object.keys(rates) as RefundStage[]).forEach(stage => {
+      this.rates[stage] = { ...DEFAULT_REFUND_RATES[stage], ...rates[stage] };
+    });
+  }
+
+  static isRefundableStage(status: string): status is RefundStage {
+    return status in DEFAULT_REFUND_RATES;
+  }
+
+  /**
+   * Refund per invoice component for the stage, never more than was paid
+   */
+  decide(invoice: UnifiedInvoice, stage: RefundStage, paid: number): RefundDecision {
+    const rates = this.rates[stage];
+
+    const breakdown: Record<RefundComponent, number> = {
+      instrument: invoice.instrumentCost * this.clamp(rates.instrument),
+      compute: invoice.computeCost * this.clamp(rates.compute),
+      ai: invoice.aiCost * this.clamp(rates.ai),
+      storage: invoice.storageCost * this.clamp(rates.storage)
+    };
+
+    const eligible = Object.values(breakdown).reduce((sum, value) => sum + value, 0);
+    const amount = Math.max(0, Math.min(eligible, paid));
+
+    return {
+      stage,
+      amount,
+      breakdown,
+      paid,
+      reason: `Cancelled while ${stage}`
+    };
+  }
+
+  getRates(): RefundRates {
+    return JSON.parse(JSON.stringify(this.rates));
+  }
+
+  private clamp(rate: number): number {
+    return Math.max(0, Math.min(1, rate));
+  }
+}
@@ -3,198 +3,474 @@ import type {
   InstrumentType, 
   RoutingOptions, 
   LabSelection,
-  LabPricing 
+  LabPricing,
+  GeoLocation,
+  RoutingCriterion,
+  RoutingWeights,
+  LabScorer,
+  RoutingFilter,
+  LabElimination,
+  CriterionScore,
+  CandidateScore,
+  RoutingExplanation
 } from './types';
+import type { ShippingEstimate } from './logistics-types';
 import { LabRegistry } from './LabRegistry';
+import { Logistics } from './Logistics';
+import { geocode } from './gazetteer';
+import { RoutingError } from './errors';
+
+// The 'balanced' strategy, and 'weighted' when no weights are given
+export const DEFAULT_ROUTING_WEIGHTS: RoutingWeights = {
+  cost: 0.3,
+  quality: 0.3,
+  load: 0.2,
+  uptime: 0.2
+};
+
+const ROUTING_CRITERIA: RoutingCriterion[] = ['cost', 'quality', 'load', 'uptime', 'distance', 'certifications'];
+
+// Ranked by their own built-in strategies; 'weighted' can't name them
+const DERIVED_CRITERIA: string[] = ['turnaround', 'landed-cost'];
+
+// Built-in strategies are fixed weightings of the normalized criteria
+const STRATEGY_WEIGHTS = new Map<string, RoutingWeights>([
+  ['cost-optimized', { cost: 1 }],
+  ['fastest', { load: 0.7, uptime: 0.3 }],
+  ['highest-quality', { quality: 1 }],
+  ['nearest', { distance: 1 }],
+  ['balanced', DEFAULT_ROUTING_WEIGHTS],
+  ['fastest-turnaround', { turnaround: 1 }],
+  ['lowest-landed-cost', { 'landed-cost': 1 }]
+]);
+
+const LOWER_IS_BETTER: string[] = ['cost', 'load', 'distance', 'turnaround', 'landed-cost'];
+
+const BUILT_IN_STRATEGIES: string[] = [
+  'cost-optimized',
+  'fastest',
+  'highest-quality',
+  'nearest',
+  'balanced',
+  'fastest-turnaround',
+  'lowest-landed-cost',
+  'weighted'
+];
 
 export class Router {
   private registry: LabRegistry;
-  private userLocation?: { lat: number; lon: number };
+  private userLocation?: GeoLocation;
+  private logistics: Logistics;
+  private scorers: Map<string, LabScorer>;
 
-  constructor(registry: LabRegistry, userLocation?: { lat: number; lon: number }) {
+  constructor(registry: LabRegistry, userLocation?: GeoLocation, logistics: Logistics = new Logistics()) {
     this.registry = registry;
     this.userLocation = userLocation;
+    this.logistics = logistics;
+    this.scorers = new Map();
+  }
+
+  /**
+   * Add a custom criterion. Use its name as the routing strategy, or weight it
+   * in RoutingOptions.weights with the 'weighted' strategy.
+   */
+  registerScorer(name: string, scorer: LabScorer): void {
+    if (
+      BUILT_IN_STRATEGIES.includes(name) ||
+      (ROUTING_CRITERIA as string[]).includes(name) ||
+      DERIVED_CRITERIA.includes(name)
+    ) {
+      throw new Error(`${name} is a built-in routing strategy or criterion`);
+    }
+
+    if (this.scorers.has(name)) {
+      throw new Error(`Scorer ${name} is already registered`);
+    }
+
+    this.scorers.set(name, scorer);
+  }
+
+  unregisterScorer(name: string): boolean {
+    return this.scorers.delete(name);
+  }
+
+  getScorers(): string[] {
+    return Array.from(this.scorers.keys());
+  }
+
+  setUserLocation(userLocation?: GeoLocation): void {
+    this.userLocation = userLocation;
+  }
+
+  getUserLocation(): GeoLocation | undefined {
+    return this.userLocation;
   }
 
   selectLab(
     instrument: InstrumentType,
     routing?: RoutingOptions
   ): LabSelection {
-    // Get available labs for this instrument
-    let candidates = this.registry.getAvailableLabs(instrument);
-
-    if (candidates.length === 0) {
-      throw new Error(`No labs available for ${instrument}`);
+    const { ranked, explanation } = this.evaluate(instrument, routing);
+
+    if (ranked.length === 0) {
+      const unavailable = explanation.eliminated
+        .filter(e => e.filter !== 'instrument')
+        .every(e => e.filter === 'availability');
+      throw unavailable
+        ? new RoutingError(instrument, `No labs available for ${instrument}`, explanation.eliminated, 'NO_LABS_AVAILABLE')
+        : new RoutingError(instrument, 'No labs match routing criteria', explanation.eliminated);
     }
 
-    // Apply filters
-    candidates = this.applyFilters(candidates, routing);
+    const strategy = explanation.strategy;
+    const selected = ranked[0].lab;
 
-    if (candidates.length === 0) {
-      throw new Error('No labs match routing criteria');
-    }
+    // Runners-up, best first
+    const alternatives = ranked.slice(1, 4).map(candidate => candidate.lab);
 
-    // Select best lab based on strategy
+    return {
+      lab: selected,
+      score: ranked[0].score,
+      reasoning: this.generateReasoning(selected, instrument, strategy, routing),
+      alternatives,
+      offering: this.registry.getOffering(selected, instrument),
+      distance: this.getDistance(selected),
+      shipping: this.estimateShipping(selected, routing?.storageConditions),
+      explanation
+    };
+  }
+
+  /**
+   * Score every candidate and record which labs the filters removed, without
+   * requiring any lab to be left
+   */
+  explain(instrument: InstrumentType, routing?: RoutingOptions): RoutingExplanation {
+    return this.evaluate(instrument, routing).explanation;
+  }
+
+  private evaluate(
+    instrument: InstrumentType,
+    routing?: RoutingOptions
+  ): { ranked: Array<{ lab: LabInfo; score: number }>; explanation: RoutingExplanation } {
     const strategy = routing?.strategy || 'balanced';
-    const selected = this.selectByStrategy(candidates, strategy, routing);
+    const eliminated: LabElimination[] = [];
+
+    // Labs that don't run the instrument at all
+    this.registry.getAllLabs()
+      .filter(lab => !lab.instruments.includes(instrument))
+      .forEach(lab => eliminated.push({
+        lab: lab.id,
+        labName: lab.name,
+        filter: 'instrument',
+        reason: `Doesn't run ${instrument}`
+      }));
+
+    // Labs that run the instrument but are down or saturated
+    const available = this.registry.getAvailableLabs(instrument);
+    this.registry.getLabsByInstrument(instrument)
+      .filter(lab => !available.some(candidate => candidate.id === lab.id))
+      .forEach(lab => eliminated.push({
+        lab: lab.id,
+        labName: lab.name,
+        filter: 'availability',
+        reason: this.registry.getUnavailableReason(lab) || 'Unavailable'
+      }));
+
+    const candidates = this.applyFilters(available, instrument, routing, eliminated);
 
-    // Get alternatives
-    const alternatives = candidates
-      .filter(lab => lab.id !== selected.id)
-      .slice(0, 3);
+    // Select best lab based on strategy
+    const ranked = candidates.length > 0 ? this.rankLabs(candidates, instrument, strategy, routing) : [];
 
     return {
-      lab: selected,
-      score: this.calculateScore(selected, strategy, routing),
-      reasoning: this.generateReasoning(selected, strategy),
-      alternatives
+      ranked,
+      explanation: {
+        strategy,
+        criteria: this.getStrategyCriteria(strategy, routing),
+        candidates: this.breakDownScores(ranked, instrument, strategy, routing),
+        eliminated
+      }
     };
   }
 
-  private applyFilters(labs: LabInfo[], routing?: RoutingOptions): LabInfo[] {
+  /**
+   * Drop labs that fail a routing constraint, recording each one against the
+   * first filter it failed
+   */
+  private applyFilters(
+    labs: LabInfo[],
+    instrument: InstrumentType,
+    routing?: RoutingOptions,
+    eliminated: LabElimination[] = []
+  ): LabInfo[] {
     let filtered = labs;
 
     if (!routing) return filtered;
 
+    const apply = (filter: RoutingFilter, rejects: (lab: LabInfo) => string | undefined) => {
+      filtered = filtered.filter(lab => {
+        const reason = rejects(lab);
+        if (reason === undefined) return true;
+
+        eliminated.push({ lab: lab.id, labName: lab.name, filter, reason });
+        return false;
+      });
+    };
+
     // Max cost filter
     if (routing.maxCost !== undefined) {
-      filtered = filtered.filter(lab => {
-        const baseCost = this.estimateCost(lab);
-        return baseCost <= routing.maxCost!;
+      apply('maxCost', lab => {
+        const baseCost = this.estimateCost(lab, instrument);
+        return baseCost <= routing.maxCost!
+          ? undefined
+          : `Costs ~$${baseCost.toFixed(2)}, over the $${routing.maxCost} limit`;
       });
     }
 
     // Min quality filter
     if (routing.minQuality !== undefined) {
-      filtered = filtered.filter(lab => lab.quality >= routing.minQuality!);
+      apply('minQuality', lab => lab.quality >= routing.minQuality!
+        ? undefined
+        : `Quality ${lab.quality}/5 is below ${routing.minQuality}`);
     }
 
-    // Max distance filter
+    // Max distance filter; labs we can't place are dropped
     if (routing.maxDistance !== undefined && this.userLocation) {
-      filtered = filtered.filter(lab => {
-        const distance = this.registry.calculateDistance(
-          lab,
-          this.userLocation!.lat,
-          this.userLocation!.lon
-        );
-        return distance <= routing.maxDistance!;
+      apply('maxDistance', lab => {
+        const distance = this.getDistance(lab);
+        if (distance === undefined) return `Location unknown`;
+        return distance <= routing.maxDistance!
+          ? undefined
+          : `${Math.round(distance)} km away, over the ${routing.maxDistance} km limit`;
       });
     }
 
     // Preferred locations filter
     if (routing.preferredLocations && routing.preferredLocations.length > 0) {
-      filtered = filtered.filter(lab =>
-        routing.preferredLocations!.includes(lab.country)
-      );
+      apply('preferredLocations', lab => routing.preferredLocations!.includes(lab.country)
+        ? undefined
+        : `Located in ${lab.country}, not ${routing.preferredLocations!.join(', ')}`);
     }
 
     // Exclude labs filter
     if (routing.excludeLabs && routing.excludeLabs.length > 0) {
-      filtered = filtered.filter(lab =>
-        !routing.excludeLabs!.includes(lab.id)
-      );
+      apply('excludeLabs', lab => routing.excludeLabs!.includes(lab.id) ? 'Excluded by request' : undefined);
     }
 
     // Required certifications filter
     if (routing.requireCertifications && routing.requireCertifications.length > 0) {
-      filtered = filtered.filter(lab =>
-        routing.requireCertifications!.every(cert =>
-          lab.certifications.includes(cert)
-        )
-      );
+      apply('requireCertifications', lab => {
+        const missing = routing.requireCertifications!.filter(cert => !lab.certifications.includes(cert));
+        return missing.length === 0 ? undefined : `Missing certifications: ${missing.join(', ')}`;
+      });
+    }
+
+    // Offering must produce the requested data formats
+    if (routing.requireDataFormats && routing.requireDataFormats.length > 0) {
+      apply('requireDataFormats', lab => {
+        const offering = this.registry.getOffering(lab, instrument);
+        if (!offering) return `No published ${instrument} offering`;
+
+        const missing = routing.requireDataFormats!.filter(format => !offering.dataFormat.includes(format));
+        return missing.length === 0 ? undefined : `${offering.model} doesn't output ${missing.join(', ')}`;
+      });
+    }
+
+    // Offering must accept the sample volume
+    if (routing.sampleSize !== undefined) {
+      apply('sampleSize', lab => {
+        const offering = this.registry.getOffering(lab, instrument);
+        if (!offering) return `No published ${instrument} offering`;
+
+        return offering.maxSampleSize >= routing.sampleSize!
+          ? undefined
+          : `${offering.model} takes at most ${offering.maxSampleSize} mL`;
+      });
     }
 
     return filtered;
   }
 
-  private selectByStrategy(
+  private rankLabs(
     labs: LabInfo[],
+    instrument: InstrumentType,
     strategy: string,
     routing?: RoutingOptions
-  ): LabInfo {
-    const scores = labs.map(lab => ({
-      lab,
-      score: this.calculateScore(lab, strategy, routing)
-    }));
+  ): Array<{ lab: LabInfo; score: number }> {
+    // Scores depend on the other candidates, since each criterion is normalized across them
+    const scores = this.calculateWeightedScores(labs, instrument, this.getWeights(strategy, routing), routing);
 
-    scores.sort((a, b) => b.score - a.score);
+    return labs
+      .map((lab, i) => ({ lab, score: scores[i] }))
+      .sort((a, b) => b.score - a.score);
+  }
 
-    return scores[0].lab;
+  /**
+   * Criteria the strategy ranks on, in the order they are listed in explanations
+   */
+  private getStrategyCriteria(strategy: string, routing?: RoutingOptions): string[] {
+    return Object.entries(this.getWeights(strategy, routing))
+      .filter(([, weight]) => weight > 0)
+      .map(([criterion]) => criterion);
   }
 
-  private calculateScore(
-    lab: LabInfo,
+  /**
+   * Per-criterion values and 0-1 sub-scores for each ranked candidate, with
+   * the weights rankLabs() scored them by as shares of the total, so the
+   * weighted sub-scores add up to the candidate's score
+   */
+  private breakDownScores(
+    ranked: Array<{ lab: LabInfo; score: number }>,
+    instrument: InstrumentType,
     strategy: string,
     routing?: RoutingOptions
-  ): number {
-    let score = 0;
-
-    switch (strategy) {
-      case 'cost-optimized':
-        // Lower cost = higher score
-        const cost = this.estimateCost(lab);
-        score = 100 - (cost / 2); // Normalize to 0-100
-        break;
-
-      case 'fastest':
-        // Lower load and higher uptime = higher score
-        score = (100 - lab.currentLoad) * 0.7 + lab.uptime * 0.3;
-        break;
+  ): CandidateScore[] {
+    const strategyCriteria = this.getStrategyCriteria(strategy, routing);
+    const criteria = [
+      ...strategyCriteria,
+      ...ROUTING_CRITERIA.filter(criterion =>
+        !strategyCriteria.includes(criterion) && (criterion !== 'distance' || !!this.userLocation)
+      )
+    ];
+
+    const weights = this.activeWeights(this.getWeights(strategy, routing));
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+
+    const columns = criteria.map(criterion => {
+      const values = ranked.map(({ lab }) => this.measure(lab, criterion, instrument, routing));
+      return { criterion, values, scores: this.normalize(values, LOWER_IS_BETTER.includes(criterion)) };
+    });
+
+    return ranked.map(({ lab, score }, i) => ({
+      lab: lab.id,
+      labName: lab.name,
+      rank: i + 1,
+      score,
+      criteria: columns.reduce((breakdown, { criterion, values, scores }) => {
+        const weight = weights.find(([name]) => name === criterion)?.[1];
+        breakdown[criterion] = {
+          value: values[i],
+          score: scores[i],
+          weight: weight !== undefined && total > 0 ? weight / total : 0
+        };
+        return breakdown;
+      }, {} as Record<string, CriterionScore>)
+    }));
+  }
 
-      case 'highest-quality':
-        // Quality is main factor
-        score = lab.quality * 20; // Convert 1-5 to 0-100
-        break;
+  /**
+   * 0-100 per lab: each criterion is min-max normalized across `labs` so the
+   * best candidate gets 1 and the worst 0, then weighted. Distance only counts
+   * when the user's location is known.
+   */
+  private calculateWeightedScores(
+    labs: LabInfo[],
+    instrument: InstrumentType,
+    weights: RoutingWeights,
+    routing?: RoutingOptions
+  ): number[] {
+    const criteria = this.activeWeights(weights);
+    const total = criteria.reduce((sum, [, weight]) => sum + weight, 0);
+
+    if (total === 0) return labs.map(() => 0);
+
+    const normalized = criteria.map(([criterion, weight]) => ({
+      weight,
+      values: this.normalize(
+        labs.map(lab => this.measure(lab, criterion, instrument, routing)),
+        LOWER_IS_BETTER.includes(criterion)
+      )
+    }));
 
-      case 'nearest':
-        // Distance is main factor
-        if (this.userLocation && lab.coordinates) {
-          const distance = this.registry.calculateDistance(
-            lab,
-            this.userLocation.lat,
-            this.userLocation.lon
-          );
-          score = Math.max(0, 100 - (distance / 100)); // Closer = higher score
-        } else {
-          score = 50; // Default if no location data
-        }
-        break;
+    return labs.map((_, i) =>
+      100 * normalized.reduce((sum, { weight, values }) => sum + weight * values[i], 0) / total
+    );
+  }
 
-      case 'balanced':
+  /**
+   * Raw value of one criterion for a lab; undefined when it can't be measured
+   */
+  private measure(lab: LabInfo, criterion: string, instrument: InstrumentType, routing?: RoutingOptions): number | undefined {
+    switch (criterion) {
+      case 'cost':
+        return this.estimateCost(lab, instrument);
+      case 'quality':
+        return lab.quality;
+      case 'load':
+        return lab.currentLoad;
+      case 'uptime':
+        return lab.uptime;
+      case 'distance':
+        return this.getDistance(lab);
+      case 'certifications':
+        return lab.certifications.length;
+      case 'turnaround':
+        return this.estimateTurnaround(lab, routing);
+      case 'landed-cost':
+        return this.estimateLandedCost(lab, instrument, routing);
       default:
-        // Balance all factors
-        const costScore = 100 - (this.estimateCost(lab) / 2);
-        const qualityScore = lab.quality * 20;
-        const availabilityScore = (100 - lab.currentLoad) * 0.5 + lab.availability * 0.5;
-        const uptimeScore = lab.uptime;
-
-        score = (
-          costScore * 0.3 +
-          qualityScore * 0.3 +
-          availabilityScore * 0.2 +
-          uptimeScore * 0.2
-        );
-        break;
+        return this.scorers.get(criterion)!(lab, { instrument, routing, distance: this.getDistance(lab) });
     }
+  }
 
-    return score;
+  /**
+   * Scale to 0-1 with 1 for the best value; unmeasured values score 0 and
+   * a criterion every candidate ties on scores 1
+   */
+  private normalize(values: Array<number | undefined>, lowerIsBetter: boolean): number[] {
+    const known = values.filter((v): v is number => v !== undefined && Number.isFinite(v));
+    const min = Math.min(...known);
+    const max = Math.max(...known);
+
+    return values.map(value => {
+      if (value === undefined || !Number.isFinite(value)) return 0;
+      if (max === min) return 1;
+      return lowerIsBetter ? (max - value) / (max - min) : (value - min) / (max - min);
+    });
   }
 
-  private estimateCost(lab: LabInfo): number {
-    // Estimate base cost for typical analysis
-    const instrumentCost = 50 * lab.pricing.instrumentRate;
+  /**
+   * Weights of a built-in strategy, the lone scorer a custom strategy names,
+   * or the routing weights for 'weighted'. Unknown strategies rank as 'balanced'.
+   */
+  private getWeights(strategy: string, routing?: RoutingOptions): RoutingWeights {
+    const builtIn = STRATEGY_WEIGHTS.get(strategy);
+    if (builtIn) return builtIn;
+    if (this.scorers.has(strategy)) return { [strategy]: 1 };
+    if (strategy !== 'weighted') return DEFAULT_ROUTING_WEIGHTS;
+
+    const weights = routing?.weights || DEFAULT_ROUTING_WEIGHTS;
+
+    Object.entries(weights).forEach(([criterion, weight]) => {
+      if (!(ROUTING_CRITERIA as string[]).includes(criterion) && !this.scorers.has(criterion)) {
+        throw new Error(`Unknown routing criterion ${criterion}`);
+      }
+
+      if (!Number.isFinite(weight) || weight < 0) {
+        throw new Error(`Weight for ${criterion} must be a number of at least 0`);
+      }
+    });
+
+    return weights;
+  }
+
+  private estimateCost(lab: LabInfo, instrument?: InstrumentType): number {
+    // Estimate base cost for typical analysis, using the instrument's own price when published
+    const offering = instrument ? this.registry.getOffering(lab, instrument) : undefined;
+    const instrumentCost = offering ? offering.pricePerRun : 50 * lab.pricing.instrumentRate;
     const computeCost = 10 * lab.pricing.computeRate;
     const aiCost = lab.pricing.aiRate;
     
     return instrumentCost + computeCost + aiCost;
   }
 
-  private generateReasoning(lab: LabInfo, strategy: string): string {
+  private generateReasoning(lab: LabInfo, instrument: InstrumentType, strategy: string, routing?: RoutingOptions): string {
     const reasons: string[] = [];
+    const distance = this.getDistance(lab);
+    const shipping = this.estimateShipping(lab, routing?.storageConditions);
+    const landedCost = this.estimateLandedCost(lab, instrument, routing);
 
     switch (strategy) {
       case 'cost-optimized':
-        reasons.push(`Lowest cost at ~$${this.estimateCost(lab).toFixed(2)}`);
+        reasons.push(`Lowest cost at ~${this.formatAmount(this.estimateCost(lab, instrument), this.currencyOf(lab))}`);
         break;
       case 'fastest':
         reasons.push(`Low load (${lab.currentLoad}%) and high uptime (${lab.uptime}%)`);
@@ -203,11 +479,46 @@ export class Router {
         reasons.push(`Highest quality rating (${lab.quality}/5 stars)`);
         break;
       case 'nearest':
-        reasons.push(`Closest to your location`);
+        reasons.push(distance !== undefined
+          ? `Closest to your location (${Math.round(distance)} km)`
+          : `Closest to your location`);
         break;
       case 'balanced':
         reasons.push(`Best overall balance of cost, quality, and availability`);
         break;
+      case 'fastest-turnaround':
+        reasons.push(`Fastest turnaround at ~${Math.round(this.estimateTurnaround(lab, routing))} hours (${shipping ? `${shipping.transitTime}h shipping, ` : ''}~${this.estimateWait(lab)}h queue)`);
+        break;
+      case 'lowest-landed-cost':
+        reasons.push(landedCost !== undefined
+          ? `Lowest landed cost at ~${this.formatAmount(landedCost, this.currencyOf(lab))}${shipping ? ` including ${this.formatAmount(shipping.cost, shipping.currency)} shipping` : ''}`
+          : `Lowest landed cost`);
+        break;
+      case 'weighted':
+        reasons.push(`Best weighted score (${this.describeWeights(this.getWeights(strategy, routing))})`);
+        break;
+      default:
+        if (this.scorers.has(strategy)) {
+          reasons.push(`Best ${strategy} score`);
+        }
+        break;
+    }
+
+    if (distance !== undefined && strategy !== 'nearest') {
+      reasons.push(`${Math.round(distance)} km from your location`);
+    }
+
+    if (shipping) {
+      const notes = [
+        shipping.international ? 'international' : 'domestic',
+        shipping.coldChain !== 'ambient' ? `${shipping.coldChain} cold chain` : undefined
+      ].filter(Boolean).join(', ');
+      reasons.push(`Ships in ~${shipping.transitTime}h for ${this.formatAmount(shipping.cost, shipping.currency)} (${notes})`);
+    }
+
+    const offering = this.registry.getOffering(lab, instrument);
+    if (offering) {
+      reasons.push(`Runs ${offering.model} (${offering.resolution}, ${offering.throughput})`);
     }
 
     if (lab.quality >= 4.5) {
@@ -225,17 +536,111 @@ export class Router {
     return reasons.join('. ');
   }
 
-  getLabPricing(instrument: InstrumentType): LabPricing[] {
+  /**
+   * Criteria that count towards a weighted score
+   */
+  private activeWeights(weights: RoutingWeights): Array<[string, number]> {
+    return Object.entries(weights)
+      .filter(([criterion, weight]) => weight > 0 && (criterion !== 'distance' || !!this.userLocation));
+  }
+
+  private describeWeights(weights: RoutingWeights): string {
+    const criteria = this.activeWeights(weights);
+    const total = criteria.reduce((sum, [, weight]) => sum + weight, 0);
+
+    return criteria
+      .map(([criterion, weight]) => `${criterion} ${Math.round(weight / total * 100)}%`)
+      .join(', ');
+  }
+
+  getLabPricing(instrument: InstrumentType, storageConditions?: string): LabPricing[] {
     const labs = this.registry.getLabsByInstrument(instrument);
 
-    return labs.map(lab => ({
-      lab: lab.id,
-      labName: lab.name,
-      price: this.estimateCost(lab),
-      quality: lab.quality,
-      eta: this.estimateETA(lab),
-      available: lab.availability > 0 && lab.currentLoad < 90
-    })).sort((a, b) => a.price - b.price);
+    return labs.map(lab => {
+      const shipping = this.estimateShipping(lab, storageConditions);
+
+      return {
+        lab: lab.id,
+        labName: lab.name,
+        price: this.estimateCost(lab, instrument),
+        currency: this.currencyOf(lab),
+        quality: lab.quality,
+        eta: this.estimateETA(lab),
+        available: this.registry.isAvailable(lab),
+        model: this.registry.getOffering(lab, instrument)?.model,
+        distance: this.getDistance(lab),
+        shipping,
+        landedCost: shipping ? this.addShipping(lab, instrument, shipping) : undefined
+      };
+    }).sort((a, b) => a.price - b.price);
+  }
+
+  /**
+   * Shipping a sample from the user's location to `lab`; undefined when we
+   * don't know where the user is
+   */
+  estimateShipping(lab: LabInfo, storageConditions?: string): ShippingEstimate | undefined {
+    if (!this.userLocation) return undefined;
+
+    return this.logistics.estimate(lab, this.getDistance(lab), this.userLocation.country, storageConditions);
+  }
+
+  /**
+   * Hours until the lab can start on the sample: shipping transit plus queue wait
+   */
+  private estimateTurnaround(lab: LabInfo, routing?: RoutingOptions): number {
+    const shipping = this.estimateShipping(lab, routing?.storageConditions);
+    return (shipping?.transitTime || 0) + this.estimateWait(lab);
+  }
+
+  /**
+   * Price plus shipping; undefined (unmeasured) when shipping is quoted in
+   * another currency than the lab's prices
+   */
+  private estimateLandedCost(lab: LabInfo, instrument: InstrumentType, routing?: RoutingOptions): number | undefined {
+    const shipping = this.estimateShipping(lab, routing?.storageConditions);
+    return shipping ? this.addShipping(lab, instrument, shipping) : this.estimateCost(lab, instrument);
+  }
+
+  private addShipping(lab: LabInfo, instrument: InstrumentType, shipping: ShippingEstimate): number | undefined {
+    if (shipping.currency !== this.currencyOf(lab)) return undefined;
+
+    return this.estimateCost(lab, instrument) + shipping.cost;
+  }
+
+  private currencyOf(lab: LabInfo): string {
+    return (lab.pricing.currency || 'USD').toUpperCase();
+  }
+
+  private formatAmount(amount: number, currency: string): string {
+    return currency === 'USD' ? `$${amount.toFixed(2)}` : `${amount.toFixed(2)} ${currency}`;
+  }
+
+  /**
+   * Queue wait in hours, matching the estimateETA() bands
+   */
+  private estimateWait(lab: LabInfo): number {
+    if (lab.currentLoad < 30) return 0.5;
+    if (lab.currentLoad < 60) return 1.5;
+    if (lab.currentLoad < 80) return 3;
+    return 6;
+  }
+
+  /**
+   * km from the user's location, placing labs without coordinates by their
+   * location in the gazetteer; undefined when either end is unknown
+   */
+  private getDistance(lab: LabInfo): number | undefined {
+    if (!this.userLocation) return undefined;
+
+    let coordinates = lab.coordinates;
+    if (!coordinates) {
+      const matches = geocode(lab.location);
+      if (matches.length !== 1) return undefined;
+      coordinates = matches[0];
+    }
+
+    return this.registry.calculateDistance({ ...lab, coordinates }, this.userLocation.lat, this.userLocation.lon);
   }
 
   private estimateETA(lab: LabInfo): string {
@@ -260,7 +665,7 @@ export class Router {
     // Try each fallback lab
     for (const fallback of sorted) {
       const lab = this.registry.getLabById(fallback.lab);
-      if (lab && lab.availability > 0 && lab.currentLoad < 90) {
+      if (lab && this.registry.isAvailable(lab)) {
         return lab;
       }
     }
@@ -0,0 +1,60 @@
+// StaticRateProvider - exchange rates from a fixed table (offline use and tests)
+
+import type { CurrencyCode, ExchangeRate, RateProvider } from './payment-types';
+import { UnsupportedCurrencyError } from './errors';
+
+// Units per 1 USD
+export const DEFAULT_EXCHANGE_RATES: Record<CurrencyCode, number> = {
+  USD: 1,
+  USDC: 1,
+  USDT: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 150,
+  CHF: 0.88,
+  SOL: 0.0067 // ~$150 per SOL
+};
+
+export class StaticRateProvider implements RateProvider {
+  private table: Record<CurrencyCode, number>;
+  private ttl?: number;
+
+  /**
+   * @param table Units of each currency per 1 USD; merged over the defaults
+   * @param ttl How long a quoted rate stays valid (ms); unlimited when omitted
+   */
+  constructor(table: Record<CurrencyCode, number> = {}, ttl?: number) {
+    this.table = { ...DEFAULT_EXCHANGE_RATES, ...table };
+    this.ttl = ttl;
+  }
+
+  async getRate(from: CurrencyCode, to: CurrencyCode): Promise<ExchangeRate> {
+    const quotedAt = Date.now();
+
+    return {
+      from,
+      to,
+      rate: this.perUsd(to) / this.perUsd(from),
+      quotedAt,
+      expiresAt: this.ttl !== undefined ? quotedAt + this.ttl : undefined
+    };
+  }
+
+  setRate(currency: CurrencyCode, perUsd: number): void {
+    this.table[currency.toUpperCase()] = perUsd;
+  }
+
+  getCurrencies(): CurrencyCode[] {
+    return Object.keys(this.table);
+  }
+
+  private perUsd(currency: CurrencyCode): number {
+    const rate = this.table[currency.toUpperCase()];
+
+    if (!rate || rate <= 0) {
+      throw new UnsupportedCurrencyError(currency);
+    }
+
+    return rate;
+  }
+}
@@ -0,0 +1,21 @@
+// Transport helpers shared by the SDK clients
+
+import type { Transport, TransportRequest } from './transport-types';
+import { TransportError } from './errors';
+
+/**
+ * Send a request and return the response body, throwing a TransportError
+ * for any non-2xx status
+ */
+export async function sendRequest<T = any>(
+  transport: Transport,
+  request: TransportRequest
+): Promise<T> {
+  const response = await transport.request<T>(request);
+
+  if (response.status < 200 || response.status >= 300) {
+    throw TransportError.fromResponse(request, response);
+  }
+
+  return response.data;
+}
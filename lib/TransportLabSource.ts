@@ -0,0 +1,24 @@
+// TransportLabSource - lab catalog served by a gateway endpoint
+
+import type { Transport } from './transport-types';
+import type { LabSource } from './registry-types';
+import { sendRequest } from './Transport';
+
+export class TransportLabSource implements LabSource {
+  public readonly name: string;
+  private transport: Transport;
+  private path: string;
+
+  constructor(transport: Transport, path: string = '/labs') {
+    this.name = path;
+    this.transport = transport;
+    this.path = path;
+  }
+
+  async load(): Promise<unknown> {
+    return sendRequest<unknown>(this.transport, {
+      method: 'GET',
+      path: this.path
+    });
+  }
+}
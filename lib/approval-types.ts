@@ -0,0 +1,69 @@
+// Approval Types for Lab402+
+
+import type { InstrumentType, LabInfo, ResearcherIdentity } from './types';
+import type { AccessDecision } from './policy-types';
+import type { SignedCredential, IdentityProof, ProofVerifierOptions } from './identity-types';
+
+// Every condition that is set must hold for a rule to apply
+export interface ApprovalRule {
+  id: string;
+  description?: string;
+  instruments?: InstrumentType[]; // Any of
+  minAmount?: number; // USD, invoices at or above it
+  approvers?: string[]; // Researcher IDs; anyone but the requester when unset
+  requiredApprovals?: number; // Default 1
+}
+
+export interface ApprovalContext {
+  instrument: InstrumentType;
+  amount: number; // USD
+  identity: ResearcherIdentity;
+  lab?: LabInfo;
+  decision?: AccessDecision; // A require-approval policy decision adds its own requirement
+}
+
+// One rule's share of an approval; all must be met
+export interface ApprovalRequirement {
+  rule: string;
+  reason: string;
+  requiredApprovals: number;
+  approvers?: string[];
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface ApprovalSignoff {
+  approver: string; // Researcher ID, derived from the verified key
+  publicKey: string; // Key that proved the sign-off
+  credentialId: string;
+  decision: 'approve' | 'reject';
+  comment?: string;
+  timestamp: number;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  subject: string; // Analysis ID
+  instrument: InstrumentType;
+  amount: number; // USD
+  requester: string; // Researcher ID
+  delegate?: string; // Public key when requested under a delegation
+  requirements: ApprovalRequirement[];
+  status: ApprovalStatus;
+  signoffs: ApprovalSignoff[];
+  createdAt: number;
+  resolvedAt?: number;
+}
+
+export interface ApprovalManagerOptions {
+  trustedIssuers?: string[]; // Issuers whose credentials approvers may present
+  revoked?: string[]; // Revoked credential IDs
+  proofs?: ProofVerifierOptions; // Freshness of approver proofs, audience defaults to 'lab402-approvals'
+}
+
+// An approver's credential plus proof that they hold its key, answering a
+// challenge issued for the approval
+export interface ApproverSignature {
+  credential: SignedCredential;
+  proof: IdentityProof;
+}
@@ -0,0 +1,52 @@
+// Audit Log Types for Lab402+
+
+export type AuditEventType =
+  | 'access.check'
+  | 'analysis.request'
+  | 'sample.status'
+  | 'payment';
+
+export interface AuditRecord {
+  sequence: number; // 0-based, contiguous
+  type: AuditEventType;
+  subject: string; // Instrument, analysis, sample or invoice ID
+  actor?: string; // Researcher ID or wallet address
+  data: Record<string, any>;
+  timestamp: number;
+  prevHash: string; // Hash of the previous record, GENESIS_HASH for the first
+  hash: string; // sha256 over every other field
+}
+
+// Stands in for a stored record that could not be parsed
+export interface UnreadableAuditRecord {
+  unreadable: true;
+  error: string;
+}
+
+export interface AuditStore {
+  load(): Array<AuditRecord | UnreadableAuditRecord>; // In stored order
+  append(record: AuditRecord): void;
+}
+
+export interface AuditQuery {
+  type?: AuditEventType | AuditEventType[];
+  subject?: string;
+  actor?: string;
+  from?: number; // Timestamp, inclusive
+  to?: number; // Timestamp, inclusive
+}
+
+export type AuditIssueType = 'hash-mismatch' | 'broken-link' | 'sequence-gap' | 'head-mismatch' | 'unreadable-record';
+
+export interface AuditIssue {
+  type: AuditIssueType;
+  sequence: number; // Record where the problem was found
+  message: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  recordsChecked: number;
+  head: string; // Hash of the last record
+  issues: AuditIssue[];
+}
@@ -0,0 +1,53 @@
+// Budget Types for Lab402+
+
+export type BudgetWindow = 'hour' | 'day' | 'week' | 'month' | 'total';
+
+// Unset fields match any researcher / project
+export interface BudgetScope {
+  researcher?: string; // Researcher identity ID
+  project?: string; // Project tag from the request
+}
+
+export interface BudgetLimit {
+  id: string;
+  scope: BudgetScope;
+  window: BudgetWindow; // Rolling window; 'total' never resets
+  hardLimit?: number; // USD, requests that would exceed it are rejected
+  softLimit?: number; // USD, crossing it emits budget.warning
+  maxPerRequest?: number; // USD, cap on a single invoice or batch
+}
+
+export interface SpendContext {
+  researcher: string;
+  project?: string;
+}
+
+// Spend held against budgets while a batch invoice is unpaid
+export interface SpendHold {
+  claim(): void; // Authorize the spend again if it was released; throws BudgetExceededError
+  release(): void; // Credit the spend back if it is still held
+}
+
+export interface SpendRecord extends SpendContext {
+  amount: number; // USD, negative for refunds and released escrow
+  reference: string; // Analysis or batch ID
+  timestamp: number; // For credits, when the spend they cancel was recorded
+}
+
+export interface BudgetStatus {
+  limit: BudgetLimit;
+  spent: number; // USD within the current window
+  remaining?: number; // USD until the hard limit
+  softRemaining?: number; // USD until the soft limit
+  windowStart: number; // 0 for 'total'
+}
+
+export type BudgetCheckOutcome = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetCheck {
+  outcome: BudgetCheckOutcome;
+  amount: number; // USD requested
+  statuses: BudgetStatus[]; // Limits that apply to the context
+  warnings: BudgetLimit[]; // Soft limits crossed
+  exceeded: BudgetLimit[]; // Hard limits that would be broken
+}
@@ -0,0 +1,90 @@
+// Ed25519 and base58 helpers used by wallet signers and the local chain
+
+import { createPrivateKey, createPublicKey, randomBytes, sign, verify } from 'crypto';
+
+const PKCS8_ED25519_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const SPKI_ED25519_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export interface Ed25519Keypair {
+  publicKey: Uint8Array; // 32 bytes
+  secretKey: Uint8Array; // 32-byte seed
+}
+
+export function generateKeypair(seed?: Uint8Array): Ed25519Keypair {
+  const secretKey = seed ? Uint8Array.from(seed) : new Uint8Array(randomBytes(32));
+
+  if (secretKey.length !== 32) {
+    throw new Error('Ed25519 seed must be 32 bytes');
+  }
+
+  const publicDer = createPublicKey(toPrivateKey(secretKey)).export({ format: 'der', type: 'spki' });
+
+  return {
+    publicKey: new Uint8Array(publicDer.subarray(SPKI_ED25519_PREFIX.length)),
+    secretKey
+  };
+}
+
+export function signBytes(secretKey: Uint8Array, message: Uint8Array): Uint8Array {
+  return new Uint8Array(sign(null, message, toPrivateKey(secretKey)));
+}
+
+export function verifyBytes(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([SPKI_ED25519_PREFIX, publicKey]),
+      format: 'der',
+      type: 'spki'
+    });
+    return verify(null, message, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+export function encodeBase58(bytes: Uint8Array): string {
+  let value = BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
+  let encoded = '';
+
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value = value / 58n;
+  }
+
+  // Leading zero bytes map to leading '1's
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+
+  return encoded;
+}
+
+export function decodeBase58(encoded: string): Uint8Array {
+  let value = 0n;
+
+  for (const char of encoded) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  let hex = value > 0n ? value.toString(16) : '';
+  if (hex.length % 2) hex = '0' + hex;
+
+  let leadingZeros = 0;
+  while (encoded[leadingZeros] === '1') leadingZeros++;
+
+  return new Uint8Array(Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(hex, 'hex')]));
+}
+
+function toPrivateKey(secretKey: Uint8Array) {
+  return createPrivateKey({
+    key: Buffer.concat([PKCS8_ED25519_PREFIX, secretKey]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+}
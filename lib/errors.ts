@@ -0,0 +1,342 @@
+// Lab402+ Errors
+
+import type { TransportRequest, TransportResponse } from './transport-types';
+import type { AccessDecision } from './policy-types';
+import type { ApprovalRequest } from './approval-types';
+import type { LabValidationIssue } from './registry-types';
+import type { Reservation } from './schedule-types';
+import type { LabElimination } from './types';
+
+export class Lab402Error extends Error {
+  public readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'Lab402Error';
+    this.code = code;
+  }
+}
+
+export class TransportError extends Lab402Error {
+  public readonly status?: number;
+  public readonly request: TransportRequest;
+  public readonly response?: TransportResponse;
+
+  constructor(
+    message: string,
+    request: TransportRequest,
+    response?: TransportResponse
+  ) {
+    super(message, 'TRANSPORT_ERROR');
+    this.name = 'TransportError';
+    this.request = request;
+    this.response = response;
+    this.status = response?.status;
+  }
+
+  static fromResponse(request: TransportRequest, response: TransportResponse): TransportError {
+    const detail = typeof response.data === 'object' && response.data?.error
+      ? `: ${response.data.error}`
+      : '';
+
+    return new TransportError(
+      `${request.method} ${request.path} failed with status ${response.status}${detail}`,
+      request,
+      response
+    );
+  }
+}
+
+export class InvoiceExpiredError extends Lab402Error {
+  public readonly invoiceId: string;
+  public readonly expiresAt: number;
+
+  constructor(invoiceId: string, expiresAt: number) {
+    super(`Invoice ${invoiceId} expired at ${new Date(expiresAt).toISOString()}`, 'INVOICE_EXPIRED');
+    this.name = 'InvoiceExpiredError';
+    this.invoiceId = invoiceId;
+    this.expiresAt = expiresAt;
+  }
+}
+
+export class PaymentRejectedError extends Lab402Error {
+  public readonly invoiceId: string;
+  public readonly reason: string;
+
+  constructor(invoiceId: string, reason: string) {
+    super(`Payment for invoice ${invoiceId} rejected: ${reason}`, 'PAYMENT_REJECTED');
+    this.name = 'PaymentRejectedError';
+    this.invoiceId = invoiceId;
+    this.reason = reason;
+  }
+}
+
+export class PaymentProtocolError extends Lab402Error {
+  constructor(message: string) {
+    super(message, 'PAYMENT_PROTOCOL_ERROR');
+    this.name = 'PaymentProtocolError';
+  }
+}
+
+export class InsufficientFundsError extends Lab402Error {
+  public readonly address: string;
+  public readonly balance: number;
+  public readonly required: number;
+
+  constructor(address: string, balance: number, required: number) {
+    super(
+      `Insufficient funds in ${address}: balance ${balance.toFixed(4)}, required ${required.toFixed(4)}`,
+      'INSUFFICIENT_FUNDS'
+    );
+    this.name = 'InsufficientFundsError';
+    this.address = address;
+    this.balance = balance;
+    this.required = required;
+  }
+}
+
+export class InvalidSignatureError extends Lab402Error {
+  constructor(message: string) {
+    super(message, 'INVALID_SIGNATURE');
+    this.name = 'InvalidSignatureError';
+  }
+}
+
+export class InvoiceStateError extends Lab402Error {
+  public readonly invoiceId: string;
+  public readonly status: string;
+
+  constructor(invoiceId: string, status: string, action: string) {
+    super(`Cannot ${action} invoice ${invoiceId}: invoice is ${status}`, 'INVOICE_STATE');
+    this.name = 'InvoiceStateError';
+    this.invoiceId = invoiceId;
+    this.status = status;
+  }
+}
+
+export class EscrowError extends Lab402Error {
+  public readonly escrowId: string;
+
+  constructor(escrowId: string, message: string) {
+    super(`Escrow ${escrowId}: ${message}`, 'ESCROW_ERROR');
+    this.name = 'EscrowError';
+    this.escrowId = escrowId;
+  }
+}
+
+export class BudgetExceededError extends Lab402Error {
+  public readonly limitId: string;
+  public readonly amount: number;
+  public readonly remaining: number;
+
+  constructor(limitId: string, amount: number, remaining: number) {
+    super(
+      `Budget ${limitId} exceeded: $${amount.toFixed(2)} requested, $${Math.max(remaining, 0).toFixed(2)} remaining`,
+      'BUDGET_EXCEEDED'
+    );
+    this.name = 'BudgetExceededError';
+    this.limitId = limitId;
+    this.amount = amount;
+    this.remaining = remaining;
+  }
+}
+
+export class UnsupportedCurrencyError extends Lab402Error {
+  public readonly currency: string;
+
+  constructor(currency: string) {
+    super(`Unsupported currency: ${currency}`, 'UNSUPPORTED_CURRENCY');
+    this.name = 'UnsupportedCurrencyError';
+    this.currency = currency;
+  }
+}
+
+export class CredentialError extends Lab402Error {
+  public readonly credentialId: string;
+
+  constructor(credentialId: string, message: string, code: string = 'CREDENTIAL_INVALID') {
+    super(message, code);
+    this.name = 'CredentialError';
+    this.credentialId = credentialId;
+  }
+}
+
+export class CredentialExpiredError extends CredentialError {
+  public readonly expiresAt: number;
+
+  constructor(credentialId: string, expiresAt: number) {
+    super(
+      credentialId,
+      `Credential ${credentialId} expired at ${new Date(expiresAt).toISOString()}`,
+      'CREDENTIAL_EXPIRED'
+    );
+    this.name = 'CredentialExpiredError';
+    this.expiresAt = expiresAt;
+  }
+}
+
+export class CredentialRevokedError extends CredentialError {
+  constructor(credentialId: string) {
+    super(credentialId, `Credential ${credentialId} has been revoked`, 'CREDENTIAL_REVOKED');
+    this.name = 'CredentialRevokedError';
+  }
+}
+
+export class UntrustedIssuerError extends CredentialError {
+  public readonly issuer: string;
+
+  constructor(credentialId: string, issuer: string) {
+    super(credentialId, `Credential ${credentialId} was issued by untrusted key ${issuer}`, 'UNTRUSTED_ISSUER');
+    this.name = 'UntrustedIssuerError';
+    this.issuer = issuer;
+  }
+}
+
+export class AccessDeniedError extends Lab402Error {
+  public readonly instrument: string;
+  public readonly decision: AccessDecision;
+
+  constructor(instrument: string, decision: AccessDecision) {
+    super(`Access to ${instrument} denied. ${decision.explanation}`, 'ACCESS_DENIED');
+    this.name = 'AccessDeniedError';
+    this.instrument = instrument;
+    this.decision = decision;
+  }
+}
+
+export class ApprovalError extends Lab402Error {
+  public readonly approvalId?: string;
+
+  constructor(approvalId: string | undefined, message: string, code: string = 'APPROVAL_INVALID') {
+    super(message, code);
+    this.name = 'ApprovalError';
+    this.approvalId = approvalId;
+  }
+}
+
+export class ApprovalRequiredError extends ApprovalError {
+  public readonly subject: string;
+  public readonly reasons: string[];
+
+  constructor(subject: string, reasons: string[], approvalId?: string) {
+    super(approvalId, `${subject} needs approval: ${reasons.join('; ')}`, 'APPROVAL_REQUIRED');
+    this.name = 'ApprovalRequiredError';
+    this.subject = subject;
+    this.reasons = reasons;
+  }
+}
+
+export class ApprovalRejectedError extends ApprovalError {
+  public readonly approval: ApprovalRequest;
+
+  constructor(approval: ApprovalRequest) {
+    const rejection = approval.signoffs.find(s => s.decision === 'reject');
+    super(
+      approval.id,
+      rejection
+        ? `Approval ${approval.id} rejected by ${rejection.approver}${rejection.comment ? `: ${rejection.comment}` : ''}`
+        : `Approval ${approval.id} was ${approval.status}`,
+      'APPROVAL_REJECTED'
+    );
+    this.name = 'ApprovalRejectedError';
+    this.approval = approval;
+  }
+}
+
+export class DelegationError extends Lab402Error {
+  public readonly tokenId?: string;
+
+  constructor(message: string, tokenId?: string, code: string = 'DELEGATION_INVALID') {
+    super(message, code);
+    this.name = 'DelegationError';
+    this.tokenId = tokenId;
+  }
+}
+
+export class DelegationExpiredError extends DelegationError {
+  public readonly expiresAt: number;
+
+  constructor(tokenId: string, expiresAt: number) {
+    super(`Delegation ${tokenId} expired at ${new Date(expiresAt).toISOString()}`, tokenId, 'DELEGATION_EXPIRED');
+    this.name = 'DelegationExpiredError';
+    this.expiresAt = expiresAt;
+  }
+}
+
+export class DelegationScopeError extends DelegationError {
+  constructor(tokenId: string, message: string) {
+    super(message, tokenId, 'DELEGATION_SCOPE');
+    this.name = 'DelegationScopeError';
+  }
+}
+
+export class LabValidationError extends Lab402Error {
+  public readonly labId?: string;
+  public readonly issues: LabValidationIssue[];
+
+  constructor(labId: string | undefined, issues: LabValidationIssue[]) {
+    super(
+      `Invalid lab${labId ? ` ${labId}` : ''}: ${issues.map(issue => `${issue.field} ${issue.message}`).join('; ')}`,
+      'LAB_INVALID'
+    );
+    this.name = 'LabValidationError';
+    this.labId = labId;
+    this.issues = issues;
+  }
+}
+
+export class LabRegistrationError extends Lab402Error {
+  public readonly labId: string;
+
+  constructor(labId: string, message: string, code: string = 'LAB_NOT_FOUND') {
+    super(message, code);
+    this.name = 'LabRegistrationError';
+    this.labId = labId;
+  }
+}
+
+export class ReservationError extends Lab402Error {
+  public readonly reservationId?: string;
+
+  constructor(reservationId: string | undefined, message: string, code: string = 'RESERVATION_INVALID') {
+    super(message, code);
+    this.name = 'ReservationError';
+    this.reservationId = reservationId;
+  }
+}
+
+export class ReservationConflictError extends ReservationError {
+  public readonly conflicts: Reservation[];
+
+  constructor(labId: string, instrument: string, conflicts: Reservation[]) {
+    super(
+      undefined,
+      `${instrument} at ${labId} is already booked: ${conflicts.map(c => `${new Date(c.start).toISOString()}–${new Date(c.end).toISOString()}`).join(', ')}`,
+      'RESERVATION_CONFLICT'
+    );
+    this.name = 'ReservationConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+export class LocationError extends Lab402Error {
+  public readonly location: string;
+
+  constructor(location: string, message: string, code: string = 'LOCATION_UNKNOWN') {
+    super(message, code);
+    this.name = 'LocationError';
+    this.location = location;
+  }
+}
+
+export class RoutingError extends Lab402Error {
+  public readonly instrument: string;
+  public readonly eliminated: LabElimination[];
+
+  constructor(instrument: string, message: string, eliminated: LabElimination[], code: string = 'NO_LABS_MATCH') {
+    super(message, code);
+    this.name = 'RoutingError';
+    this.instrument = instrument;
+    this.eliminated = eliminated;
+  }
+}
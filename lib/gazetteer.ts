@@ -0,0 +1,176 @@
+// Offline gazetteer of research hubs, used to geocode city names without a network lookup
+
+import type { GeoLocation, GazetteerEntry } from './types';
+import { LocationError } from './errors';
+
+export const GAZETTEER: GazetteerEntry[] = [
+  // North America
+  { city: 'Boston', region: 'MA', country: 'US', lat: 42.3601, lon: -71.0589 },
+  { city: 'Cambridge', region: 'MA', country: 'US', lat: 42.3736, lon: -71.1097 },
+  { city: 'New York', region: 'NY', country: 'US', lat: 40.7128, lon: -74.0060, aliases: ['NYC'] },
+  { city: 'Philadelphia', region: 'PA', country: 'US', lat: 39.9526, lon: -75.1652 },
+  { city: 'Pittsburgh', region: 'PA', country: 'US', lat: 40.4406, lon: -79.9959 },
+  { city: 'Baltimore', region: 'MD', country: 'US', lat: 39.2904, lon: -76.6122 },
+  { city: 'Bethesda', region: 'MD', country: 'US', lat: 38.9847, lon: -77.0947 },
+  { city: 'Washington', region: 'DC', country: 'US', lat: 38.9072, lon: -77.0369 },
+  { city: 'Durham', region: 'NC', country: 'US', lat: 35.9940, lon: -78.8986 },
+  { city: 'Chapel Hill', region: 'NC', country: 'US', lat: 35.9132, lon: -79.0558 },
+  { city: 'Atlanta', region: 'GA', country: 'US', lat: 33.7490, lon: -84.3880 },
+  { city: 'Chicago', region: 'IL', country: 'US', lat: 41.8781, lon: -87.6298 },
+  { city: 'Ann Arbor', region: 'MI', country: 'US', lat: 42.2808, lon: -83.7430 },
+  { city: 'Madison', region: 'WI', country: 'US', lat: 43.0731, lon: -89.4012 },
+  { city: 'Minneapolis', region: 'MN', country: 'US', lat: 44.9778, lon: -93.2650 },
+  { city: 'St. Louis', region: 'MO', country: 'US', lat: 38.6270, lon: -90.1994, aliases: ['Saint Louis'] },
+  { city: 'Houston', region: 'TX', country: 'US', lat: 29.7604, lon: -95.3698 },
+  { city: 'Austin', region: 'TX', country: 'US', lat: 30.2672, lon: -97.7431 },
+  { city: 'Denver', region: 'CO', country: 'US', lat: 39.7392, lon: -104.9903 },
+  { city: 'Salt Lake City', region: 'UT', country: 'US', lat: 40.7608, lon: -111.8910 },
+  { city: 'Seattle', region: 'WA', country: 'US', lat: 47.6062, lon: -122.3321 },
+  { city: 'San Francisco', region: 'CA', country: 'US', lat: 37.7749, lon: -122.4194, aliases: ['SF'] },
+  { city: 'Stanford', region: 'CA', country: 'US', lat: 37.4275, lon: -122.1697 },
+  { city: 'Palo Alto', region: 'CA', country: 'US', lat: 37.4419, lon: -122.1430 },
+  { city: 'Berkeley', region: 'CA', country: 'US', lat: 37.8715, lon: -122.2730 },
+  { city: 'Los Angeles', region: 'CA', country: 'US', lat: 34.0522, lon: -118.2437, aliases: ['LA'] },
+  { city: 'Pasadena', region: 'CA', country: 'US', lat: 34.1478, lon: -118.1445 },
+  { city: 'San Diego', region: 'CA', country: 'US', lat: 32.7157, lon: -117.1611 },
+  { city: 'Toronto', region: 'ON', country: 'CA', lat: 43.6532, lon: -79.3832 },
+  { city: 'Montreal', region: 'QC', country: 'CA', lat: 45.5017, lon: -73.5673 },
+  { city: 'Vancouver', region: 'BC', country: 'CA', lat: 49.2827, lon: -123.1207 },
+
+  // Europe
+  { city: 'London', country: 'UK', lat: 51.5074, lon: -0.1278 },
+  { city: 'Oxford', country: 'UK', lat: 51.7520, lon: -1.2577 },
+  { city: 'Cambridge', country: 'UK', lat: 52.2053, lon: 0.1218 },
+  { city: 'Edinburgh', country: 'UK', lat: 55.9533, lon: -3.1883 },
+  { city: 'Manchester', country: 'UK', lat: 53.4808, lon: -2.2426 },
+  { city: 'Dublin', country: 'IE', lat: 53.3498, lon: -6.2603 },
+  { city: 'Paris', country: 'FR', lat: 48.8566, lon: 2.3522 },
+  { city: 'Berlin', country: 'DE', lat: 52.5200, lon: 13.4050 },
+  { city: 'Heidelberg', country: 'DE', lat: 49.3988, lon: 8.6724 },
+  { city: 'Munich', country: 'DE', lat: 48.1351, lon: 11.5820, aliases: ['München'] },
+  { city: 'Zurich', country: 'CH', lat: 47.3769, lon: 8.5417, aliases: ['Zürich'] },
+  { city: 'Basel', country: 'CH', lat: 47.5596, lon: 7.5886 },
+  { city: 'Geneva', country: 'CH', lat: 46.2044, lon: 6.1432 },
+  { city: 'Amsterdam', country: 'NL', lat: 52.3676, lon: 4.9041 },
+  { city: 'Leiden', country: 'NL', lat: 52.1601, lon: 4.4970 },
+  { city: 'Copenhagen', country: 'DK', lat: 55.6761, lon: 12.5683 },
+  { city: 'Stockholm', country: 'SE', lat: 59.3293, lon: 18.0686 },
+  { city: 'Vienna', country: 'AT', lat: 48.2082, lon: 16.3738 },
+  { city: 'Milan', country: 'IT', lat: 45.4642, lon: 9.1900 },
+  { city: 'Barcelona', country: 'ES', lat: 41.3874, lon: 2.1686 },
+  { city: 'Madrid', country: 'ES', lat: 40.4168, lon: -3.7038 },
+
+  // Asia and Oceania
+  { city: 'Tokyo', country: 'JP', lat: 35.6762, lon: 139.6503 },
+  { city: 'Osaka', country: 'JP', lat: 34.6937, lon: 135.5023 },
+  { city: 'Kyoto', country: 'JP', lat: 35.0116, lon: 135.7681 },
+  { city: 'Seoul', country: 'KR', lat: 37.5665, lon: 126.9780 },
+  { city: 'Beijing', country: 'CN', lat: 39.9042, lon: 116.4074 },
+  { city: 'Shanghai', country: 'CN', lat: 31.2304, lon: 121.4737 },
+  { city: 'Shenzhen', country: 'CN', lat: 22.5431, lon: 114.0579 },
+  { city: 'Hong Kong', country: 'HK', lat: 22.3193, lon: 114.1694 },
+  { city: 'Singapore', country: 'SG', lat: 1.3521, lon: 103.8198 },
+  { city: 'Bangalore', country: 'IN', lat: 12.9716, lon: 77.5946, aliases: ['Bengaluru'] },
+  { city: 'Tel Aviv', country: 'IL', lat: 32.0853, lon: 34.7818 },
+  { city: 'Rehovot', country: 'IL', lat: 31.8928, lon: 34.8113 },
+  { city: 'Sydney', country: 'AU', lat: -33.8688, lon: 151.2093 },
+  { city: 'Melbourne', country: 'AU', lat: -37.8136, lon: 144.9631 },
+  { city: 'Auckland', country: 'NZ', lat: -36.8485, lon: 174.7633 },
+
+  // South America and Africa
+  { city: 'São Paulo', country: 'BR', lat: -23.5505, lon: -46.6333, aliases: ['Sao Paulo'] },
+  { city: 'Cape Town', country: 'ZA', lat: -33.9249, lon: 18.4241 }
+];
+
+// Country names accepted as qualifiers, by the codes LabInfo.country uses
+const COUNTRY_NAMES: Record<string, string[]> = {
+  US: ['usa', 'united states', 'united states of america'],
+  CA: ['canada'],
+  UK: ['gb', 'united kingdom', 'great britain', 'england', 'scotland'],
+  IE: ['ireland'],
+  FR: ['france'],
+  DE: ['germany'],
+  CH: ['switzerland'],
+  NL: ['netherlands'],
+  DK: ['denmark'],
+  SE: ['sweden'],
+  AT: ['austria'],
+  IT: ['italy'],
+  ES: ['spain'],
+  JP: ['japan'],
+  KR: ['korea', 'south korea'],
+  CN: ['china'],
+  HK: ['hong kong'],
+  SG: ['singapore'],
+  IN: ['india'],
+  IL: ['israel'],
+  AU: ['australia'],
+  NZ: ['new zealand'],
+  BR: ['brazil'],
+  ZA: ['south africa']
+};
+
+/**
+ * Gazetteer entries matching "City", "City, Country" or "City, Region, Country".
+ * Qualifiers may be region codes, country codes or country names.
+ */
+export function geocode(query: string): GazetteerEntry[] {
+  const [city, ...qualifiers] = query.split(',').map(normalize).filter(part => part.length > 0);
+  if (!city) return [];
+
+  return GAZETTEER.filter(entry => {
+    const names = [entry.city, ...(entry.aliases || [])].map(normalize);
+    if (!names.includes(city)) return false;
+
+    return qualifiers.every(qualifier =>
+      qualifier === entry.region?.toLowerCase() ||
+      qualifier === entry.country.toLowerCase() ||
+      (COUNTRY_NAMES[entry.country] || []).includes(qualifier)
+    );
+  });
+}
+
+/**
+ * Coordinates (and the country, for a city) for a location given as
+ * coordinates or a city name
+ */
+export function resolveLocation(location: GeoLocation | string): GeoLocation {
+  if (typeof location !== 'string') {
+    const { lat, lon, country } = location;
+
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      throw new LocationError(`${lat},${lon}`, `Invalid coordinates ${lat},${lon}`, 'LOCATION_INVALID');
+    }
+
+    return { lat, lon, country };
+  }
+
+  const matches = geocode(location);
+
+  if (matches.length === 0) {
+    throw new LocationError(location, `Unknown location "${location}"; pass coordinates or a city in the gazetteer`);
+  }
+
+  if (matches.length > 1) {
+    throw new LocationError(
+      location,
+      `"${location}" is ambiguous: ${matches.map(formatEntry).join(' or ')}`,
+      'LOCATION_AMBIGUOUS'
+    );
+  }
+
+  return { lat: matches[0].lat, lon: matches[0].lon, country: matches[0].country };
+}
+
+function formatEntry(entry: GazetteerEntry): string {
+  return [entry.city, entry.region, entry.country].filter(Boolean).join(', ');
+}
+
+function normalize(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+}
@@ -0,0 +1,43 @@
+// Lab Health Types for Lab402+
+
+import type { Transport } from './transport-types';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type LabHealthStatus = 'healthy' | 'degraded' | 'down' | 'unknown';
+
+// Reported by a lab, or returned by its GET /labs/:id/health endpoint
+export interface LabHeartbeat {
+  labId: string;
+  up?: boolean; // Default true
+  load?: number; // 0-100%
+  timestamp?: number; // Defaults to receipt time
+}
+
+export interface HealthSample {
+  up: boolean;
+  load?: number; // 0-100%
+  timestamp: number;
+}
+
+export interface LabHealth {
+  labId: string;
+  status: LabHealthStatus;
+  uptime?: number; // 0-100%, share of up samples in the window
+  load?: number; // 0-100%, mean reported load in the window
+  lastSeen?: number; // Last successful heartbeat or request
+  consecutiveFailures: number;
+  circuit: CircuitState;
+  circuitOpenedAt?: number;
+  samples: number; // Samples in the window
+}
+
+export interface HealthMonitorOptions {
+  transport?: Transport; // Enables polling GET /labs/:id/health
+  labs?: () => string[]; // Lab IDs to poll; defaults to every lab with recorded health
+  window?: number; // Rolling window (ms), default 1 hour
+  heartbeatTimeout?: number; // A lab silent this long (ms) counts as down, default 2 minutes
+  failureThreshold?: number; // Consecutive failures that open the circuit, default 3
+  resetTimeout?: number; // Time (ms) an open circuit waits before a trial request, default 1 minute
+  degradedLoad?: number; // Load (%) reported as degraded, default 80
+}
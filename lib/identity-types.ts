@@ -0,0 +1,140 @@
+// Identity Types for Lab402+
+
+import type { PolicyEngine } from './PolicyEngine';
+import type { AuditLog } from './AuditLog';
+import type { InstrumentType } from './types';
+
+// Claims an issuer (university, lab consortium) attests about a researcher key
+export interface ResearcherCredential {
+  id: string;
+  subject: string; // Researcher public key (base58)
+  issuer: string; // Issuer public key (base58)
+  issuerName?: string;
+  institution: string;
+  clearanceLevel: number; // 1-5
+  credentials: string[]; // ["PhD", "Biosafety Level 2"]
+  specializations: string[];
+  issuedAt: number; // Timestamp
+  expiresAt: number; // Timestamp
+}
+
+export interface SignedCredential {
+  credential: ResearcherCredential;
+  signature: string; // Issuer's ed25519 signature (base58)
+}
+
+export type CredentialClaims = Pick<
+  ResearcherCredential,
+  'institution' | 'clearanceLevel' | 'credentials' | 'specializations'
+>;
+
+// Issued by the gateway; the researcher key signs it to prove possession
+export interface IdentityChallenge {
+  challenge: string;
+  expiresAt: number; // Timestamp
+}
+
+export interface Identity403Options {
+  credential?: SignedCredential; // Presented to the gateway; otherwise it looks one up
+  trustedIssuers?: string[]; // Issuer public keys (base58)
+  revoked?: string[]; // Revoked credential IDs
+  policy?: PolicyEngine; // Access rules, defaults to the clearance table
+  audit?: AuditLog; // Records access checks and analysis requests
+  delegatedSpend?: DelegatedSpendStore; // Spend under delegation tokens, in memory by default
+}
+
+// Proof Types
+
+// Issued by a verifier; a proof is only accepted once per nonce
+export interface ProofChallenge {
+  nonce: string;
+  audience?: string; // Verifier the proof is meant for
+  issuedAt: number; // Timestamp
+  expiresAt: number; // Timestamp
+}
+
+export interface IdentityProof {
+  publicKey: string; // Researcher public key (base58)
+  nonce: string;
+  timestamp: number; // When the proof was produced
+  audience?: string;
+  signature: string; // ed25519 over nonce, timestamp, key and audience (base58)
+}
+
+export type ProofFailureReason =
+  | 'malformed'
+  | 'unknown-nonce'
+  | 'expired-nonce'
+  | 'replayed'
+  | 'stale'
+  | 'future-timestamp'
+  | 'audience-mismatch'
+  | 'key-mismatch'
+  | 'bad-signature';
+
+export interface ProofVerification {
+  valid: boolean;
+  publicKey?: string; // Set when valid
+  reason?: ProofFailureReason;
+  message?: string;
+}
+
+export interface ProofVerifierOptions {
+  audience?: string; // Stamped on issued nonces and required in proofs
+  nonceTtl?: number; // How long an issued nonce can be answered (ms), default 5 minutes
+  maxAge?: number; // Oldest acceptable proof timestamp (ms), default 60s
+  clockSkew?: number; // Allowed future drift (ms), default 5s
+  maxNonces?: number; // Nonce cache size before the oldest are evicted, default 10000
+}
+
+// Delegation Types
+
+export interface DelegationScope {
+  instruments?: InstrumentType[]; // Any instrument the delegator may use when unset
+  maxSpend?: number; // USD across all invoices under this token
+}
+
+export interface DelegationGrant {
+  id: string;
+  issuer: string; // Delegator public key (base58)
+  subject: string; // Delegate public key (base58)
+  parent?: string; // Token this one was re-delegated from
+  scope: DelegationScope;
+  issuedAt: number; // Timestamp
+  expiresAt: number; // Timestamp
+}
+
+export interface DelegationToken {
+  grant: DelegationGrant;
+  signature: string; // Issuer's ed25519 signature (base58)
+}
+
+// What a delegator hands over: their credential plus the token chain, root first
+export interface Delegation {
+  credential: SignedCredential;
+  chain: DelegationToken[];
+}
+
+// Effective limits of a verified chain, attached to the identity it grants
+export interface DelegationContext {
+  tokenId: string; // Last token in the chain
+  chain: string[]; // Token IDs, root first
+  delegator: string; // Credential holder's public key
+  delegate: string; // Public key acting under the delegation
+  instruments?: InstrumentType[];
+  maxSpend?: number; // USD
+  expiresAt: number; // Earliest expiry in the chain
+}
+
+// Spend reserved (positive) or credited back (negative) under one delegation token
+export interface DelegatedSpendEntry {
+  tokenId: string;
+  amount: number; // USD
+  timestamp: number;
+}
+
+// Shared by every client acting under the same tokens, so caps hold across restarts and instances
+export interface DelegatedSpendStore {
+  load(): DelegatedSpendEntry[];
+  append(entry: DelegatedSpendEntry): void;
+}
@@ -1,9 +1,22 @@
 export { Lab402 } from './Lab402';
 export { Analysis } from './Analysis';
-export { Payment402 } from './Payment402';
-export { Identity403 } from './Identity403';
-export { LabRegistry } from './LabRegistry';
-export { Router } from './Router';
+export {
+  Payment402,
+  PAYMENT_PROOF_HEADER,
+  PAYMENT_RECEIPT_HEADER,
+  encodePaymentHeader,
+  decodePaymentHeader
+} from './Payment402';
+export { Identity403, encodeDelegationMessage, checkSignedCredential, deriveResearcherId } from './Identity403';
+export { LabRegistry, validateLabInfo } from './LabRegistry';
+export { FileLabSource } from './FileLabSource';
+export { TransportLabSource } from './TransportLabSource';
+export { HealthMonitor } from './HealthMonitor';
+export { InstrumentScheduler } from './InstrumentScheduler';
+export { JobQueue, DEFAULT_PREEMPTION_RULES } from './JobQueue';
+export { Router, DEFAULT_ROUTING_WEIGHTS } from './Router';
+export { GAZETTEER, geocode, resolveLocation } from './gazetteer';
+export { Logistics, DEFAULT_SHIPPING_RATES, classifyStorage } from './Logistics';
 export { BatchAnalysis } from './BatchAnalysis';
 export { BatchManager } from './BatchManager';
 export { SampleTracker } from './SampleTracker';
@@ -11,15 +24,69 @@ export { AIModelSelector } from './AIModelSelector';
 export { CostOptimizer } from './CostOptimizer';
 export { Pipeline } from './Pipeline';
 export { PipelineTemplates } from './PipelineTemplates';
+export { PaymentLedger } from './PaymentLedger';
+export { RefundPolicy, DEFAULT_REFUND_RATES } from './RefundPolicy';
+export { MemoryLedgerStore } from './MemoryLedgerStore';
+export { JsonFileLedgerStore } from './JsonFileLedgerStore';
+export { MemoryDelegatedSpendStore } from './MemoryDelegatedSpendStore';
+export { JsonLinesDelegatedSpendStore } from './JsonLinesDelegatedSpendStore';
+export { LocalChain, encodeTransferMessage } from './LocalChain';
+export { CredentialIssuer, encodeCredentialMessage } from './CredentialIssuer';
+export { MOCK_ISSUER } from './mock-data';
+export { ProofVerifier, encodeProofMessage } from './ProofVerifier';
+export { PolicyEngine, DEFAULT_ACCESS_RULES, INSTRUMENT_CLEARANCE } from './PolicyEngine';
+export { AuditLog, GENESIS_HASH, hashAuditRecord } from './AuditLog';
+export { ApprovalManager, DEFAULT_APPROVAL_RULES } from './ApprovalManager';
+export { MemoryAuditStore } from './MemoryAuditStore';
+export { JsonLinesAuditStore } from './JsonLinesAuditStore';
+export { LocalKeypairSigner } from './LocalKeypairSigner';
+export { HttpTransport } from './HttpTransport';
+export { MockTransport } from './MockTransport';
+export { BudgetManager } from './BudgetManager';
+export { StaticRateProvider, DEFAULT_EXCHANGE_RATES } from './StaticRateProvider';
+export {
+  Lab402Error,
+  TransportError,
+  InvoiceExpiredError,
+  PaymentRejectedError,
+  PaymentProtocolError,
+  InsufficientFundsError,
+  InvalidSignatureError,
+  InvoiceStateError,
+  EscrowError,
+  BudgetExceededError,
+  UnsupportedCurrencyError,
+  CredentialError,
+  CredentialExpiredError,
+  CredentialRevokedError,
+  UntrustedIssuerError,
+  AccessDeniedError,
+  ApprovalError,
+  ApprovalRequiredError,
+  ApprovalRejectedError,
+  DelegationError,
+  DelegationExpiredError,
+  DelegationScopeError,
+  LabValidationError,
+  LabRegistrationError,
+  ReservationError,
+  ReservationConflictError,
+  LocationError,
+  RoutingError
+} from './errors';
 
 export type {
   Lab402Config,
+  ResolvedLab402Config,
   InstrumentType,
   ComputeTier,
   ComputeRequirements,
   AIRequirements,
   AnalysisRequest,
+  BillingMode,
   UnifiedInvoice,
+  InvoiceAttribution,
+  InvoiceLineItem,
   AnalysisMetrics,
   AnalysisStatus,
   AIReport,
@@ -29,12 +96,25 @@ export type {
   EventType,
   Lab402Event,
   InstrumentCapabilities,
+  InstrumentOffering,
   LabInfo,
+  Coordinates,
+  GeoLocation,
+  GazetteerEntry,
   RoutingStrategy,
+  RoutingCriterion,
+  RoutingWeights,
+  ScoringContext,
+  LabScorer,
   RoutingOptions,
   LabFallback,
   LabSelection,
   LabPricing,
+  RoutingFilter,
+  LabElimination,
+  CriterionScore,
+  CandidateScore,
+  RoutingExplanation,
   BatchSample,
   BatchRequest,
   BatchPricing,
@@ -90,3 +170,160 @@ export type {
   PipelineBuilder,
   PipelineSchedule
 } from './pipeline-types';
+
+export type {
+  HttpMethod,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  HttpTransportOptions,
+  MockRouteHandler,
+  MockTransportOptions
+} from './transport-types';
+
+export type {
+  PaymentRequiredBody,
+  PaymentProof,
+  PaymentReceipt,
+  PaidResponse,
+  InvoiceStatus,
+  InvoiceRecord,
+  CreateInvoiceOptions,
+  CurrencyCode,
+  ExchangeRate,
+  RateProvider,
+  RateQuote,
+  LedgerEntryType,
+  LedgerEntry,
+  LedgerReference,
+  LedgerStore,
+  LedgerQuery,
+  ReconciliationIssueType,
+  ReconciliationIssue,
+  ReconciliationReport,
+  ReconciliationTotals,
+  Payment402Options,
+  EscrowStatus,
+  EscrowCharge,
+  EscrowAccount,
+  RefundStage,
+  RefundComponent,
+  RefundRates,
+  RefundDecision,
+  TransferRequest,
+  SignedTransfer,
+  TransferResult,
+  WalletSigner
+} from './payment-types';
+
+export type {
+  BudgetWindow,
+  BudgetScope,
+  BudgetLimit,
+  SpendContext,
+  SpendHold,
+  SpendRecord,
+  BudgetStatus,
+  BudgetCheckOutcome,
+  BudgetCheck
+} from './budget-types';
+
+export type {
+  ResearcherCredential,
+  SignedCredential,
+  CredentialClaims,
+  IdentityChallenge,
+  Identity403Options,
+  ProofChallenge,
+  IdentityProof,
+  ProofFailureReason,
+  ProofVerification,
+  ProofVerifierOptions,
+  DelegationScope,
+  DelegationGrant,
+  DelegationToken,
+  Delegation,
+  DelegationContext,
+  DelegatedSpendEntry,
+  DelegatedSpendStore
+} from './identity-types';
+
+export type {
+  PolicyEffect,
+  TimeOfDayWindow,
+  PolicyConditions,
+  PolicyRule,
+  AccessContext,
+  RuleEvaluation,
+  AccessDecision,
+  PolicyEngineOptions
+} from './policy-types';
+
+export type {
+  AuditEventType,
+  AuditRecord,
+  UnreadableAuditRecord,
+  AuditStore,
+  AuditQuery,
+  AuditIssueType,
+  AuditIssue,
+  AuditVerification
+} from './audit-types';
+
+export type {
+  ApprovalRule,
+  ApprovalContext,
+  ApprovalRequirement,
+  ApprovalStatus,
+  ApprovalSignoff,
+  ApprovalRequest,
+  ApprovalManagerOptions,
+  ApproverSignature
+} from './approval-types';
+
+export type {
+  LabSource,
+  CatalogParser,
+  FileLabSourceOptions,
+  LabValidationIssue,
+  InvalidLab,
+  LabChange,
+  RegistryDiff,
+  LabRegistryOptions
+} from './registry-types';
+
+export type {
+  CircuitState,
+  LabHealthStatus,
+  LabHeartbeat,
+  HealthSample,
+  LabHealth,
+  HealthMonitorOptions
+} from './health-types';
+
+export type {
+  ReservationStatus,
+  TimeSlot,
+  Reservation,
+  ReservationRequest,
+  SlotRequest,
+  InstrumentSchedulerOptions
+} from './schedule-types';
+
+export type {
+  JobPriority,
+  JobStatus,
+  FairShareKey,
+  JobRequest,
+  QueuedJob,
+  QueuePosition,
+  PreemptionRule,
+  JobQueueOptions
+} from './queue-types';
+
+export type {
+  ColdChainTier,
+  DistanceBand,
+  ShippingRates,
+  ShippingEstimate
+} from './logistics-types';
@@ -0,0 +1,34 @@
+// Logistics Types for Lab402+
+
+// Temperature a sample has to be kept at in transit, coldest last
+export type ColdChainTier = 'ambient' | 'refrigerated' | 'frozen' | 'deep-frozen' | 'cryogenic';
+
+export interface DistanceBand {
+  maxDistance: number; // km, inclusive; Infinity for the last band
+  cost: number; // USD
+  transitTime: number; // hours
+}
+
+export interface ShippingRates {
+  bands: DistanceBand[]; // Ascending by maxDistance
+  international: {
+    surcharge: number; // USD, customs and brokerage
+    delay: number; // hours for customs clearance
+  };
+  coldChain: Record<ColdChainTier, number>; // Surcharge in USD
+}
+
+export interface ShippingEstimate {
+  labId: string;
+  distance?: number; // km; unknown distances are priced as the farthest band
+  international: boolean; // Assumed when our country is unknown
+  coldChain: ColdChainTier;
+  cost: number; // In `currency`
+  currency: string; // Shipping rates are quoted in USD
+  transitTime: number; // hours
+  breakdown: {
+    base: number; // USD, distance band
+    international: number; // USD
+    coldChain: number; // USD
+  };
+}
@@ -0,0 +1,290 @@
+// Mock data served by MockTransport and used to seed LabRegistry
+
+import type { LabInfo, InstrumentAvailability, ResearcherIdentity } from './types';
+import { CredentialIssuer } from './CredentialIssuer';
+
+export const MOCK_LABS: LabInfo[] = [
+  {
+    id: 'mit-biolab',
+    name: 'MIT BioLab',
+    location: 'Boston, MA, USA',
+    country: 'US',
+    instruments: ['dna-sequencer', 'mass-spec', 'nmr'],
+    pricing: {
+      tier: 'performance',
+      instrumentRate: 2.0,
+      computeRate: 0.012,
+      aiRate: 20.00,
+      storageRate: 0.02
+    },
+    quality: 5,
+    availability: 95,
+    uptime: 99.9,
+    currentLoad: 45,
+    coordinates: { lat: 42.3601, lon: -71.0942 },
+    certifications: ['ISO-9001', 'CLIA', 'CAP'],
+    offerings: [
+      {
+        instrument: 'dna-sequencer',
+        model: 'Illumina NovaSeq 6000',
+        resolution: '2x150 bp',
+        throughput: '6 Tb/run',
+        dataFormat: ['FASTQ', 'BAM'],
+        maxSampleSize: 1,
+        pricePerRun: 100.00
+      },
+      {
+        instrument: 'mass-spec',
+        model: 'Thermo Orbitrap Exploris 480',
+        resolution: '480,000 FWHM',
+        throughput: '40 samples/day',
+        dataFormat: ['mzML', 'RAW'],
+        maxSampleSize: 0.5,
+        pricePerRun: 80.00
+      },
+      {
+        instrument: 'nmr',
+        model: 'Bruker Avance NEO 800 MHz',
+        resolution: '800 MHz',
+        throughput: '12 samples/day',
+        dataFormat: ['FID', 'JCAMP-DX'],
+        maxSampleSize: 0.6,
+        pricePerRun: 120.00
+      }
+    ]
+  },
+  {
+    id: 'stanford-lab',
+    name: 'Stanford BioLab',
+    location: 'Stanford, CA, USA',
+    country: 'US',
+    instruments: ['dna-sequencer', 'spectroscopy', 'microscopy'],
+    pricing: {
+      tier: 'standard',
+      instrumentRate: 1.5,
+      computeRate: 0.008,
+      aiRate: 15.00,
+      storageRate: 0.015
+    },
+    quality: 4.5,
+    availability: 98,
+    uptime: 99.5,
+    currentLoad: 30,
+    coordinates: { lat: 37.4275, lon: -122.1697 },
+    certifications: ['ISO-9001', 'CLIA'],
+    offerings: [
+      {
+        instrument: 'dna-sequencer',
+        model: 'Illumina NextSeq 2000',
+        resolution: '2x150 bp',
+        throughput: '360 Gb/run',
+        dataFormat: ['FASTQ', 'BAM'],
+        maxSampleSize: 1,
+        pricePerRun: 75.00
+      },
+      {
+        instrument: 'spectroscopy',
+        model: 'Agilent Cary 7000 UV-Vis-NIR',
+        resolution: '0.05 nm',
+        throughput: '60 samples/hour',
+        dataFormat: ['CSV', 'JCAMP-DX'],
+        maxSampleSize: 3,
+        pricePerRun: 15.00
+      },
+      {
+        instrument: 'microscopy',
+        model: 'Zeiss LSM 980 Airyscan',
+        resolution: '120 nm',
+        throughput: '20 slides/day',
+        dataFormat: ['CZI', 'OME-TIFF'],
+        maxSampleSize: 1,
+        pricePerRun: 22.50
+      }
+    ]
+  },
+  {
+    id: 'oxford-lab',
+    name: 'Oxford Research Lab',
+    location: 'Oxford, UK',
+    country: 'UK',
+    instruments: ['dna-sequencer', 'x-ray-diffraction', 'nmr'],
+    pricing: {
+      tier: 'performance',
+      instrumentRate: 2.2,
+      computeRate: 0.013,
+      aiRate: 22.00,
+      storageRate: 0.025
+    },
+    quality: 5,
+    availability: 90,
+    uptime: 99.8,
+    currentLoad: 65,
+    coordinates: { lat: 51.7520, lon: -1.2577 },
+    certifications: ['ISO-9001', 'UKAS'],
+    offerings: [
+      {
+        instrument: 'dna-sequencer',
+        model: 'Oxford Nanopore PromethION 24',
+        resolution: 'Long read, 20+ kb',
+        throughput: '7 Tb/run',
+        dataFormat: ['FAST5', 'POD5', 'FASTQ'],
+        maxSampleSize: 1,
+        pricePerRun: 110.00
+      },
+      {
+        instrument: 'x-ray-diffraction',
+        model: 'Rigaku XtaLAB Synergy-S',
+        resolution: '0.7 Å',
+        throughput: '8 crystals/day',
+        dataFormat: ['CIF', 'HKL'],
+        maxSampleSize: 0.1,
+        pricePerRun: 176.00
+      },
+      {
+        instrument: 'nmr',
+        model: 'Bruker Avance NEO 700 MHz',
+        resolution: '700 MHz',
+        throughput: '16 samples/day',
+        dataFormat: ['FID', 'JCAMP-DX'],
+        maxSampleSize: 0.6,
+        pricePerRun: 132.00
+      }
+    ]
+  },
+  {
+    id: 'tokyo-biotech',
+    name: 'Tokyo Biotech Center',
+    location: 'Tokyo, Japan',
+    country: 'JP',
+    instruments: ['spectroscopy', 'microscopy', 'mass-spec'],
+    pricing: {
+      tier: 'standard',
+      instrumentRate: 1.3,
+      computeRate: 0.007,
+      aiRate: 12.00,
+      storageRate: 0.01
+    },
+    quality: 4,
+    availability: 100,
+    uptime: 99.0,
+    currentLoad: 20,
+    coordinates: { lat: 35.6762, lon: 139.6503 },
+    certifications: ['ISO-9001'],
+    offerings: [
+      {
+        instrument: 'spectroscopy',
+        model: 'Horiba LabRAM HR Evolution (Raman)',
+        resolution: '0.3 cm-1',
+        throughput: '40 samples/hour',
+        dataFormat: ['CSV', 'SPC'],
+        maxSampleSize: 2,
+        pricePerRun: 13.00
+      },
+      {
+        instrument: 'microscopy',
+        model: 'Nikon A1R HD25 confocal',
+        resolution: '180 nm',
+        throughput: '24 slides/day',
+        dataFormat: ['ND2', 'OME-TIFF'],
+        maxSampleSize: 1,
+        pricePerRun: 19.50
+      },
+      {
+        instrument: 'mass-spec',
+        model: 'Shimadzu LCMS-9030 Q-TOF',
+        resolution: '30,000 FWHM',
+        throughput: '60 samples/day',
+        dataFormat: ['mzML', 'LCD'],
+        maxSampleSize: 0.5,
+        pricePerRun: 52.00
+      }
+    ]
+  },
+  {
+    id: 'singapore-biolab',
+    name: 'Singapore BioLab',
+    location: 'Singapore',
+    country: 'SG',
+    instruments: ['dna-sequencer', 'microscopy', 'spectroscopy'],
+    pricing: {
+      tier: 'extreme',
+      instrumentRate: 3.0,
+      computeRate: 0.025,
+      aiRate: 30.00,
+      storageRate: 0.03
+    },
+    quality: 5,
+    availability: 100,
+    uptime: 99.99,
+    currentLoad: 15,
+    coordinates: { lat: 1.3521, lon: 103.8198 },
+    certifications: ['ISO-9001', 'CLIA', 'CAP', 'NABL'],
+    offerings: [
+      {
+        instrument: 'dna-sequencer',
+        model: 'Illumina NovaSeq X Plus',
+        resolution: '2x150 bp',
+        throughput: '16 Tb/run',
+        dataFormat: ['FASTQ', 'BAM', 'CRAM'],
+        maxSampleSize: 1,
+        pricePerRun: 150.00
+      },
+      {
+        instrument: 'microscopy',
+        model: 'Leica Stellaris 8 STED',
+        resolution: '50 nm',
+        throughput: '16 slides/day',
+        dataFormat: ['LIF', 'OME-TIFF'],
+        maxSampleSize: 1,
+        pricePerRun: 45.00
+      },
+      {
+        instrument: 'spectroscopy',
+        model: 'Thermo Nicolet iS50 FTIR',
+        resolution: '0.09 cm-1',
+        throughput: '50 samples/hour',
+        dataFormat: ['CSV', 'SPA'],
+        maxSampleSize: 2,
+        pricePerRun: 30.00
+      }
+    ]
+  }
+];
+
+export const MOCK_IDENTITY: Omit<ResearcherIdentity, 'id'> = {
+  credentials: ['PhD', 'Lab Safety Certified', 'Biosafety Level 2'],
+  institution: 'MIT Research Lab',
+  clearanceLevel: 3,
+  specializations: ['molecular-biology', 'biochemistry', 'genomics']
+};
+
+// Signs the credentials MockTransport hands out; trusted by default in mock mode
+export const MOCK_ISSUER = new CredentialIssuer('lab402-mock-issuer', 'Lab402 Mock Issuer');
+
+export function mockInstruments(): InstrumentAvailability[] {
+  return [
+    {
+      instrument: 'dna-sequencer',
+      available: true,
+      location: 'MIT BioLab',
+      capabilities: ['Illumina NovaSeq', 'High-throughput', '150 GB/run']
+    },
+    {
+      instrument: 'spectroscopy',
+      available: true,
+      location: 'Stanford ChemLab',
+      capabilities: ['UV-Vis', 'IR', 'Raman']
+    },
+    {
+      instrument: 'microscopy',
+      available: false,
+      nextAvailable: Date.now() + 3600000,
+      location: 'UCSF Imaging',
+      capabilities: ['Confocal', 'Electron', 'Super-resolution']
+    }
+  ];
+}
+
+export function cloneLab(lab: LabInfo): LabInfo {
+  return JSON.parse(JSON.stringify(lab));
+}
@@ -0,0 +1,235 @@
+// Payment Types for Lab402+
+
+import type { UnifiedInvoice, InvoiceAttribution } from './types';
+import type { PaymentLedger } from './PaymentLedger';
+import type { AuditLog } from './AuditLog';
+
+// Body of a `402 Payment Required` response
+export interface PaymentRequiredBody {
+  invoice: UnifiedInvoice;
+  code?: string; // 'INVOICE_EXPIRED' when a proof arrives after the invoice expired
+  error?: string;
+}
+
+// Sent back to the server in the payment-proof header
+export interface PaymentProof {
+  invoiceId: string; // UnifiedInvoice.analysisId
+  txHash: string;
+  payer: string; // Wallet address
+  amount: number; // Settlement currency
+  paidAt: number; // Timestamp
+}
+
+// Issued by the server once it accepts a payment proof
+export interface PaymentReceipt {
+  invoiceId: string;
+  txHash: string;
+  amount: number; // Settlement currency
+  settledAt: number; // Timestamp
+}
+
+export interface PaidResponse<T = any> {
+  status: number;
+  data: T;
+  invoice?: UnifiedInvoice; // Set when the request required payment
+  proof?: PaymentProof;
+  receipt?: PaymentReceipt;
+}
+
+// Invoice Types
+
+export type InvoiceStatus = 'open' | 'paying' | 'paid' | 'void' | 'expired';
+
+export interface InvoiceRecord {
+  invoice: UnifiedInvoice;
+  status: InvoiceStatus;
+  currency: string;
+  batchId?: string;
+  txHash?: string;
+  createdAt: number;
+  paidAt?: number;
+  voidedAt?: number;
+  voidReason?: string;
+}
+
+export interface CreateInvoiceOptions {
+  paymentAddress?: string; // Defaults to the configured wallet
+  ttl?: number; // Time until expiry (ms), default 1 hour
+  batchId?: string; // Recorded on ledger entries for batch invoices
+  attribution?: InvoiceAttribution;
+}
+
+// Currency Types
+
+// e.g. 'USD', 'EUR', 'USDC', 'SOL'
+export type CurrencyCode = string;
+
+export interface ExchangeRate {
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate: number; // Units of `to` per unit of `from`
+  quotedAt: number; // Timestamp
+  expiresAt?: number; // Provider's validity limit
+}
+
+export interface RateProvider {
+  getRate(from: CurrencyCode, to: CurrencyCode): Promise<ExchangeRate>;
+}
+
+// Settlement rate locked when an invoice is issued; expires with the invoice
+export interface RateQuote {
+  currency: CurrencyCode; // Settlement currency
+  rate: number; // Settlement units per invoice currency unit
+  amount: number; // totalCost in the settlement currency
+  lockedAt: number; // Timestamp
+  expiresAt: number; // Same as UnifiedInvoice.expiresAt
+}
+
+// Payment Ledger Types
+
+export type LedgerEntryType =
+  | 'invoice'
+  | 'settlement'
+  | 'receipt'
+  | 'refund'
+  | 'completion'
+  | 'escrow-deposit'
+  | 'charge' // Incremental payment out of an escrow deposit
+  | 'escrow-release';
+
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  invoiceId: string; // UnifiedInvoice.analysisId
+  analysisId?: string;
+  batchId?: string;
+  amount: number; // Invoice (quote) currency
+  currency?: CurrencyCode; // Invoice currency, USD when unset
+  settlementAmount?: number; // Amount in the settlement currency at the locked rate
+  settlementCurrency?: CurrencyCode;
+  txHash?: string;
+  reason?: string;
+  timestamp: number;
+}
+
+export type LedgerReference = Pick<LedgerEntry, 'analysisId' | 'batchId'>;
+
+export interface LedgerStore {
+  load(): LedgerEntry[];
+  append(entry: LedgerEntry): void;
+}
+
+export interface LedgerQuery {
+  type?: LedgerEntryType | LedgerEntryType[];
+  invoiceId?: string;
+  analysisId?: string;
+  batchId?: string;
+  from?: number; // Timestamp (inclusive)
+  to?: number; // Timestamp (inclusive)
+}
+
+export type ReconciliationIssueType =
+  | 'duplicate-payment'
+  | 'refund-without-payment'
+  | 'refund-exceeds-payment'
+  | 'unsettled-completion'
+  | 'escrow-overcharge';
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  invoiceId: string;
+  message: string;
+  entries: LedgerEntry[];
+}
+
+export interface ReconciliationTotals {
+  settled: number; // Settlements and escrow charges
+  refunded: number;
+}
+
+export interface ReconciliationReport {
+  checkedAt: number;
+  entriesChecked: number;
+  totals: Record<CurrencyCode, ReconciliationTotals>; // By invoice currency
+  issues: ReconciliationIssue[];
+}
+
+export interface Payment402Options {
+  signer?: WalletSigner; // Pay on-chain instead of through the gateway
+  ledger?: PaymentLedger; // Defaults to an in-memory ledger
+  rates?: RateProvider; // Defaults to StaticRateProvider
+  settlementCurrency?: CurrencyCode; // What payments are made in, default 'USDC'
+  audit?: AuditLog; // Mirrors every ledger entry into the audit trail
+}
+
+// Wallet Signer Types
+
+export interface TransferRequest {
+  to: string; // Recipient address
+  amount: number; // Settlement currency
+  memo?: string; // e.g. the invoice ID
+}
+
+export interface SignedTransfer extends TransferRequest {
+  from: string;
+  nonce: string;
+  signature: string; // base58 ed25519 signature over the transfer message
+}
+
+export interface TransferResult {
+  txHash: string;
+  from: string;
+  to: string;
+  amount: number;
+  memo?: string;
+  timestamp: number;
+}
+
+export interface WalletSigner {
+  readonly address: string; // base58 public key
+  signMessage(message: string | Uint8Array): Promise<string>; // base58 signature
+  signAndSubmitTransfer(transfer: TransferRequest): Promise<TransferResult>;
+  getBalance(): Promise<number>;
+}
+
+// Escrow Types
+
+export type EscrowStatus = 'open' | 'released';
+
+export interface EscrowCharge {
+  amount: number; // Invoice currency
+  description: string;
+  timestamp: number;
+}
+
+export interface EscrowAccount {
+  id: string;
+  invoiceId: string;
+  analysisId?: string;
+  deposit: number; // Invoice currency
+  charged: number; // Invoice currency
+  released: number; // Invoice currency returned to the payer
+  status: EscrowStatus;
+  depositTxHash: string;
+  releaseTxHash?: string;
+  charges: EscrowCharge[];
+  openedAt: number;
+  closedAt?: number;
+}
+
+// Refund Policy Types
+
+export type RefundStage = 'pending' | 'running' | 'processing' | 'interpreting';
+
+export type RefundComponent = 'instrument' | 'compute' | 'ai' | 'storage';
+
+// Fraction (0-1) of each invoice component refunded when cancelling in a stage
+export type RefundRates = Record<RefundStage, Record<RefundComponent, number>>;
+
+export interface RefundDecision {
+  stage: RefundStage;
+  amount: number; // Invoice currency, capped at what was actually paid
+  breakdown: Record<RefundComponent, number>; // Invoice currency per component before the cap
+  paid: number; // Invoice currency, net paid on the invoice
+  reason: string;
+}
@@ -0,0 +1,58 @@
+// Access Policy Types for Lab402+
+
+import type { InstrumentType, LabInfo, ResearcherIdentity } from './types';
+
+export type PolicyEffect = 'allow' | 'deny' | 'require-approval';
+
+export interface TimeOfDayWindow {
+  start: string; // "08:00", 24-hour clock
+  end: string; // "18:00"; earlier than start wraps past midnight
+  days?: number[]; // Days the window starts on, 0 = Sunday ... 6 = Saturday; every day when unset
+  timezone?: string; // IANA zone, e.g. "America/New_York"; UTC when unset
+}
+
+// Every condition that is set must hold for a rule to match
+export interface PolicyConditions {
+  instruments?: InstrumentType[]; // Any of
+  labCertifications?: string[]; // Lab holds all of
+  credentials?: string[]; // Researcher holds all of
+  lacksCredentials?: string[]; // Researcher is missing any of (for "deny unless" rules)
+  specializations?: string[]; // Researcher has any of
+  minClearance?: number;
+  maxClearance?: number;
+  sampleTypes?: string[]; // Any of
+  timeOfDay?: TimeOfDayWindow;
+}
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  effect: PolicyEffect;
+  when: PolicyConditions;
+}
+
+export interface AccessContext {
+  identity: ResearcherIdentity;
+  instrument: InstrumentType;
+  lab?: LabInfo; // Lab selected by routing, if any
+  sampleType?: string;
+  time?: number; // Timestamp, defaults to now
+}
+
+export interface RuleEvaluation {
+  ruleId: string;
+  effect: PolicyEffect;
+  matched: boolean;
+  unmet: string[]; // Conditions that did not hold
+}
+
+export interface AccessDecision {
+  effect: PolicyEffect;
+  rule?: PolicyRule; // Rule that decided the outcome; unset when no rule matched
+  explanation: string;
+  evaluations: RuleEvaluation[];
+}
+
+export interface PolicyEngineOptions {
+  defaultEffect?: PolicyEffect; // When no rule matches, default 'deny'
+}
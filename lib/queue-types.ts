@@ -0,0 +1,58 @@
+// Job Queue Types for Lab402+
+
+import type { InstrumentType } from './types';
+
+export type JobPriority = 'low' | 'normal' | 'high';
+
+export type JobStatus = 'queued' | 'running' | 'preempted' | 'completed' | 'removed';
+
+// Whose usage is balanced between jobs of the same priority
+export type FairShareKey = 'researcher' | 'project';
+
+export interface JobRequest {
+  id: string; // Analysis ID
+  labId: string;
+  instrument: InstrumentType;
+  priority?: JobPriority; // Default 'normal'
+  researcher: string; // Researcher ID
+  project?: string;
+  duration?: number; // Estimated instrument time (ms)
+}
+
+export interface QueuedJob {
+  id: string; // Analysis ID
+  labId: string;
+  instrument: InstrumentType;
+  priority: JobPriority;
+  researcher: string;
+  project?: string;
+  duration: number; // Estimated instrument time (ms)
+  remaining: number; // Estimated instrument time still needed (ms)
+  status: JobStatus;
+  enqueuedAt: number;
+  startedAt?: number; // Latest start or resume
+  preemptions: number;
+}
+
+export interface QueuePosition {
+  jobId: string;
+  status: JobStatus;
+  position: number; // 0 while running, 1 when next in line
+  ahead: number; // Jobs that start first
+  estimatedStart: number; // Timestamp; actual start when running
+}
+
+// Lets a queued job suspend running ones when the instrument is busy
+export interface PreemptionRule {
+  priority: JobPriority; // Incoming jobs at this priority...
+  preempts: JobPriority[]; // ...may suspend running jobs at these
+  maxPreemptions?: number; // Times one job can be suspended, default 1
+}
+
+export interface JobQueueOptions {
+  concurrency?: number; // Runs at once per lab instrument, default 1
+  defaultDuration?: number; // Estimate for jobs without one (ms), default 1 minute
+  fairShare?: FairShareKey; // Default 'researcher'; jobs without a project fall back to their researcher
+  shares?: Record<string, number>; // Weight per researcher or project ID, default 1
+  preemption?: PreemptionRule[]; // Default: high preempts low
+}
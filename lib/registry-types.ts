@@ -0,0 +1,49 @@
+// Lab Registry Types for Lab402+
+
+import type { LabInfo } from './types';
+import type { HealthMonitor } from './HealthMonitor';
+
+// Where the registry loads its catalog from. The raw payload is validated by
+// the registry: an array of labs, or an object with a `labs` array.
+export interface LabSource {
+  readonly name: string; // Shown in events and errors, e.g. a file path or URL path
+  load(): Promise<unknown>;
+}
+
+export type CatalogParser = (text: string) => unknown;
+
+export interface FileLabSourceOptions {
+  parse?: CatalogParser; // Required for .yaml / .yml, e.g. YAML.parse from the `yaml` package
+}
+
+export interface LabValidationIssue {
+  field: string; // Dotted path, e.g. "pricing.instrumentRate"
+  message: string;
+}
+
+export interface InvalidLab {
+  labId?: string;
+  index: number; // Position in the catalog
+  issues: LabValidationIssue[];
+}
+
+export interface LabChange {
+  before: LabInfo;
+  after: LabInfo;
+  fields: string[]; // Top-level LabInfo fields that differ
+}
+
+export interface RegistryDiff {
+  source: string;
+  added: LabInfo[];
+  removed: LabInfo[];
+  changed: LabChange[];
+  invalid: InvalidLab[]; // Catalog entries skipped by validation
+}
+
+export interface LabRegistryOptions {
+  source?: LabSource; // Defaults to the transport's GET /labs
+  labs?: LabInfo[]; // Initial catalog, used until the first refresh
+  refreshInterval?: number; // Reload the source every N ms
+  health?: HealthMonitor; // Overrides static uptime and load, and drops labs with open circuits
+}
@@ -0,0 +1,39 @@
+// Scheduling Types for Lab402+
+
+import type { InstrumentType } from './types';
+
+export type ReservationStatus = 'held' | 'reserved' | 'released' | 'expired';
+
+export interface TimeSlot {
+  start: number; // Timestamp
+  end: number; // Timestamp, exclusive
+}
+
+export interface Reservation extends TimeSlot {
+  id: string;
+  labId: string;
+  instrument: InstrumentType;
+  holder: string; // Researcher ID
+  status: ReservationStatus;
+  holdExpiresAt?: number; // Held slots lapse unless confirmed by then
+  analysisId?: string; // Set once an analysis runs in the slot
+  note?: string;
+  createdAt: number;
+}
+
+export interface ReservationRequest {
+  labId: string;
+  instrument: InstrumentType;
+  start: number; // Timestamp
+  duration?: number; // ms; or give `end`
+  end?: number; // Timestamp, exclusive
+  holder: string; // Researcher ID
+  note?: string;
+}
+
+// Booking through Lab402; the holder defaults to the verified researcher
+export type SlotRequest = Omit<ReservationRequest, 'holder'> & { holder?: string };
+
+export interface InstrumentSchedulerOptions {
+  holdTtl?: number; // How long a hold lasts before it must be confirmed (ms), default 15 minutes
+}
@@ -0,0 +1,43 @@
+// Transport Types for Lab402+
+
+import type { LocalChain } from './LocalChain';
+
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface TransportRequest {
+  method: HttpMethod;
+  path: string; // Relative to the endpoint, e.g. "/labs"
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string>;
+  body?: any;
+  idempotencyKey?: string; // Sent as Idempotency-Key; lets POST and PATCH requests be retried
+}
+
+export interface TransportResponse<T = any> {
+  status: number;
+  headers: Record<string, string>; // Lower-cased header names
+  data: T;
+}
+
+export interface Transport {
+  request<T = any>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+export interface HttpTransportOptions {
+  endpoint: string; // Base URL, e.g. "https://api.lab402.io"
+  timeout?: number; // Per-attempt timeout (ms)
+  retries?: number; // Extra attempts after the first one, for idempotent methods or keyed requests
+  retryDelay?: number; // Initial backoff (ms), doubled per attempt
+  headers?: Record<string, string>; // Sent with every request
+}
+
+export type MockRouteHandler = (
+  request: TransportRequest,
+  params: Record<string, string>
+) => TransportResponse | Promise<TransportResponse>;
+
+export interface MockTransportOptions {
+  latency?: number; // Artificial delay added to every request (ms)
+  defaults?: boolean; // Register the built-in mock routes (default true)
+  chain?: LocalChain; // Verify 402 payment proofs and balances against this ledger
+}
@@ -1,13 +1,57 @@
 // Lab402+ Types
 // Autonomous Laboratory & Compute Protocol
 
+import type { Transport } from './transport-types';
+import type { WalletSigner, RateProvider, RateQuote } from './payment-types';
+import type { PaymentLedger } from './PaymentLedger';
+import type { RefundPolicy } from './RefundPolicy';
+import type { BudgetManager } from './BudgetManager';
+import type { SignedCredential, Delegation, DelegationContext, DelegatedSpendStore } from './identity-types';
+import type { PolicyEngine } from './PolicyEngine';
+import type { AuditLog } from './AuditLog';
+import type { ApprovalManager } from './ApprovalManager';
+import type { LabSource } from './registry-types';
+import type { HealthMonitor } from './HealthMonitor';
+import type { InstrumentScheduler } from './InstrumentScheduler';
+import type { JobQueue } from './JobQueue';
+import type { Logistics } from './Logistics';
+import type { ShippingEstimate } from './logistics-types';
+
 export interface Lab402Config {
   researcher: string; // HTTP 403 researcher identity key
   wallet: string; // Solana wallet address
-  endpoint?: string; // API endpoint
+  endpoint?: string; // API endpoint (enables HTTP transport when set)
   timeout?: number; // Request timeout (ms)
   retries?: number; // Retry attempts
-}
+  transport?: Transport; // Overrides endpoint/timeout/retries; defaults to MockTransport
+  signer?: WalletSigner; // Pays invoices on-chain instead of through the gateway
+  ledger?: PaymentLedger; // Records invoices, settlements and refunds (in-memory by default)
+  refundPolicy?: RefundPolicy; // Refund rates per cancellation stage
+  budget?: BudgetManager; // Spending limits checked before invoices are issued
+  currency?: string; // Invoice currency, default USD
+  settlementCurrency?: string; // Currency payments settle in, default USDC
+  rates?: RateProvider; // Exchange rates (static table by default)
+  credential?: SignedCredential; // Presented during identity verification
+  trustedIssuers?: string[]; // Credential issuer public keys (the mock issuer is trusted with MockTransport)
+  revokedCredentials?: string[]; // Credential IDs to reject
+  accessPolicy?: PolicyEngine; // Instrument access rules
+  audit?: AuditLog; // Hash-chained audit trail (in-memory by default)
+  approvals?: ApprovalManager; // Sign-off rules for sensitive or expensive analyses
+  labSource?: LabSource; // Lab catalog; defaults to the gateway's GET /labs
+  labRefreshInterval?: number; // Reload the lab catalog every N ms
+  health?: HealthMonitor; // Live uptime, load and circuit breakers for routing
+  healthCheckInterval?: number; // Poll lab health every N ms
+  scheduler?: InstrumentScheduler; // Instrument calendars for reservations
+  queue?: JobQueue; // Per lab instrument run queues; share one between clients to balance them against each other
+  location?: GeoLocation | string; // Where we are, for distance-aware routing; a city is geocoded offline ("Boston, MA")
+  logistics?: Logistics; // Shipping cost and transit time estimates for routing
+  delegation?: Delegation; // Act under a delegator's credential instead of verifying our own
+  delegatedSpend?: DelegatedSpendStore; // Spend against delegation caps; share a persistent store between delegate clients
+}
+
+// Lab402Config with defaults applied; optional integrations stay optional
+export type ResolvedLab402Config = Lab402Config &
+  Required<Pick<Lab402Config, 'endpoint' | 'timeout' | 'retries' | 'transport' | 'refundPolicy' | 'budget' | 'currency'>>;
 
 export type InstrumentType = 
   | 'dna-sequencer'
@@ -39,19 +83,47 @@ export interface AnalysisRequest {
   compute?: ComputeRequirements;
   ai?: AIRequirements;
   duration?: number; // Expected duration (ms)
-  priority?: 'low' | 'normal' | 'high';
+  priority?: 'low' | 'normal' | 'high'; // Queue order; 'high' can preempt 'low' runs. Implies queue
+  queue?: boolean; // Wait for a turn on the routed lab instrument's queue before running
   routing?: RoutingOptions; // Multi-lab routing
+  billing?: BillingMode; // Default 'upfront'
+  project?: string; // Project tag for budgets
+  currency?: string; // Invoice currency, defaults to Lab402Config.currency
+  sampleType?: string; // Checked by access policies, e.g. "blood"
+  delegation?: Delegation; // Run under a delegator's clearance
+  reservation?: string; // Reservation ID; runs at its lab, starting in its slot
 }
 
+// 'upfront' pays the whole invoice before the run; 'streaming' deposits it
+// in escrow and charges each stage as it completes
+export type BillingMode = 'upfront' | 'streaming';
+
 export interface UnifiedInvoice {
   analysisId: string;
-  instrumentCost: number; // USD
-  computeCost: number; // USD
-  aiCost: number; // USD
-  storageCost: number; // USD
-  totalCost: number; // USD
+  instrumentCost: number; // Invoice currency
+  computeCost: number; // Invoice currency
+  aiCost: number; // Invoice currency
+  storageCost: number; // Invoice currency
+  totalCost: number; // Invoice currency
   paymentAddress: string; // Solana address
   expiresAt: number; // Timestamp
+  lineItems?: InvoiceLineItem[]; // Itemized breakdown (batches)
+  currency?: string; // Defaults to USD
+  quote?: RateQuote; // Locked settlement amount
+  attribution?: InvoiceAttribution; // Who the invoice is billed to
+}
+
+export interface InvoiceAttribution {
+  researcher: string; // Researcher ID whose clearance and budget apply
+  delegate?: string; // Public key that placed the request under a delegation
+  delegationId?: string; // Last token in the delegation chain
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number; // USD
+  amount: number; // USD (negative for discounts)
 }
 
 export interface AnalysisMetrics {
@@ -65,8 +137,13 @@ export interface AnalysisMetrics {
 }
 
 export type AnalysisStatus = 
+  | 'awaiting-approval'
+  | 'rejected'
   | 'pending'
+  | 'scheduled'
+  | 'queued'
   | 'running'
+  | 'preempted'
   | 'processing'
   | 'interpreting'
   | 'completed'
@@ -91,6 +168,11 @@ export interface ResearcherIdentity {
   institution: string;
   clearanceLevel: number; // 1-5
   specializations: string[];
+  publicKey?: string; // Researcher key the credential was issued to
+  issuer?: string; // Issuer public key
+  credentialId?: string;
+  expiresAt?: number; // Credential expiry timestamp
+  delegation?: DelegationContext; // Set when acting under someone else's credential
 }
 
 export interface InstrumentAvailability {
@@ -103,6 +185,7 @@ export interface InstrumentAvailability {
 
 export interface PricingTier {
   tier: string;
+  currency?: string; // Rates below are in this currency, default USD
   instrumentRate: number; // per minute
   computeRate: number; // per ms (GPU)
   aiRate: number; // per request
@@ -116,9 +199,36 @@ export type EventType =
   | 'analysis.processing'
   | 'analysis.completed'
   | 'analysis.failed'
+  | 'analysis.cancelled'
   | 'payment.pending'
   | 'payment.settled'
   | 'payment.failed'
+  | 'payment.refunded'
+  | 'escrow.opened'
+  | 'escrow.charged'
+  | 'escrow.released'
+  | 'budget.warning'
+  | 'budget.exceeded'
+  | 'approval.requested'
+  | 'approval.granted'
+  | 'approval.approved'
+  | 'approval.rejected'
+  | 'approval.cancelled'
+  | 'registry.updated'
+  | 'registry.failed'
+  | 'lab.circuit.open'
+  | 'lab.circuit.half-open'
+  | 'lab.circuit.closed'
+  | 'lab.heartbeat.missed'
+  | 'reservation.held'
+  | 'reservation.confirmed'
+  | 'reservation.released'
+  | 'reservation.expired'
+  | 'queue.enqueued'
+  | 'queue.started'
+  | 'queue.preempted'
+  | 'queue.completed'
+  | 'queue.removed'
   | 'ai.started'
   | 'ai.completed'
   | 'report.ready'
@@ -145,12 +255,18 @@ export interface Lab402Event {
 
 export interface InstrumentCapabilities {
   instrument: InstrumentType;
-  maxSampleSize: number;
+  maxSampleSize: number; // mL
   resolution: string;
   throughput: string;
   dataFormat: string[];
 }
 
+// What a lab runs for one instrument type, and what a run costs there
+export interface InstrumentOffering extends InstrumentCapabilities {
+  model: string; // "Illumina NovaSeq 6000"
+  pricePerRun: number; // Instrument cost per analysis, in the lab's pricing currency
+}
+
 // Multi-Lab Routing Types
 
 export interface LabInfo {
@@ -164,8 +280,26 @@ export interface LabInfo {
   availability: number; // 0-100%
   uptime: number; // 0-100% (e.g., 99.9)
   currentLoad: number; // 0-100%
-  coordinates?: { lat: number; lon: number };
+  coordinates?: Coordinates; // Geocoded from `location` when missing
   certifications: string[]; // ["ISO-9001", "CLIA"]
+  offerings?: InstrumentOffering[]; // Per-instrument capabilities and price; pricing.instrumentRate applies otherwise
+}
+
+export interface Coordinates {
+  lat: number; // -90 to 90
+  lon: number; // -180 to 180
+}
+
+export interface GeoLocation extends Coordinates {
+  country?: string; // "US"; tells domestic from international shipments
+}
+
+// A city in the bundled offline gazetteer
+export interface GazetteerEntry extends Coordinates {
+  city: string;
+  region?: string; // State or province code, "MA"
+  country: string; // "US"
+  aliases?: string[];
 }
 
 export type RoutingStrategy = 
@@ -173,16 +307,38 @@ export type RoutingStrategy =
   | 'fastest'
   | 'highest-quality'
   | 'nearest'
-  | 'balanced';
+  | 'balanced'
+  | 'fastest-turnaround' // Shipping transit plus queue wait
+  | 'lowest-landed-cost' // Analysis plus shipping
+  | 'weighted'; // RoutingOptions.weights over criteria normalized across candidates
+
+// Built-in criteria for the weighted strategy
+export type RoutingCriterion = 'cost' | 'quality' | 'load' | 'uptime' | 'distance' | 'certifications';
+
+// Relative weights; registered scorers can be weighted by name alongside the built-in criteria
+export type RoutingWeights = Partial<Record<RoutingCriterion, number>> & Record<string, number>;
+
+export interface ScoringContext {
+  instrument: InstrumentType;
+  routing?: RoutingOptions;
+  distance?: number; // km from Lab402Config.location, when known
+}
+
+// Raw score for a custom criterion, higher is better; the router normalizes it across candidates
+export type LabScorer = (lab: LabInfo, context: ScoringContext) => number;
 
 export interface RoutingOptions {
-  strategy: RoutingStrategy;
+  strategy: RoutingStrategy | string; // Or the name of a registered scorer
+  weights?: RoutingWeights; // For 'weighted'
   maxCost?: number;
   minQuality?: number; // 1-5
-  maxDistance?: number; // km
+  maxDistance?: number; // km from Lab402Config.location
   preferredLocations?: string[]; // ["US", "EU"]
   excludeLabs?: string[]; // Lab IDs to exclude
   requireCertifications?: string[];
+  requireDataFormats?: string[]; // Offering must output all of
+  sampleSize?: number; // Offering's maxSampleSize must be at least this
+  storageConditions?: string; // SampleMetadata.storageConditions of the shipped sample, "-80°C"
   fallback?: LabFallback[];
 }
 
@@ -196,15 +352,66 @@ export interface LabSelection {
   score: number; // Routing score
   reasoning: string;
   alternatives: LabInfo[];
+  offering?: InstrumentOffering; // The lab's offering for the requested instrument
+  distance?: number; // km from Lab402Config.location
+  shipping?: ShippingEstimate; // Getting the sample there, when our location is known
+  explanation?: RoutingExplanation; // Why this lab, and what happened to the others
+}
+
+// RoutingOptions constraint that removed a lab, 'instrument' for labs that don't run
+// the instrument, or 'availability' for labs that are down or saturated
+export type RoutingFilter =
+  | 'instrument'
+  | 'availability'
+  | 'maxCost'
+  | 'minQuality'
+  | 'maxDistance'
+  | 'preferredLocations'
+  | 'excludeLabs'
+  | 'requireCertifications'
+  | 'requireDataFormats'
+  | 'sampleSize';
+
+export interface LabElimination {
+  lab: string; // Lab ID
+  labName: string;
+  filter: RoutingFilter;
+  reason: string;
+}
+
+export interface CriterionScore {
+  value?: number; // Raw measurement; unset when it can't be measured, e.g. distance without a location
+  score: number; // 0-1 across candidates, 1 for the best
+  weight: number; // Share of the routing score (0-1); 0 for criteria the strategy doesn't rank on
+}
+
+export interface CandidateScore {
+  lab: string; // Lab ID
+  labName: string;
+  rank: number; // 1 = selected
+  score: number; // Routing score under the strategy
+  criteria: Record<string, CriterionScore>;
+}
+
+export interface RoutingExplanation {
+  strategy: string;
+  criteria: string[]; // What the strategy ranks on
+  candidates: CandidateScore[]; // Every lab that passed the filters, best first
+  eliminated: LabElimination[]; // In the order the filters ran
 }
 
 export interface LabPricing {
   lab: string;
   labName: string;
-  price: number;
+  price: number; // In `currency`
+  currency: string; // The lab's pricing currency
   quality: number;
   eta: string; // "2 hours"
   available: boolean;
+  model?: string; // Instrument model from the lab's offering
+  distance?: number; // km from Lab402Config.location
+  shipping?: ShippingEstimate;
+  landedCost?: number; // price plus shipping, when shipping is quoted in the lab's currency
 }
 
 // Batch Processing Types
@@ -222,9 +429,14 @@ export interface BatchRequest {
   ai?: AIRequirements;
   routing?: RoutingOptions;
   priority?: 'low' | 'normal' | 'high';
+  project?: string; // Project tag for budgets
+  currency?: string; // Invoice currency, defaults to Lab402Config.currency
+  sampleType?: string; // Checked by access policies
+  delegation?: Delegation; // Run under a delegator's clearance
 }
 
 export interface BatchPricing {
+  currency?: string; // Default USD
   baseCost: number;
   totalSamples: number;
   discountRate: number; // 0-1
@@ -259,6 +471,7 @@ export interface BatchAnalysisConfig {
   request: BatchRequest;
   pricing: BatchPricing;
   parallelism: number; // How many samples to process simultaneously
+  attribution?: InvoiceAttribution; // Carried onto the batch invoice
 }
 
 export interface BatchReport {
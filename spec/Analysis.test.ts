@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Lab402 } from '../lib/Lab402';
+import { MockTransport } from '../lib/MockTransport';
+import { BudgetManager } from '../lib/BudgetManager';
+import { ApprovalManager } from '../lib/ApprovalManager';
+import { JobQueue } from '../lib/JobQueue';
+
+describe('Analysis cancellation', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('refunds a cancelled run through the refund policy and records it', async () => {
+    const lab = new Lab402({ researcher: 'cancel-key', wallet: 'wallet', transport: new MockTransport() });
+    const refunded = vi.fn();
+
+    const analysis = await lab.request({ instrument: 'dna-sequencer', sample: 'sample-1' });
+    analysis.on('payment.refunded', refunded);
+    await analysis.start();
+    const invoice = analysis.getInvoice();
+
+    const decision = await analysis.cancel();
+
+    const expected = invoice.instrumentCost * 0.5 + invoice.computeCost + invoice.aiCost + invoice.storageCost;
+    expect(decision).toMatchObject({ stage: 'running', paid: invoice.totalCost });
+    expect(decision?.amount).toBeCloseTo(expected, 6);
+    expect(refunded).toHaveBeenCalledOnce();
+    expect(lab.getLedger().getNetPaid(invoice.analysisId)).toBeCloseTo(invoice.totalCost - expected, 6);
+    await expect(analysis.cancel()).rejects.toThrow('Analysis already cancelled');
+
+    await lab.close();
+  });
+
+  it('refunds nothing for a run that was never paid', async () => {
+    const transport = new MockTransport();
+    const lab = new Lab402({ researcher: 'cancel-key', wallet: 'wallet', transport });
+
+    const analysis = await lab.request({ instrument: 'dna-sequencer', sample: 'sample-1' });
+    const decision = await analysis.cancel();
+
+    expect(decision?.amount).toBe(0);
+    expect(transport.getRequests().some(r => r.path === '/payments/refund')).toBe(false);
+
+    await lab.close();
+  });
+});
+
+describe('Analysis cancellation during submission', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('does not start a run cancelled while its payment is in flight, and refunds it', async () => {
+    const transport = new MockTransport();
+    const send = transport.request.bind(transport);
+    let settle!: () => void;
+    const paymentSent = new Promise<void>(resolve => {
+      vi.spyOn(transport, 'request').mockImplementation(async (request) => {
+        if (request.path === '/payments') {
+          resolve();
+          await new Promise<void>(release => { settle = release; });
+        }
+        return send(request);
+      });
+    });
+    const budget = new BudgetManager([{ id: 'total', scope: {}, window: 'total', hardLimit: 1000 }]);
+    const lab = new Lab402({
+      researcher: 'cancel-key',
+      wallet: 'wallet',
+      transport,
+      budget,
+      approvals: new ApprovalManager([])
+    });
+    const started = vi.fn();
+    lab.on('analysis.started', started);
+
+    const analysis = await lab.request({ instrument: 'dna-sequencer', sample: 'sample-1' });
+    const starting = analysis.start();
+    await paymentSent;
+
+    const cancelling = analysis.cancel();
+    settle();
+    await starting;
+    const decision = await cancelling;
+
+    expect(analysis.getStatus()).toBe('cancelled');
+    expect(started).not.toHaveBeenCalled();
+    expect(decision?.amount).toBeCloseTo(analysis.getInvoice().totalCost, 6);
+    expect(lab.getLedger().getNetPaid(analysis.getInvoice().analysisId)).toBeCloseTo(0, 6);
+    expect(budget.getRemaining({ researcher: 'any' })).toBeCloseTo(1000, 6);
+
+    await lab.close();
+  });
+});
+describe('Analysis streaming billing', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('submits against an escrow deposit and releases it in full when cancelled', async () => {
+    const transport = new MockTransport();
+    const lab = new Lab402({ researcher: 'stream-key', wallet: 'wallet', transport });
+
+    const analysis = await lab.request({ instrument: 'dna-sequencer', sample: 'sample-1', billing: 'streaming' });
+    await analysis.start();
+
+    const submission = transport.getRequests().filter(r => r.path === '/analyses').pop();
+    expect(submission?.body).toMatchObject({ billing: 'streaming', escrowId: analysis.getEscrow()?.id });
+    expect(transport.getRequests().filter(r => r.path === '/payments')).toHaveLength(1);
+
+    expect(await analysis.cancel()).toBeUndefined();
+    expect(analysis.getEscrow()).toMatchObject({ status: 'released', charged: 0, released: analysis.getInvoice().totalCost });
+
+    await lab.close();
+  });
+});
+
+describe('Analysis queue slots', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('frees the slot of a run that fails before submission', async () => {
+    const transport = new MockTransport();
+    transport.on('POST', '/escrows', () => MockTransport.json(500, { error: 'Escrow service down' }));
+    const queue = new JobQueue();
+    const lab = new Lab402({
+      researcher: 'queue-key',
+      wallet: 'wallet',
+      transport,
+      queue,
+      approvals: new ApprovalManager([])
+    });
+
+    const analysis = await lab.request({
+      instrument: 'dna-sequencer',
+      sample: 'sample-1',
+      billing: 'streaming',
+      priority: 'high',
+      routing: { strategy: 'cost-optimized' }
+    });
+    await expect(analysis.start()).rejects.toThrow();
+
+    expect(queue.getJob(analysis.id)).toBeUndefined();
+
+    await lab.close();
+  });
+
+  it('starts concurrent runs and queues them for the instrument when they run', async () => {
+    const queue = new JobQueue();
+    const lab = new Lab402({ researcher: 'queue-key', wallet: 'wallet', transport: new MockTransport(), queue });
+    const request = { instrument: 'dna-sequencer' as const, sample: 'sample-1', priority: 'normal' as const, routing: { strategy: 'cost-optimized' } };
+
+    const first = await lab.request(request);
+    const second = await lab.request(request);
+    await Promise.all([first.start(), second.start()]);
+
+    expect(queue.getJobs('stanford-lab', 'dna-sequencer')).toHaveLength(0);
+
+    const running = [first.run(), second.run()];
+
+    await vi.waitFor(() => expect(first.getStatus()).toBe('processing'));
+    expect(second.getStatus()).toBe('queued');
+    expect(second.getQueuePosition()).toMatchObject({ status: 'queued', position: 1, ahead: 0 });
+
+    // Nothing has run yet, so a queued run is refunded in full
+    const decision = await second.cancel();
+    expect(decision).toMatchObject({ stage: 'pending', amount: second.getInvoice().totalCost });
+
+    await first.cancel();
+    await Promise.all(running);
+
+    expect(queue.getJobs('stanford-lab', 'dna-sequencer')).toHaveLength(0);
+
+    await lab.close();
+  });
+
+  it('hands the instrument to the next run when the running one is cancelled', async () => {
+    const queue = new JobQueue();
+    const lab = new Lab402({ researcher: 'queue-key', wallet: 'wallet', transport: new MockTransport(), queue });
+    const request = { instrument: 'dna-sequencer' as const, sample: 'sample-1', queue: true, routing: { strategy: 'cost-optimized' } };
+
+    const first = await lab.request(request);
+    const second = await lab.request(request);
+    await Promise.all([first.start(), second.start()]);
+    const running = [first.run(), second.run()];
+
+    await first.cancel();
+
+    await vi.waitFor(() => expect(second.getStatus()).toBe('processing'));
+    expect(second.getQueuePosition()).toMatchObject({ position: 0, status: 'running' });
+
+    await lab.close();
+    await Promise.all(running);
+  });
+
+  it('leaves runs that ask for no priority out of the queue', async () => {
+    const queue = new JobQueue();
+    const lab = new Lab402({ researcher: 'queue-key', wallet: 'wallet', transport: new MockTransport(), queue });
+
+    const analysis = await lab.request({ instrument: 'dna-sequencer', sample: 'sample-1', routing: { strategy: 'cost-optimized' } });
+    await analysis.start();
+    const running = analysis.run();
+
+    await vi.waitFor(() => expect(analysis.getStatus()).toBe('processing'));
+    expect(analysis.getQueuePosition()).toBeUndefined();
+    expect(queue.getJobs('stanford-lab', 'dna-sequencer')).toHaveLength(0);
+
+    await lab.close();
+    await running;
+  });
+});
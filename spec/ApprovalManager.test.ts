@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ApprovalManager } from '../lib/ApprovalManager';
+import { CredentialIssuer } from '../lib/CredentialIssuer';
+import { Identity403 } from '../lib/Identity403';
+import { MockTransport } from '../lib/MockTransport';
+import { Lab402 } from '../lib/Lab402';
+import { ApprovalError, ApprovalRejectedError, ApprovalRequiredError } from '../lib/errors';
+import { MOCK_ISSUER } from '../lib/mock-data';
+import type { ApprovalContext, ApproverSignature } from '../lib/approval-types';
+import type { SignedCredential } from '../lib/identity-types';
+
+const CLAIMS = {
+  institution: 'Test University',
+  clearanceLevel: 3,
+  credentials: ['PhD'],
+  specializations: ['genomics']
+};
+
+const university = new CredentialIssuer('test-university', 'Test University');
+
+function researcher(key: string, issuer: CredentialIssuer = university) {
+  const identity = new Identity403(key, new MockTransport(), { trustedIssuers: [issuer.publicKey] });
+  const credential = issuer.issue(identity.getPublicKey(), CLAIMS);
+  return { identity, credential, id: identity.verifyCredential(credential).id };
+}
+
+async function sign(
+  manager: ApprovalManager,
+  approvalId: string,
+  signer: { identity: Identity403; credential: SignedCredential }
+): Promise<ApproverSignature> {
+  const proof = await signer.identity.generateProof(manager.issueChallenge(approvalId));
+  return { credential: signer.credential, proof };
+}
+
+describe('ApprovalManager', () => {
+  const requester = researcher('requester-key');
+  const pis = ['pi-1-key', 'pi-2-key', 'pi-3-key'].map(key => researcher(key));
+  let manager: ApprovalManager;
+  let context: ApprovalContext;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    manager = new ApprovalManager(undefined, { trustedIssuers: [university.publicKey] });
+    context = {
+      instrument: 'x-ray-diffraction',
+      amount: 200,
+      identity: requester.identity.verifyCredential(requester.credential)
+    };
+  });
+
+  it('requires sign-off for matching instruments, amounts and policy decisions', () => {
+    expect(manager.evaluate({ ...context, instrument: 'nmr' })).toEqual([]);
+    expect(manager.evaluate(context).map(r => r.rule)).toEqual(['x-ray-diffraction']);
+    expect(manager.evaluate({ ...context, amount: 1000 }).map(r => r.rule)).toEqual(['x-ray-diffraction', 'high-value']);
+    expect(manager.evaluate({
+      ...context,
+      instrument: 'nmr',
+      decision: { effect: 'require-approval', explanation: 'Approval required', evaluations: [] }
+    })).toMatchObject([{ rule: 'policy:default', reason: 'Approval required' }]);
+  });
+
+  it('approves once every requirement has its sign-offs', async () => {
+    manager.addRule({ id: 'two-pis', instruments: ['x-ray-diffraction'], approvers: pis.map(pi => pi.id), requiredApprovals: 2 });
+    const approval = manager.open('analysis-1', context);
+    const approved = manager.waitFor(approval.id);
+
+    manager.approve(approval.id, await sign(manager, approval.id, pis[0]));
+    expect(manager.getOutstanding(approval).map(r => r.rule)).toEqual(['two-pis']);
+
+    manager.approve(approval.id, await sign(manager, approval.id, pis[1]));
+
+    await expect(approved).resolves.toMatchObject({ status: 'approved' });
+    expect(manager.getPending()).toEqual([]);
+  });
+
+  it('refuses a second sign-off from the same approver', async () => {
+    manager.addRule({ id: 'two-pis', instruments: ['x-ray-diffraction'], approvers: pis.map(pi => pi.id), requiredApprovals: 2 });
+    const approval = manager.open('analysis-1', context);
+
+    manager.approve(approval.id, await sign(manager, approval.id, pis[0]));
+    const again = await sign(manager, approval.id, pis[0]);
+
+    expect(() => manager.approve(approval.id, again)).toThrow(ApprovalError);
+    expect(manager.getPending(pis[0].id)).toEqual([]);
+    expect(manager.getPending(pis[1].id)).toHaveLength(1);
+  });
+
+  it('rejects the whole approval on a single rejection', async () => {
+    const approval = manager.open('analysis-1', context);
+
+    manager.reject(approval.id, await sign(manager, approval.id, pis[0]), 'Too expensive');
+
+    await expect(manager.waitFor(approval.id)).rejects.toBeInstanceOf(ApprovalRejectedError);
+    const late = await sign(manager, approval.id, pis[1]).catch(error => error);
+    expect(late).toBeInstanceOf(ApprovalError);
+  });
+
+  it('hands out copies that cannot change the approval', async () => {
+    const approval = manager.open('analysis-1', context);
+    approval.status = 'approved';
+    approval.requirements[0].requiredApprovals = 0;
+    manager.getApproval(approval.id)!.signoffs.push({ ...approval.signoffs[0], decision: 'approve' });
+
+    expect(manager.getApproval(approval.id)).toMatchObject({ status: 'pending', signoffs: [] });
+    expect(manager.getOutstanding(approval).map(r => r.requiredApprovals)).toEqual([1]);
+
+    const approved = manager.approve(approval.id, await sign(manager, approval.id, pis[0]));
+    approved.status = 'rejected';
+
+    await expect(manager.waitFor(approval.id)).resolves.toMatchObject({ status: 'approved' });
+  });
+
+  it('withdraws a pending approval', async () => {
+    const approval = manager.open('analysis-1', context);
+    const waiting = manager.waitFor(approval.id);
+
+    manager.cancel(approval.id, 'Analysis cancelled');
+
+    await expect(waiting).rejects.toBeInstanceOf(ApprovalRejectedError);
+    expect(manager.getApproval(approval.id)?.status).toBe('cancelled');
+  });
+});
+
+describe('ApprovalManager sign-offs', () => {
+  const requester = researcher('requester-key');
+  const reviewer = researcher('reviewer-key');
+  let manager: ApprovalManager;
+  let context: ApprovalContext;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    manager = new ApprovalManager(undefined, { trustedIssuers: [university.publicKey] });
+    context = {
+      instrument: 'x-ray-diffraction',
+      amount: 200,
+      identity: requester.identity.verifyCredential(requester.credential)
+    };
+  });
+
+  it('approves with a verified credential and key proof', async () => {
+    const approval = manager.open('analysis-1', context);
+
+    const approved = manager.approve(approval.id, await sign(manager, approval.id, reviewer), 'Looks fine');
+
+    expect(approved.status).toBe('approved');
+    expect(approved.signoffs[0]).toMatchObject({
+      approver: reviewer.id,
+      publicKey: reviewer.identity.getPublicKey(),
+      credentialId: reviewer.credential.credential.id,
+      decision: 'approve'
+    });
+  });
+
+  it('rejects self-approval by the requester', async () => {
+    const approval = manager.open('analysis-1', context);
+    const signature = await sign(manager, approval.id, requester);
+
+    expect(() => manager.approve(approval.id, signature)).toThrow(/cannot sign/);
+    expect(approval.status).toBe('pending');
+  });
+
+  it('rejects approvers whose credential comes from an untrusted issuer', async () => {
+    const stranger = researcher('stranger-key', new CredentialIssuer('diploma-mill'));
+    const approval = manager.open('analysis-1', context);
+    const signature = await sign(manager, approval.id, stranger);
+
+    expect(() => manager.approve(approval.id, signature)).toThrow(ApprovalError);
+    expect(approval.signoffs).toHaveLength(0);
+  });
+
+  it('rejects a bare approver ID', () => {
+    const approval = manager.open('analysis-1', context);
+
+    expect(() => manager.approve(approval.id, 'anyone' as any)).toThrow(/credential and a key proof/);
+  });
+
+  it('rejects a credential presented with someone else\'s key proof', async () => {
+    const approval = manager.open('analysis-1', context);
+    const { proof } = await sign(manager, approval.id, requester);
+
+    expect(() => manager.approve(approval.id, { credential: reviewer.credential, proof })).toThrow(/proof rejected/);
+  });
+
+  it('rejects proofs answering a challenge for another approval or already used', async () => {
+    const first = manager.open('analysis-1', context);
+    const second = manager.open('analysis-2', context);
+    const signature = await sign(manager, first.id, reviewer);
+
+    expect(() => manager.approve(second.id, signature)).toThrow(/does not answer a challenge/);
+
+    manager.approve(first.id, signature);
+    const third = manager.open('analysis-3', context);
+    expect(() => manager.approve(third.id, signature)).toThrow(ApprovalError);
+  });
+
+  it('rejects revoked approver credentials', async () => {
+    manager.revokeCredential(reviewer.credential.credential.id);
+    const approval = manager.open('analysis-1', context);
+    const signature = await sign(manager, approval.id, reviewer);
+
+    expect(() => manager.reject(approval.id, signature)).toThrow(/revoked/);
+  });
+
+  it('limits sign-offs to the rule\'s approvers', async () => {
+    const restricted = new ApprovalManager(
+      [{ id: 'pi-only', instruments: ['x-ray-diffraction'], approvers: ['someone-else'] }],
+      { trustedIssuers: [university.publicKey] }
+    );
+    const approval = restricted.open('analysis-1', context);
+
+    await expect(sign(restricted, approval.id, reviewer).then(s => restricted.approve(approval.id, s)))
+      .rejects.toThrow(/cannot sign/);
+  });
+});
+
+describe('Lab402 approvals', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('does not let a researcher approve their own request', async () => {
+    const lab = new Lab402({ researcher: 'requester-key', wallet: 'wallet' });
+    const analysis = await lab.request({ instrument: 'x-ray-diffraction', sample: 'crystal-1' });
+    const approvalId = analysis.getApproval()!.id;
+
+    await expect(lab.approve(approvalId)).rejects.toThrow(/cannot sign/);
+    expect(lab.getApproval(approvalId)!.status).toBe('pending');
+    expect((lab as any).getApprovals).toBeUndefined();
+
+    analysis.getApproval()!.status = 'approved';
+    expect(analysis.getStatus()).toBe('awaiting-approval');
+    await expect(analysis.start()).rejects.toBeInstanceOf(ApprovalRequiredError);
+
+    await lab.close();
+  });
+
+  it('accepts a sign-off from another verified researcher sharing the manager', async () => {
+    const approvals = new ApprovalManager(undefined, { trustedIssuers: [MOCK_ISSUER.publicKey] });
+    const lab = new Lab402({ researcher: 'requester-key', wallet: 'wallet', approvals });
+    const supervisor = new Lab402({ researcher: 'supervisor-key', wallet: 'wallet', approvals });
+    const analysis = await lab.request({ instrument: 'x-ray-diffraction', sample: 'crystal-1' });
+    const approvalId = analysis.getApproval()!.id;
+
+    expect((await supervisor.getPendingApprovals()).map(a => a.id)).toContain(approvalId);
+
+    const approval = await supervisor.approve(approvalId, 'Beamtime approved');
+    expect(approval.status).toBe('approved');
+
+    await lab.close();
+    await supervisor.close();
+  });
+});
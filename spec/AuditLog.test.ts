@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLog } from '../lib/AuditLog';
+import { MemoryAuditStore } from '../lib/MemoryAuditStore';
+import { JsonLinesAuditStore } from '../lib/JsonLinesAuditStore';
+import type { AuditRecord } from '../lib/audit-types';
+
+describe('AuditLog', () => {
+  function writeRecords(count: number): AuditRecord[] {
+    const store = new MemoryAuditStore();
+    const log = new AuditLog(store);
+    for (let i = 0; i < count; i++) {
+      log.append('payment', `inv-${i}`, { amount: i }, 'researcher-1');
+    }
+    return store.load().map(record => ({ ...record, data: { ...record.data } }));
+  }
+
+  function verify(records: AuditRecord[], expectedHead?: string) {
+    return new AuditLog(new MemoryAuditStore(records)).verify(expectedHead);
+  }
+
+  it('chains each record to the one before it', () => {
+    const records = writeRecords(3);
+
+    expect(records.map(r => r.sequence)).toEqual([0, 1, 2]);
+    expect(records[2].prevHash).toBe(records[1].hash);
+    expect(verify(records)).toMatchObject({ valid: true, recordsChecked: 3, head: records[2].hash });
+  });
+
+  it('detects a record edited after it was written', () => {
+    const records = writeRecords(3);
+    records[1].data.amount = 100;
+
+    expect(verify(records).issues.map(issue => [issue.type, issue.sequence])).toEqual([['hash-mismatch', 1]]);
+  });
+
+  it('detects a record removed from the middle', () => {
+    const records = writeRecords(3);
+    records.splice(1, 1);
+
+    expect(verify(records).issues.map(issue => [issue.type, issue.sequence])).toEqual([
+      ['sequence-gap', 2],
+      ['broken-link', 2]
+    ]);
+  });
+
+  it('detects records removed from the end against a saved head', () => {
+    const records = writeRecords(3);
+    const head = records[2].hash;
+
+    expect(verify(records.slice(0, 2)).valid).toBe(true);
+    expect(verify(records.slice(0, 2), head).issues.map(issue => issue.type)).toEqual(['head-mismatch']);
+  });
+
+  it('queries records by type, subject and actor', () => {
+    const log = new AuditLog();
+    log.append('access.check', 'nmr', { granted: true }, 'researcher-1');
+    log.append('payment', 'inv-1', { amount: 5 }, 'researcher-2');
+
+    expect(log.query({ type: 'payment' }).map(r => r.subject)).toEqual(['inv-1']);
+    expect(log.query({ actor: 'researcher-1' }).map(r => r.type)).toEqual(['access.check']);
+    expect(log.exportJsonLines({ subject: 'nmr' }).trim().split('\n')).toHaveLength(1);
+  });
+});
+
+describe('AuditLog with a JSON Lines store', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lab402-audit-'));
+    path = join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeLog(count: number): string[] {
+    const log = new AuditLog(new JsonLinesAuditStore(path));
+    for (let i = 0; i < count; i++) {
+      log.append('payment', `inv-${i}`, { amount: i });
+    }
+    return readFileSync(path, 'utf8').trim().split('\n');
+  }
+
+  it('verifies an untouched log', () => {
+    writeLog(3);
+
+    const result = new AuditLog(new JsonLinesAuditStore(path)).verify();
+
+    expect(result.valid).toBe(true);
+    expect(result.recordsChecked).toBe(3);
+  });
+
+  it('reports a corrupt line at its index instead of throwing', () => {
+    const lines = writeLog(3);
+    lines[1] = lines[1].slice(0, 20);
+    writeFileSync(path, lines.join('\n') + '\n');
+
+    const result = new AuditLog(new JsonLinesAuditStore(path)).verify();
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(issue => [issue.type, issue.sequence])).toEqual([['unreadable-record', 1]]);
+  });
+
+  it('reports a truncated last line', () => {
+    const lines = writeLog(2);
+    writeFileSync(path, `${lines[0]}\n${lines[1].slice(0, -5)}`);
+
+    const log = new AuditLog(new JsonLinesAuditStore(path));
+    const result = log.verify();
+
+    expect(result.issues.map(issue => [issue.type, issue.sequence])).toEqual([['unreadable-record', 1]]);
+    expect(log.query()).toHaveLength(1);
+  });
+});
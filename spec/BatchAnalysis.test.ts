@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Payment402 } from '../lib/Payment402';
+import { BatchManager } from '../lib/BatchManager';
+import { MockTransport } from '../lib/MockTransport';
+import type { BatchAnalysis } from '../lib/BatchAnalysis';
+
+describe('BatchAnalysis invoices', () => {
+  let payment: Payment402;
+  let batch: BatchAnalysis;
+  let failures: number;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    failures = 1;
+
+    const transport = new MockTransport();
+    transport.on('POST', '/payments', (request) => failures-- > 0
+      ? MockTransport.json(500, { error: 'Wallet unavailable' })
+      : MockTransport.json(200, { txHash: MockTransport.generateTxHash(), amount: request.body?.amount }));
+
+    payment = new Payment402('lab-wallet', transport);
+    batch = new BatchManager(payment).createBatch(
+      { instrument: 'dna-sequencer', samples: [{ id: 'sample-1', data: {} }] },
+      100
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries with the same invoice while it is open', async () => {
+    await expect(batch.start()).rejects.toThrow();
+    await batch.start();
+
+    expect(batch.getInvoice()).toMatchObject({ status: 'paid', invoice: { analysisId: batch.id } });
+  });
+
+  it('reissues an invoice that expired before the retry', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    await expect(batch.start()).rejects.toThrow();
+    vi.setSystemTime(Date.now() + 2 * 3600000);
+    await batch.start();
+
+    const reissued = batch.getInvoice()!;
+    expect(reissued).toMatchObject({ status: 'paid', invoice: { analysisId: `${batch.id}-1` } });
+    expect(reissued.invoice.expiresAt).toBeGreaterThan(Date.now());
+    expect(payment.getInvoice(batch.id)?.status).toBe('expired');
+    expect(payment.getLedger().query({ invoiceId: reissued.invoice.analysisId }).map(entry => entry.type))
+      .toEqual(['invoice', 'settlement', 'completion']);
+  });
+
+  it('reissues a voided invoice', async () => {
+    await expect(batch.start()).rejects.toThrow();
+    payment.voidInvoice(batch.id, 'Superseded');
+    await batch.start();
+
+    expect(batch.getInvoice()).toMatchObject({ status: 'paid', invoice: { analysisId: `${batch.id}-1` } });
+  });
+});
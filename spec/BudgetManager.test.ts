@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BudgetManager } from '../lib/BudgetManager';
+import { BudgetExceededError } from '../lib/errors';
+
+const ALICE = { researcher: 'alice', project: 'genome' };
+const BOB = { researcher: 'bob' };
+
+describe('BudgetManager', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('debits authorized spend and credits refunds back', () => {
+    const budget = new BudgetManager([{ id: 'alice', scope: { researcher: 'alice' }, window: 'total', hardLimit: 100 }]);
+
+    budget.authorize(60, ALICE, 'analysis-1');
+    expect(budget.getRemaining(ALICE)).toBe(40);
+
+    budget.record(-25, ALICE, 'analysis-1');
+    expect(budget.getRemaining(ALICE)).toBe(65);
+  });
+
+  it('rejects spend beyond a hard limit without recording it', () => {
+    const budget = new BudgetManager([{ id: 'alice', scope: { researcher: 'alice' }, window: 'total', hardLimit: 100 }]);
+    const exceeded = vi.fn();
+    budget.on('budget.exceeded', exceeded);
+
+    budget.authorize(80, ALICE, 'analysis-1');
+
+    expect(() => budget.authorize(30, ALICE, 'analysis-2')).toThrow(BudgetExceededError);
+    expect(exceeded).toHaveBeenCalledTimes(1);
+    expect(exceeded.mock.calls[0][0].data.remaining).toBe(20);
+    expect(budget.getRemaining(ALICE)).toBe(20);
+  });
+
+  it('warns when a soft limit is crossed but still records the spend', () => {
+    const budget = new BudgetManager([{ id: 'genome', scope: { project: 'genome' }, window: 'total', softLimit: 50 }]);
+    const warning = vi.fn();
+    budget.on('budget.warning', warning);
+
+    const result = budget.authorize(70, ALICE, 'analysis-1');
+
+    expect(result.outcome).toBe('warning');
+    expect(warning).toHaveBeenCalledTimes(1);
+    expect(budget.getSpendHistory({ project: 'genome' }).map(r => r.amount)).toEqual([70]);
+  });
+
+  it('caps single requests with maxPerRequest', () => {
+    const budget = new BudgetManager([{ id: 'cap', scope: {}, window: 'total', maxPerRequest: 25 }]);
+
+    expect(budget.check(30, BOB).outcome).toBe('exceeded');
+    expect(() => budget.authorize(30, BOB, 'analysis-1')).toThrow(BudgetExceededError);
+    expect(budget.authorize(25, BOB, 'analysis-2').outcome).toBe('ok');
+  });
+
+  it('only counts spend inside a rolling window', () => {
+    vi.useFakeTimers();
+    try {
+      const budget = new BudgetManager([{ id: 'daily', scope: {}, window: 'day', hardLimit: 100 }]);
+
+      budget.authorize(90, BOB, 'analysis-1');
+      expect(() => budget.authorize(20, BOB, 'analysis-2')).toThrow(BudgetExceededError);
+
+      vi.advanceTimersByTime(86400001);
+      expect(budget.authorize(20, BOB, 'analysis-2').outcome).toBe('ok');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('ages credits out of the window with the spend they cancel', () => {
+    vi.useFakeTimers();
+    try {
+      const budget = new BudgetManager([{ id: 'daily', scope: {}, window: 'day', hardLimit: 100 }]);
+      const spentAt = Date.now();
+
+      budget.authorize(90, BOB, 'analysis-1');
+      vi.advanceTimersByTime(12 * 3600000);
+      budget.record(-90, BOB, 'analysis-1');
+      budget.authorize(80, BOB, 'analysis-2');
+
+      vi.advanceTimersByTime(13 * 3600000);
+
+      expect(budget.getRemaining(BOB)).toBe(20);
+      expect(budget.getSpendHistory().map(r => r.timestamp)).toEqual([spentAt, spentAt, spentAt + 12 * 3600000]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('applies limits only to their own scope', () => {
+    const budget = new BudgetManager([{ id: 'alice', scope: { researcher: 'alice' }, window: 'total', hardLimit: 10 }]);
+
+    expect(budget.authorize(50, BOB, 'analysis-1').outcome).toBe('ok');
+    expect(budget.getRemaining(BOB)).toBeUndefined();
+  });
+});
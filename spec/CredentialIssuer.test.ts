@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { CredentialIssuer, encodeCredentialMessage } from '../lib/CredentialIssuer';
+import { decodeBase58, verifyBytes } from '../lib/crypto';
+
+const CLAIMS = {
+  institution: 'MIT Research Lab',
+  clearanceLevel: 3,
+  credentials: ['PhD'],
+  specializations: ['genomics']
+};
+
+describe('CredentialIssuer', () => {
+  it('signs the credential claims with its key', () => {
+    const issuer = new CredentialIssuer('university', 'University');
+
+    const { credential, signature } = issuer.issue('researcher-key', CLAIMS, 60000);
+
+    expect(credential).toMatchObject({ subject: 'researcher-key', issuer: issuer.publicKey, issuerName: 'University', ...CLAIMS });
+    expect(credential.expiresAt - credential.issuedAt).toBe(60000);
+    expect(verifyBytes(decodeBase58(issuer.publicKey), encodeCredentialMessage(credential), decodeBase58(signature))).toBe(true);
+    expect(verifyBytes(
+      decodeBase58(issuer.publicKey),
+      encodeCredentialMessage({ ...credential, clearanceLevel: 5 }),
+      decodeBase58(signature)
+    )).toBe(false);
+  });
+
+  it('derives the same issuer key from the same seed', () => {
+    expect(new CredentialIssuer('university').publicKey).toBe(new CredentialIssuer('university').publicKey);
+    expect(new CredentialIssuer('university').publicKey).not.toBe(new CredentialIssuer('consortium').publicKey);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileLabSource } from '../lib/FileLabSource';
+
+describe('FileLabSource', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lab402-catalog-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads a JSON catalog', async () => {
+    const path = join(dir, 'labs.json');
+    writeFileSync(path, JSON.stringify({ labs: [{ id: 'lab-1' }] }));
+
+    expect(await new FileLabSource(path).load()).toEqual({ labs: [{ id: 'lab-1' }] });
+  });
+
+  it('refuses a YAML catalog without a parser', () => {
+    expect(() => new FileLabSource(join(dir, 'labs.yaml'))).toThrow(/needs a YAML parser/);
+    expect(() => new FileLabSource(join(dir, 'labs.YML'))).toThrow(/needs a YAML parser/);
+  });
+
+  it('reads a YAML catalog with the parser it is given', async () => {
+    const path = join(dir, 'labs.yml');
+    writeFileSync(path, '- id: lab-1\n');
+    const parse = (text: string) => [{ id: text.trim().slice('- id: '.length) }];
+
+    expect(await new FileLabSource(path, { parse }).load()).toEqual([{ id: 'lab-1' }]);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HealthMonitor } from '../lib/HealthMonitor';
+import { LabRegistry } from '../lib/LabRegistry';
+import { Lab402 } from '../lib/Lab402';
+import { ApprovalManager } from '../lib/ApprovalManager';
+import { BudgetManager } from '../lib/BudgetManager';
+import { MOCK_ISSUER, MOCK_LABS } from '../lib/mock-data';
+import { BudgetExceededError, RoutingError } from '../lib/errors';
+
+describe('HealthMonitor', () => {
+  let monitor: HealthMonitor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    monitor = new HealthMonitor({ window: 10000, heartbeatTimeout: 2000, degradedLoad: 80 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rolls uptime and load over the window', () => {
+    monitor.recordHeartbeat({ labId: 'lab-a', load: 40 });
+    monitor.recordHeartbeat({ labId: 'lab-a', up: false });
+    monitor.recordHeartbeat({ labId: 'lab-a', load: 60 });
+
+    expect(monitor.getHealth('lab-a')).toMatchObject({ status: 'healthy', load: 50, samples: 3 });
+    expect(monitor.getHealth('lab-a').uptime).toBeCloseTo(200 / 3, 6);
+
+    vi.advanceTimersByTime(10001);
+    monitor.recordHeartbeat({ labId: 'lab-a', load: 90 });
+
+    expect(monitor.getHealth('lab-a')).toMatchObject({ status: 'degraded', uptime: 100, load: 90, samples: 1 });
+  });
+
+  it('reports labs it has never heard from as unknown and available', () => {
+    expect(monitor.getHealth('lab-z')).toMatchObject({ status: 'unknown', circuit: 'closed', samples: 0 });
+    expect(monitor.isAvailable('lab-z')).toBe(true);
+  });
+
+  it('counts a missed heartbeat once per timeout', async () => {
+    const missed = vi.fn();
+    monitor.on('lab.heartbeat.missed', missed);
+    monitor.recordHeartbeat({ labId: 'lab-a' });
+
+    vi.advanceTimersByTime(2001);
+    await monitor.check();
+    await monitor.check();
+
+    expect(missed).toHaveBeenCalledTimes(1);
+    expect(monitor.getHealth('lab-a')).toMatchObject({ status: 'down', consecutiveFailures: 1 });
+  });
+});
+
+describe('HealthMonitor circuit breaker', () => {
+  let monitor: HealthMonitor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    monitor = new HealthMonitor({ failureThreshold: 2, resetTimeout: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after consecutive failures and goes half-open after the reset timeout', () => {
+    monitor.recordFailure('lab-a');
+    expect(monitor.isAvailable('lab-a')).toBe(true);
+
+    monitor.recordFailure('lab-a');
+    expect(monitor.isAvailable('lab-a')).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(monitor.getHealth('lab-a').circuit).toBe('half-open');
+    expect(monitor.isAvailable('lab-a')).toBe(true);
+  });
+
+  it('lets a single trial request through while half-open', () => {
+    monitor.recordFailure('lab-a');
+    monitor.recordFailure('lab-a');
+    vi.advanceTimersByTime(1000);
+
+    expect(monitor.beginTrial('lab-a')).toBe(true);
+    expect(monitor.isAvailable('lab-a')).toBe(false);
+    expect(monitor.beginTrial('lab-a')).toBe(false);
+
+    monitor.recordSuccess('lab-a');
+    expect(monitor.getHealth('lab-a').circuit).toBe('closed');
+    expect(monitor.isAvailable('lab-a')).toBe(true);
+  });
+
+  it('reopens when the trial fails and frees a trial that never reports back', () => {
+    monitor.recordFailure('lab-a');
+    monitor.recordFailure('lab-a');
+    vi.advanceTimersByTime(1000);
+
+    monitor.beginTrial('lab-a');
+    monitor.recordFailure('lab-a');
+    expect(monitor.getHealth('lab-a').circuit).toBe('open');
+
+    vi.advanceTimersByTime(1000);
+    monitor.beginTrial('lab-a');
+    expect(monitor.isAvailable('lab-a')).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(monitor.isAvailable('lab-a')).toBe(true);
+  });
+
+  it('closes on a successful trial and reopens on a failed one', () => {
+    const opened = vi.fn();
+    monitor.on('lab.circuit.open', opened);
+    monitor.recordFailure('lab-a');
+    monitor.recordFailure('lab-a');
+    vi.advanceTimersByTime(1000);
+
+    monitor.recordFailure('lab-a');
+    expect(monitor.getHealth('lab-a').circuit).toBe('open');
+    expect(opened).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(1000);
+    monitor.recordSuccess('lab-a');
+    expect(monitor.getHealth('lab-a')).toMatchObject({ circuit: 'closed', consecutiveFailures: 0 });
+  });
+});
+
+describe('LabRegistry with a health monitor', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('uses observed load and leaves out labs with open circuits', () => {
+    const health = new HealthMonitor({ failureThreshold: 1 });
+    const registry = new LabRegistry(undefined, { labs: MOCK_LABS, health });
+
+    health.recordHeartbeat({ labId: 'mit-biolab', load: 95 });
+    health.recordFailure('stanford-lab');
+
+    expect(registry.getAvailableLabs('dna-sequencer').map(lab => lab.id)).toEqual(['oxford-lab', 'singapore-biolab']);
+
+    health.recordHeartbeat({ labId: 'mit-biolab', load: 5 });
+    const mit = registry.getAvailableLabs('dna-sequencer').find(lab => lab.id === 'mit-biolab');
+    expect(mit?.currentLoad).toBe(50);
+  });
+});
+
+describe('Lab402 health polling', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('does not poll labs registered locally', async () => {
+    const lab = new Lab402({ researcher: 'health-key', wallet: 'wallet' });
+    lab.registerLab({ ...MOCK_LABS[0], id: 'our-facility', name: 'Our Facility' });
+
+    const monitor = lab.getHealthMonitor();
+    for (let i = 0; i < 5; i++) {
+      await monitor.check();
+    }
+
+    expect(monitor.getHealth('our-facility').consecutiveFailures).toBe(0);
+    expect(lab.getLabsByInstrument('dna-sequencer').map(l => l.id)).toContain('our-facility');
+    expect(monitor.isAvailable('our-facility')).toBe(true);
+
+    await lab.close();
+  });
+});
+
+describe('Lab402 half-open trials', () => {
+  const request = { instrument: 'dna-sequencer' as const, sample: 'sample-1', routing: { strategy: 'cost-optimized' } };
+  let health: HealthMonitor;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    health = new HealthMonitor({ failureThreshold: 1, resetTimeout: 50 });
+    health.recordFailure('stanford-lab');
+    await new Promise(resolve => setTimeout(resolve, 60));
+  });
+
+  it('leaves the trial to others when the request is refused before it is sent', async () => {
+    const budget = new BudgetManager([{ id: 'cap', scope: {}, window: 'total', hardLimit: 1 }]);
+    const lab = new Lab402({ researcher: 'trial-key', wallet: 'wallet', health, budget });
+
+    await expect(lab.request(request)).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(health.isAvailable('stanford-lab')).toBe(true);
+
+    await lab.close();
+  });
+
+  it('frees the trial when the approval is rejected', async () => {
+    const approvals = new ApprovalManager(
+      [{ id: 'sequencing', instruments: ['dna-sequencer'] }],
+      { trustedIssuers: [MOCK_ISSUER.publicKey] }
+    );
+    const lab = new Lab402({ researcher: 'trial-key', wallet: 'wallet', health, approvals });
+    const supervisor = new Lab402({ researcher: 'supervisor-key', wallet: 'wallet', approvals });
+
+    const analysis = await lab.request(request);
+    expect(health.isAvailable('stanford-lab')).toBe(false);
+
+    await supervisor.reject(analysis.getApproval()!.id, 'Not now');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(health.isAvailable('stanford-lab')).toBe(true);
+
+    await lab.close();
+    await supervisor.close();
+  });
+
+  it('refuses a request whose trial another request took first', async () => {
+    const lab = new Lab402({ researcher: 'trial-key', wallet: 'wallet', health });
+
+    const results = await Promise.allSettled([lab.request(request), lab.request(request)]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    const error = (results[1] as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(RoutingError);
+    expect(error).toMatchObject({ code: 'NO_LABS_AVAILABLE', eliminated: [{ lab: 'stanford-lab', filter: 'availability' }] });
+
+    await lab.close();
+  });
+});
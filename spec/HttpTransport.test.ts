@@ -0,0 +1,178 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { HttpTransport } from '../lib/HttpTransport';
+import { TransportError } from '../lib/errors';
+import { Payment402 } from '../lib/Payment402';
+import type { Transport, TransportRequest } from '../lib/transport-types';
+import type { UnifiedInvoice } from '../lib/types';
+
+function stubFetch(statuses: number[]) {
+  const calls: Array<{ method: string; headers: Record<string, string> }> = [];
+  const fetch = vi.fn(async (_url: string, init: any) => {
+    calls.push({ method: init.method, headers: init.headers });
+    const status = statuses[Math.min(calls.length - 1, statuses.length - 1)];
+    return new Response(JSON.stringify({ ok: status < 300 }), {
+      status,
+      headers: { 'content-type': 'application/json' }
+    });
+  });
+
+  vi.stubGlobal('fetch', fetch);
+  return calls;
+}
+
+describe('HttpTransport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubResponses(statuses: number[]) {
+    const fetch = vi.fn(async (_url: string, _init: any) => {
+      const status = statuses[Math.min(fetch.mock.calls.length - 1, statuses.length - 1)];
+      return new Response(JSON.stringify({ status }), {
+        status,
+        headers: { 'content-type': 'application/json' }
+      });
+    });
+
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  it('builds the URL and sends JSON with the configured headers', async () => {
+    const fetch = stubResponses([200]);
+    const transport = new HttpTransport({ endpoint: 'https://gateway.test/', headers: { authorization: 'Bearer key' } });
+
+    const response = await transport.request({
+      method: 'POST',
+      path: 'analyses',
+      query: { priority: 2, dryRun: undefined },
+      body: { sample: 'sample-1' }
+    });
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://gateway.test/analyses?priority=2');
+    expect(init.headers).toMatchObject({ authorization: 'Bearer key', 'content-type': 'application/json' });
+    expect(init.body).toBe(JSON.stringify({ sample: 'sample-1' }));
+    expect(response).toMatchObject({ status: 200, data: { status: 200 } });
+  });
+
+  it('returns 402 and 403 to the caller without retrying', async () => {
+    const fetch = stubResponses([402]);
+    const transport = new HttpTransport({ endpoint: 'https://gateway.test', retryDelay: 0 });
+
+    const response = await transport.request({ method: 'GET', path: '/reports/1' });
+
+    expect(response.status).toBe(402);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the last 5xx once the retries run out', async () => {
+    const fetch = stubResponses([503]);
+    const transport = new HttpTransport({ endpoint: 'https://gateway.test', retries: 2, retryDelay: 0 });
+
+    const response = await transport.request({ method: 'GET', path: '/labs' });
+
+    expect(response.status).toBe(503);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails with a TransportError when a request times out', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: any) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    })));
+    const transport = new HttpTransport({ endpoint: 'https://gateway.test', timeout: 10, retries: 0 });
+
+    const request = transport.request({ method: 'GET', path: '/labs' });
+
+    await expect(request).rejects.toBeInstanceOf(TransportError);
+    await expect(request).rejects.toThrow('GET /labs timed out after 10ms');
+  });
+});
+
+describe('HttpTransport retries', () => {
+  const transport = new HttpTransport({ endpoint: 'https://gateway.test', retries: 2, retryDelay: 0 });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('retries idempotent methods on 5xx', async () => {
+    const calls = stubFetch([503, 503, 200]);
+
+    const response = await transport.request({ method: 'GET', path: '/labs' });
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('does not retry a POST without an idempotency key', async () => {
+    const calls = stubFetch([503, 200]);
+
+    const response = await transport.request({ method: 'POST', path: '/payments', body: { amount: 10 } });
+
+    expect(response.status).toBe(503);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('retries a keyed POST with the same key on every attempt', async () => {
+    const calls = stubFetch([500, 200]);
+
+    const response = await transport.request({
+      method: 'POST',
+      path: '/payments',
+      body: { amount: 10 },
+      idempotencyKey: 'payment:abc'
+    });
+
+    expect(response.status).toBe(200);
+    expect(calls.map(call => call.headers['idempotency-key'])).toEqual(['payment:abc', 'payment:abc']);
+  });
+
+  it('does not retry a POST that times out without a key', async () => {
+    const fetch = vi.fn(async () => {
+      throw Object.assign(new Error('aborted'), { name: 'AbortError' });
+    });
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(transport.request({ method: 'POST', path: '/escrows' })).rejects.toThrow(/timed out/);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Payment402 idempotency keys', () => {
+  it('keys every money-moving gateway call', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      async request(request) {
+        requests.push(request);
+        const data = request.path === '/escrows'
+          ? { escrowId: 'escrow-1' }
+          : { txHash: 'tx-1', amount: request.path.endsWith('/release') ? 5 : 0 };
+        return { status: 200, headers: {}, data } as any;
+      }
+    };
+    const payment = new Payment402('wallet', transport);
+    const invoice: UnifiedInvoice = {
+      analysisId: 'analysis-1',
+      instrumentCost: 10,
+      computeCost: 0,
+      aiCost: 0,
+      storageCost: 0,
+      totalCost: 10,
+      paymentAddress: 'lab-wallet',
+      expiresAt: Date.now() + 60000
+    };
+
+    await payment.processPayment(invoice);
+    const escrow = await payment.openEscrow(invoice);
+    await payment.chargeEscrow(escrow.id, 5, 'Instrument time');
+    await payment.releaseEscrow(escrow.id);
+    await payment.refund(1, 'Test');
+
+    const keys = requests.map(request => request.idempotencyKey);
+    expect(keys.every(key => typeof key === 'string' && key.length > 0)).toBe(true);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Identity403 } from '../lib/Identity403';
+import { CredentialIssuer } from '../lib/CredentialIssuer';
+import { MockTransport } from '../lib/MockTransport';
+import { MOCK_ISSUER } from '../lib/mock-data';
+import {
+  InvalidSignatureError,
+  CredentialError,
+  CredentialExpiredError,
+  CredentialRevokedError,
+  UntrustedIssuerError
+} from '../lib/errors';
+
+const CLAIMS = {
+  institution: 'MIT Research Lab',
+  clearanceLevel: 3,
+  credentials: ['PhD'],
+  specializations: ['genomics']
+};
+
+describe('Identity403 credential verification', () => {
+  const issuer = new CredentialIssuer('university');
+  let transport: MockTransport;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    transport = new MockTransport();
+  });
+
+  function identity(options: ConstructorParameters<typeof Identity403>[2] = {}): Identity403 {
+    return new Identity403('researcher-key', transport, { trustedIssuers: [issuer.publicKey], ...options });
+  }
+
+  it('derives the identity from a credential signed by a trusted issuer', async () => {
+    const researcher = identity();
+    const credential = issuer.issue(researcher.getPublicKey(), CLAIMS);
+
+    const verified = await identity({ credential }).verifyIdentity();
+
+    expect(verified).toMatchObject({
+      clearanceLevel: 3,
+      institution: 'MIT Research Lab',
+      issuer: issuer.publicKey,
+      credentialId: credential.credential.id
+    });
+  });
+
+  it('rejects a credential from an issuer it does not trust', async () => {
+    await expect(identity({ trustedIssuers: [] }).verifyIdentity()).rejects.toBeInstanceOf(UntrustedIssuerError);
+    await expect(identity({ trustedIssuers: [MOCK_ISSUER.publicKey] }).verifyIdentity()).resolves.toMatchObject({
+      issuer: MOCK_ISSUER.publicKey
+    });
+  });
+
+  it('rejects a revoked credential, including after verification', async () => {
+    const researcher = identity();
+    const credential = issuer.issue(researcher.getPublicKey(), CLAIMS);
+
+    expect(() => identity({ revoked: [credential.credential.id] }).verifyCredential(credential))
+      .toThrow(CredentialRevokedError);
+
+    const verified = researcher.verifyCredential(credential);
+    researcher.revokeCredential(credential.credential.id);
+    await expect(researcher.checkAccess('spectroscopy', verified)).rejects.toBeInstanceOf(CredentialRevokedError);
+  });
+
+  it('rejects an expired credential', () => {
+    const researcher = identity();
+    const credential = issuer.issue(researcher.getPublicKey(), CLAIMS, 60000);
+
+    expect(() => researcher.verifyCredential(credential, credential.credential.expiresAt))
+      .toThrow(CredentialExpiredError);
+  });
+
+  it('rejects a credential whose claims were changed or that names another key', () => {
+    const researcher = identity();
+    const credential = issuer.issue(researcher.getPublicKey(), CLAIMS);
+    const elsewhere = issuer.issue('someone-else', CLAIMS);
+
+    expect(() => researcher.verifyCredential({
+      ...credential,
+      credential: { ...credential.credential, clearanceLevel: 5 }
+    })).toThrow(InvalidSignatureError);
+    expect(() => researcher.verifyCredential(elsewhere)).toThrow(CredentialError);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InstrumentScheduler } from '../lib/InstrumentScheduler';
+import { ReservationError, ReservationConflictError } from '../lib/errors';
+
+const HOUR = 3600000;
+
+describe('InstrumentScheduler', () => {
+  let scheduler: InstrumentScheduler;
+  let now: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    now = Date.now();
+    scheduler = new InstrumentScheduler({ holdTtl: 60000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function slot(startHours: number, durationHours = 1, holder = 'alice') {
+    return {
+      labId: 'mit-biolab',
+      instrument: 'nmr' as const,
+      start: now + startHours * HOUR,
+      duration: durationHours * HOUR,
+      holder
+    };
+  }
+
+  it('rejects bookings that overlap a live reservation', () => {
+    const booked = scheduler.reserve(slot(1, 2));
+
+    expect(() => scheduler.reserve(slot(2, 2, 'bob'))).toThrow(ReservationConflictError);
+    expect(() => scheduler.hold(slot(2.5, 1, 'bob'))).toThrow(ReservationConflictError);
+    expect(scheduler.findConflicts('mit-biolab', 'nmr', { start: now + 2 * HOUR, end: now + 4 * HOUR }).map(r => r.id))
+      .toEqual([booked.id]);
+
+    // Back-to-back slots don't overlap
+    expect(scheduler.reserve(slot(3, 1, 'bob')).status).toBe('reserved');
+  });
+
+  it('lets a hold lapse unless it is confirmed in time', () => {
+    const held = scheduler.hold(slot(1));
+
+    vi.advanceTimersByTime(60001);
+
+    expect(scheduler.getReservation(held.id)?.status).toBe('expired');
+    expect(() => scheduler.confirm(held.id)).toThrow(ReservationError);
+    expect(scheduler.reserve(slot(1, 1, 'bob')).status).toBe('reserved');
+  });
+
+  it('confirms a live hold into a reservation', () => {
+    const held = scheduler.hold(slot(1));
+
+    const confirmed = scheduler.confirm(held.id);
+
+    expect(confirmed.status).toBe('reserved');
+    expect(confirmed.holdExpiresAt).toBeUndefined();
+  });
+
+  it('frees a released slot for others', () => {
+    const booked = scheduler.reserve(slot(1));
+
+    scheduler.release(booked.id, 'Plans changed');
+
+    expect(scheduler.findConflicts('mit-biolab', 'nmr', { start: booked.start, end: booked.end })).toEqual([]);
+    expect(() => scheduler.release(booked.id)).toThrow(ReservationError);
+  });
+
+  it('finds the free windows around bookings', () => {
+    scheduler.reserve(slot(1, 1));
+    scheduler.reserve(slot(3, 1));
+
+    const free = scheduler.findAvailableSlots('mit-biolab', 'nmr', HOUR, now, now + 5 * HOUR);
+
+    expect(free).toEqual([
+      { start: now, end: now + HOUR },
+      { start: now + 2 * HOUR, end: now + 3 * HOUR },
+      { start: now + 4 * HOUR, end: now + 5 * HOUR }
+    ]);
+    expect(scheduler.nextAvailable('mit-biolab', 'nmr', 2 * HOUR, now + HOUR)).toBe(now + 4 * HOUR);
+  });
+
+  it('only lets the holder attach one analysis to a reservation, once', () => {
+    const booked = scheduler.reserve(slot(1));
+
+    expect(() => scheduler.attach(booked.id, 'analysis-1', 'bob', 'nmr')).toThrow(ReservationError);
+    expect(() => scheduler.attach(booked.id, 'analysis-1', 'alice', 'mass-spec')).toThrow(ReservationError);
+
+    scheduler.attach(booked.id, 'analysis-1', 'alice', 'nmr');
+    expect(() => scheduler.attach(booked.id, 'analysis-2', 'alice', 'nmr')).toThrow(ReservationError);
+
+    scheduler.detach(booked.id, 'analysis-1');
+    expect(scheduler.attach(booked.id, 'analysis-2', 'alice', 'nmr').analysisId).toBe('analysis-2');
+  });
+});
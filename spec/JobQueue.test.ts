@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JobQueue } from '../lib/JobQueue';
+import type { JobRequest } from '../lib/queue-types';
+
+const MINUTE = 60000;
+
+describe('JobQueue', () => {
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    queue = new JobQueue();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function job(id: string, overrides: Partial<JobRequest> = {}): JobRequest {
+    return { id, labId: 'mit-biolab', instrument: 'nmr', researcher: 'alice', duration: MINUTE, ...overrides };
+  }
+
+  function order(): string[] {
+    return queue.getJobs('mit-biolab', 'nmr').map(j => `${j.id}:${j.status}`);
+  }
+
+  it('starts the first job and lines up the rest by priority', () => {
+    queue.enqueue(job('a'));
+    queue.enqueue(job('b', { priority: 'low' }));
+    queue.enqueue(job('c', { priority: 'normal' }));
+
+    expect(order()).toEqual(['a:running', 'c:queued', 'b:queued']);
+
+    queue.complete('a');
+
+    expect(order()).toEqual(['c:running', 'b:queued']);
+  });
+
+  it('lets the researcher who used the instrument least go first', () => {
+    queue.enqueue(job('a1'));
+    queue.enqueue(job('a2'));
+    queue.enqueue(job('b1', { researcher: 'bob' }));
+
+    expect(order()).toEqual(['a1:running', 'b1:queued', 'a2:queued']);
+  });
+
+  it('balances projects by their shares when asked to', () => {
+    queue = new JobQueue({ fairShare: 'project', shares: { big: 3 } });
+    queue.enqueue(job('big-1', { project: 'big' }));
+    queue.enqueue(job('big-2', { project: 'big', researcher: 'bob' }));
+    queue.enqueue(job('small-1', { project: 'small', researcher: 'bob' }));
+
+    // big has used 1 minute against a share of 3, small has used none
+    expect(order()).toEqual(['big-1:running', 'small-1:queued', 'big-2:queued']);
+  });
+
+  it('preempts a running low priority job and resumes it with the time left', () => {
+    const changes: string[] = [];
+    queue.enqueue(job('low', { priority: 'low' }), j => changes.push(`${j.status}:${j.remaining}`));
+
+    vi.advanceTimersByTime(20000);
+    queue.enqueue(job('urgent', { priority: 'high' }));
+
+    expect(order()).toEqual(['urgent:running', 'low:preempted']);
+
+    queue.complete('urgent');
+
+    expect(order()).toEqual(['low:running']);
+    expect(changes).toEqual([`running:${MINUTE}`, 'preempted:40000', 'running:40000']);
+  });
+
+  it('does not preempt a job more often than the rule allows', () => {
+    queue.enqueue(job('low', { priority: 'low' }));
+    queue.enqueue(job('urgent-1', { priority: 'high' }));
+    queue.complete('urgent-1');
+    queue.enqueue(job('urgent-2', { priority: 'high' }));
+
+    expect(order()).toEqual(['low:running', 'urgent-2:queued']);
+  });
+
+  it('estimates when a waiting job gets the instrument', () => {
+    queue.enqueue(job('a'));
+    queue.enqueue(job('b', { duration: 2 * MINUTE }));
+    queue.enqueue(job('c'));
+    vi.advanceTimersByTime(30000);
+
+    expect(queue.getPosition('c')).toMatchObject({ position: 2, ahead: 1, estimatedStart: Date.now() + 30000 + 2 * MINUTE });
+    expect(queue.getPosition('a')).toMatchObject({ position: 0, status: 'running' });
+  });
+
+  it('frees the slot of a removed job and forgets it', () => {
+    const removed = vi.fn();
+    queue.on('queue.removed', removed);
+    queue.enqueue(job('a'));
+    queue.enqueue(job('b'));
+
+    queue.remove('a', 'Cancelled');
+
+    expect(order()).toEqual(['b:running']);
+    expect(queue.getJob('a')).toBeUndefined();
+    expect(removed.mock.calls[0][0].data.reason).toBe('Cancelled');
+    expect(() => queue.enqueue(job('b'))).toThrow('Job b is already queued');
+  });
+
+  it('runs as many jobs at once as the concurrency allows', () => {
+    queue = new JobQueue({ concurrency: 2 });
+    queue.enqueue(job('a'));
+    queue.enqueue(job('b'));
+    queue.enqueue(job('c'));
+
+    expect(order()).toEqual(['a:running', 'b:running', 'c:queued']);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LabRegistry, validateLabInfo } from '../lib/LabRegistry';
+import { MOCK_LABS, cloneLab } from '../lib/mock-data';
+import { LabRegistrationError, LabValidationError } from '../lib/errors';
+import type { LabInfo } from '../lib/types';
+import type { LabSource, RegistryDiff } from '../lib/registry-types';
+
+function catalogSource(catalog: unknown[]): LabSource & { catalog: unknown } {
+  return {
+    name: 'test-catalog',
+    catalog,
+    async load() {
+      return this.catalog;
+    }
+  };
+}
+
+describe('LabRegistry catalog refresh', () => {
+  let labs: LabInfo[];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    labs = MOCK_LABS.slice(0, 3).map(cloneLab);
+  });
+
+  it('reports added, removed and changed labs', async () => {
+    const source = catalogSource(labs);
+    const registry = new LabRegistry(undefined, { source });
+    const updates: RegistryDiff[] = [];
+    registry.on('registry.updated', event => updates.push(event.data));
+    await registry.refresh();
+
+    const changed = { ...cloneLab(labs[0]), currentLoad: 80, quality: 4 };
+    source.catalog = [changed, labs[2], MOCK_LABS[3]];
+    await registry.refresh();
+
+    expect(updates).toHaveLength(2);
+    expect(updates[1].added.map(lab => lab.id)).toEqual([MOCK_LABS[3].id]);
+    expect(updates[1].removed.map(lab => lab.id)).toEqual([labs[1].id]);
+    expect(updates[1].changed.map(change => [change.after.id, change.fields])).toEqual([
+      [labs[0].id, ['quality', 'currentLoad']]
+    ]);
+    expect(registry.getLabById(labs[0].id)?.currentLoad).toBe(80);
+  });
+
+  it('does not emit when nothing changed', async () => {
+    const registry = new LabRegistry(undefined, { source: catalogSource(labs), labs });
+    const updated = vi.fn();
+    registry.on('registry.updated', updated);
+
+    await registry.refresh();
+
+    expect(updated).not.toHaveBeenCalled();
+  });
+
+  it('skips and reports invalid and duplicate entries', async () => {
+    const broken = { ...cloneLab(labs[1]), country: 'USA', quality: 9 };
+    const registry = new LabRegistry(undefined, { source: catalogSource([labs[0], broken, labs[0], 'lab', { ...cloneLab(labs[2]), id: 7 }]) });
+    const updates: RegistryDiff[] = [];
+    registry.on('registry.updated', event => updates.push(event.data));
+
+    await registry.refresh();
+
+    expect(registry.getAllLabs().map(lab => lab.id)).toEqual([labs[0].id]);
+    expect(updates[0].invalid.map(entry => [entry.labId, entry.index, entry.issues.map(i => i.field)])).toEqual([
+      [labs[1].id, 1, ['country', 'quality']],
+      [labs[0].id, 2, ['id']],
+      [undefined, 3, ['lab']],
+      [undefined, 4, ['id']]
+    ]);
+  });
+
+  it('rejects a catalog that is not a list of labs', async () => {
+    const registry = new LabRegistry(undefined, { source: { name: 'bad', load: async () => ({ labs: 'none' }) } });
+
+    await expect(registry.refresh()).rejects.toBeInstanceOf(LabValidationError);
+  });
+
+  it('accepts a catalog wrapped in { labs: [...] }', async () => {
+    const registry = new LabRegistry(undefined, { source: { name: 'wrapped', load: async () => ({ labs }) } });
+
+    expect((await registry.refresh()).map(lab => lab.id)).toEqual(labs.map(lab => lab.id));
+  });
+});
+
+describe('LabRegistry registrations', () => {
+  let labs: LabInfo[];
+  let registry: LabRegistry;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    labs = MOCK_LABS.slice(0, 2).map(cloneLab);
+    registry = new LabRegistry(undefined, { source: catalogSource(labs), labs });
+  });
+
+  function ownLab(): LabInfo {
+    return { ...cloneLab(MOCK_LABS[3]), id: 'own-lab', name: 'Our Facility' };
+  }
+
+  it('registers a valid lab and reports it as added', () => {
+    const updates: RegistryDiff[] = [];
+    registry.on('registry.updated', event => updates.push(event.data));
+
+    registry.registerLab(ownLab());
+
+    expect(registry.isRegistered('own-lab')).toBe(true);
+    expect(registry.getLabById('own-lab')?.name).toBe('Our Facility');
+    expect(updates.map(diff => [diff.source, diff.added.map(lab => lab.id)])).toEqual([['local', ['own-lab']]]);
+  });
+
+  it('rejects an invalid lab with every issue listed', () => {
+    const error = (() => {
+      try {
+        const lab = ownLab();
+        registry.registerLab({ ...lab, quality: 9, instruments: [...lab.instruments, lab.instruments[0]] });
+      } catch (err) {
+        return err;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(LabValidationError);
+    expect((error as LabValidationError).issues.map(issue => issue.field)).toEqual(['instruments', 'quality']);
+    expect(registry.getLabById('own-lab')).toBeUndefined();
+  });
+
+  it('refuses an id that is already in the registry', () => {
+    expect(() => registry.registerLab({ ...ownLab(), id: labs[0].id }))
+      .toThrow(expect.objectContaining({ code: 'LAB_EXISTS' }));
+
+    registry.registerLab(ownLab());
+    expect(() => registry.registerLab(ownLab())).toThrow(LabRegistrationError);
+  });
+
+  it('validates updates as a whole and keeps the old lab on failure', () => {
+    registry.registerLab(ownLab());
+
+    expect(registry.updateLab('own-lab', { currentLoad: 10 }).currentLoad).toBe(10);
+    expect(() => registry.updateLab('own-lab', { coordinates: { lat: 0, lon: 200 } }))
+      .toThrow(LabValidationError);
+    expect(registry.getLabById('own-lab')?.coordinates).toEqual(MOCK_LABS[3].coordinates);
+  });
+
+  it('refuses to update or deregister unknown and catalog labs', () => {
+    expect(() => registry.updateLab('nowhere', { currentLoad: 1 }))
+      .toThrow(expect.objectContaining({ code: 'LAB_NOT_FOUND' }));
+    expect(() => registry.deregisterLab('nowhere'))
+      .toThrow(expect.objectContaining({ code: 'LAB_NOT_FOUND' }));
+    expect(() => registry.updateLab(labs[0].id, { currentLoad: 1 }))
+      .toThrow(expect.objectContaining({ code: 'LAB_NOT_REGISTERED' }));
+    expect(() => registry.deregisterLab(labs[0].id))
+      .toThrow(expect.objectContaining({ code: 'LAB_NOT_REGISTERED' }));
+  });
+
+  it('keeps registered labs through a refresh that does not list them', async () => {
+    registry.registerLab(ownLab());
+
+    await registry.refresh();
+
+    expect(registry.getAllLabs().map(lab => lab.id)).toEqual([...labs.map(lab => lab.id), 'own-lab']);
+  });
+
+  it('does not let the catalog override a registered lab', async () => {
+    registry.registerLab(ownLab());
+    const updates: RegistryDiff[] = [];
+    registry.on('registry.updated', event => updates.push(event.data));
+    (registry.getSource() as LabSource & { catalog: unknown }).catalog = [...labs, { ...ownLab(), name: 'Impostor' }];
+
+    await registry.refresh();
+
+    expect(registry.getLabById('own-lab')?.name).toBe('Our Facility');
+    expect(updates).toEqual([]);
+  });
+
+  it('removes a deregistered lab', () => {
+    registry.registerLab(ownLab());
+
+    registry.deregisterLab('own-lab');
+
+    expect(registry.isRegistered('own-lab')).toBe(false);
+    expect(registry.getLabById('own-lab')).toBeUndefined();
+  });
+});
+
+describe('validateLabInfo', () => {
+  it('accepts the mock catalog', () => {
+    MOCK_LABS.forEach(lab => expect(validateLabInfo(lab)).toEqual([]));
+  });
+
+  it('names every invalid field', () => {
+    const issues = validateLabInfo({
+      ...cloneLab(MOCK_LABS[0]),
+      id: '',
+      instruments: ['nmr', 'telescope'],
+      pricing: { ...MOCK_LABS[0].pricing, aiRate: -1 },
+      coordinates: { lat: 91, lon: 0 },
+      certifications: [1]
+    });
+
+    expect(issues.map(issue => issue.field)).toEqual([
+      'id',
+      'instruments',
+      'pricing.aiRate',
+      'coordinates.lat',
+      'offerings.0.instrument',
+      'offerings.1.instrument',
+      'certifications'
+    ]);
+  });
+});
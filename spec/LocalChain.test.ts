@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LocalChain, encodeTransferMessage } from '../lib/LocalChain';
+import { LocalKeypairSigner } from '../lib/LocalKeypairSigner';
+import { Payment402 } from '../lib/Payment402';
+import { MockTransport } from '../lib/MockTransport';
+import { decodeBase58, verifyBytes } from '../lib/crypto';
+import { InsufficientFundsError, InvalidSignatureError } from '../lib/errors';
+
+describe('LocalChain', () => {
+  let chain: LocalChain;
+  let alice: LocalKeypairSigner;
+  let bob: LocalKeypairSigner;
+
+  beforeEach(() => {
+    chain = new LocalChain();
+    alice = new LocalKeypairSigner(chain, 'alice');
+    bob = new LocalKeypairSigner(chain, 'bob');
+    chain.airdrop(alice.address, 100);
+  });
+
+  it('moves funds for a signed transfer', async () => {
+    const result = await alice.signAndSubmitTransfer({ to: bob.address, amount: 30, memo: 'inv-1' });
+
+    expect(await alice.getBalance()).toBe(70);
+    expect(await bob.getBalance()).toBe(30);
+    expect(chain.getTransaction(result.txHash)).toMatchObject({ from: alice.address, to: bob.address, amount: 30 });
+    expect(chain.getTransactions(bob.address)).toHaveLength(1);
+  });
+
+  it('rejects transfers beyond the balance and leaves balances alone', async () => {
+    await expect(alice.signAndSubmitTransfer({ to: bob.address, amount: 150 }))
+      .rejects.toBeInstanceOf(InsufficientFundsError);
+
+    expect(chain.getBalance(alice.address)).toBe(100);
+    expect(chain.getBalance(bob.address)).toBe(0);
+  });
+
+  it('rejects a transfer whose fields were changed after signing', async () => {
+    const unsigned = { from: alice.address, to: bob.address, amount: 1, nonce: 'nonce-1' };
+    const signature = await alice.signMessage(encodeTransferMessage(unsigned));
+
+    expect(() => chain.submitTransfer({ ...unsigned, amount: 99, signature })).toThrow(InvalidSignatureError);
+    expect(chain.getBalance(alice.address)).toBe(100);
+  });
+
+  it('rejects a transfer signed by someone other than the sender', async () => {
+    const unsigned = { from: alice.address, to: bob.address, amount: 10, nonce: 'nonce-1' };
+    const signature = await bob.signMessage(encodeTransferMessage(unsigned));
+
+    expect(() => chain.submitTransfer({ ...unsigned, signature })).toThrow(InvalidSignatureError);
+  });
+
+  it('rejects a replayed transfer', async () => {
+    const unsigned = { from: alice.address, to: bob.address, amount: 10, nonce: 'nonce-1' };
+    const signature = await alice.signMessage(encodeTransferMessage(unsigned));
+
+    chain.submitTransfer({ ...unsigned, signature });
+
+    expect(() => chain.submitTransfer({ ...unsigned, signature })).toThrow(InvalidSignatureError);
+    expect(chain.getBalance(bob.address)).toBe(10);
+  });
+});
+
+describe('LocalKeypairSigner', () => {
+  it('derives the same wallet from the same seed', () => {
+    const chain = new LocalChain();
+
+    expect(new LocalKeypairSigner(chain, 'seed').address).toBe(new LocalKeypairSigner(chain, 'seed').address);
+    expect(new LocalKeypairSigner(chain, 'seed').address).not.toBe(new LocalKeypairSigner(chain, 'other').address);
+  });
+
+  it('signs messages verifiable against its address', async () => {
+    const signer = new LocalKeypairSigner(new LocalChain(), 'alice');
+
+    const signature = decodeBase58(await signer.signMessage('hello'));
+
+    expect(verifyBytes(decodeBase58(signer.address), Buffer.from('hello'), signature)).toBe(true);
+    expect(verifyBytes(decodeBase58(signer.address), Buffer.from('hellO'), signature)).toBe(false);
+  });
+});
+
+describe('Payment402 with a wallet signer', () => {
+  it('settles a 402 challenge on chain from the signer\'s balance', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const chain = new LocalChain();
+    const signer = new LocalKeypairSigner(chain, 'researcher');
+    chain.airdrop(signer.address, 50);
+    const transport = new MockTransport({ chain });
+    transport.onPaid('GET', '/reports/:id', () => ({
+      analysisId: 'report-1',
+      instrumentCost: 0,
+      computeCost: 10,
+      aiCost: 0,
+      storageCost: 0,
+      totalCost: 10,
+      paymentAddress: 'lab-wallet',
+      expiresAt: Date.now() + 60000
+    }), () => MockTransport.json(200, { report: 'ok' }));
+    const payment = new Payment402('ignored-label', transport, { signer });
+
+    const response = await payment.requestWithPayment({ method: 'GET', path: '/reports/1' });
+
+    expect(response.data).toEqual({ report: 'ok' });
+    expect(payment.getWalletAddress()).toBe(signer.address);
+    expect(await payment.getBalance()).toBe(40);
+    expect(chain.getBalance('lab-wallet')).toBe(10);
+    expect(transport.getRequests().some(r => r.path === '/payments')).toBe(false);
+  });
+});
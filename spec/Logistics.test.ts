@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { classifyStorage, Logistics } from '../lib/Logistics';
+import { Router } from '../lib/Router';
+import { LabRegistry } from '../lib/LabRegistry';
+import { resolveLocation } from '../lib/gazetteer';
+import { MOCK_LABS, cloneLab } from '../lib/mock-data';
+import type { ColdChainTier } from '../lib/logistics-types';
+
+describe('classifyStorage', () => {
+  const cases: Array<[string | undefined, ColdChainTier]> = [
+    // Ambient
+    [undefined, 'ambient'],
+    ['', 'ambient'],
+    ['room temperature', 'ambient'],
+    ['15-25°C', 'ambient'],
+    ['15–25 °C', 'ambient'],
+    ['20 C', 'ambient'],
+    ['59-77°F', 'ambient'],
+
+    // Refrigerated
+    ['4°C', 'refrigerated'],
+    ['2-8°C', 'refrigerated'],
+    ['2–8 °C', 'refrigerated'],
+    ['2 to 8 C', 'refrigerated'],
+    ['36-46 F', 'refrigerated'],
+    ['keep refrigerated', 'refrigerated'],
+
+    // Frozen
+    ['-20°C', 'frozen'],
+    ['−20 °C', 'frozen'],
+    ['-25 to -15 C', 'frozen'],
+    ['-25--15°C', 'frozen'],
+    ['freezer', 'frozen'],
+
+    // Deep-frozen
+    ['-80°C', 'deep-frozen'],
+    ['-86 – -70 °C', 'deep-frozen'],
+    ['on dry ice', 'deep-frozen'],
+
+    // Cryogenic
+    ['-196°C', 'cryogenic'],
+    ['liquid nitrogen', 'cryogenic'],
+    ['LN2 vapour phase', 'cryogenic'],
+    ['cryopreserved', 'cryogenic']
+  ];
+
+  it.each(cases)('classifies %j as %s', (conditions, tier) => {
+    expect(classifyStorage(conditions)).toBe(tier);
+  });
+});
+
+describe('Logistics.estimate', () => {
+  const lab = MOCK_LABS[0];
+  const logistics = new Logistics();
+
+  it('prices by distance band, border crossing and cold chain', () => {
+    const domestic = logistics.estimate(lab, 30, lab.country, '2-8°C');
+
+    expect(domestic).toMatchObject({
+      international: false,
+      coldChain: 'refrigerated',
+      cost: 25 + 30,
+      transitTime: 4
+    });
+
+    const abroad = logistics.estimate(lab, 9000, 'JP', '-80°C');
+
+    expect(abroad).toMatchObject({
+      international: true,
+      coldChain: 'deep-frozen',
+      cost: 180 + 60 + 120,
+      transitTime: 96 + 24
+    });
+  });
+
+  it('treats an unknown distance as the farthest band', () => {
+    expect(logistics.estimate(lab).breakdown.base).toBe(180);
+  });
+
+  it('takes custom bands in any order', () => {
+    const custom = new Logistics({ bands: [{ maxDistance: Infinity, cost: 90, transitTime: 48 }, { maxDistance: 100, cost: 10, transitTime: 6 }] });
+
+    expect(custom.estimate(lab, 50, lab.country)).toMatchObject({ cost: 10, transitTime: 6 });
+    expect(custom.getRates().bands.map(band => band.maxDistance)).toEqual([100, Infinity]);
+    expect(() => new Logistics({ bands: [] })).toThrow('at least one distance band');
+  });
+});
+
+describe('Router shipping', () => {
+  function routerFrom(location: string): Router {
+    return new Router(new LabRegistry(undefined, { labs: MOCK_LABS }), resolveLocation(location));
+  }
+
+  it('adds shipping to pricing when the location is known', () => {
+    const pricing = routerFrom('Oxford, UK').getLabPricing('dna-sequencer', '-80°C');
+    const oxford = pricing.find(p => p.lab === 'oxford-lab')!;
+
+    expect(oxford.shipping).toMatchObject({ international: false, coldChain: 'deep-frozen', cost: 25 + 120, currency: 'USD' });
+    expect(oxford.currency).toBe('USD');
+    expect(oxford.landedCost).toBeCloseTo(oxford.price + 145, 6);
+    expect(new Router(new LabRegistry(undefined, { labs: MOCK_LABS })).getLabPricing('dna-sequencer')[0].shipping)
+      .toBeUndefined();
+  });
+
+  it('labels prices and shipping with their currencies and only adds them up when they match', () => {
+    const labs = MOCK_LABS.map(cloneLab);
+    labs[2].pricing.currency = 'GBP';
+    const router = new Router(new LabRegistry(undefined, { labs }), resolveLocation('Oxford, UK'));
+
+    const pricing = router.getLabPricing('dna-sequencer').find(p => p.lab === labs[2].id)!;
+
+    expect(pricing).toMatchObject({ currency: 'GBP', shipping: { currency: 'USD' } });
+    expect(pricing.landedCost).toBeUndefined();
+
+    const selection = router.selectLab('dna-sequencer', { strategy: 'lowest-landed-cost' });
+    expect(selection.lab.id).not.toBe(labs[2].id);
+    expect(selection.reasoning).toMatch(/Lowest landed cost at ~\$[\d.]+ including \$[\d.]+ shipping/);
+  });
+
+  it('routes by turnaround to the lab the sample reaches first', () => {
+    const selection = routerFrom('Oxford, UK').selectLab('dna-sequencer', { strategy: 'fastest-turnaround' });
+
+    expect(selection.lab.id).toBe('oxford-lab');
+    expect(selection.shipping?.transitTime).toBe(4);
+    expect(selection.reasoning).toContain('Fastest turnaround');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { MockTransport } from '../lib/MockTransport';
+
+describe('MockTransport', () => {
+  it('captures path params and records every request', async () => {
+    const transport = new MockTransport({ defaults: false });
+    transport.on('GET', '/labs/:id/instruments', (_request, params) => MockTransport.json(200, params));
+
+    const response = await transport.request({ method: 'GET', path: '/labs/mit%20biolab/instruments?live=true' });
+
+    expect(response.data).toEqual({ id: 'mit biolab' });
+    expect(transport.getRequests().map(r => r.path)).toEqual(['/labs/mit%20biolab/instruments?live=true']);
+  });
+
+  it('lets later routes override the defaults', async () => {
+    const transport = new MockTransport();
+    transport.on('GET', '/labs', () => MockTransport.json(200, []));
+
+    expect((await transport.request({ method: 'GET', path: '/labs' })).data).toEqual([]);
+  });
+
+  it('answers unknown routes with a 404', async () => {
+    const transport = new MockTransport({ defaults: false });
+    transport.on('GET', '/labs', () => MockTransport.json(200, []));
+
+    const response = await transport.request({ method: 'POST', path: '/labs' });
+
+    expect(response.status).toBe(404);
+    expect(response.data).toEqual({ error: 'No mock route for POST /labs' });
+  });
+});
@@ -0,0 +1,324 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Payment402 } from '../lib/Payment402';
+import { MockTransport } from '../lib/MockTransport';
+import { LocalChain } from '../lib/LocalChain';
+import { LocalKeypairSigner } from '../lib/LocalKeypairSigner';
+import { StaticRateProvider } from '../lib/StaticRateProvider';
+import {
+  InvoiceStateError,
+  InvoiceExpiredError,
+  PaymentRejectedError,
+  EscrowError,
+  UnsupportedCurrencyError
+} from '../lib/errors';
+import type { UnifiedInvoice } from '../lib/types';
+
+function reportInvoice(overrides: Partial<UnifiedInvoice> = {}): UnifiedInvoice {
+  return {
+    analysisId: 'report-1',
+    instrumentCost: 0,
+    computeCost: 4,
+    aiCost: 6,
+    storageCost: 0,
+    totalCost: 10,
+    paymentAddress: 'lab-wallet',
+    expiresAt: Date.now() + 60000,
+    ...overrides
+  };
+}
+
+describe('Payment402 invoices', () => {
+  let transport: MockTransport;
+  let payment: Payment402;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    transport = new MockTransport();
+    transport.on('POST', '/payments', (request) => MockTransport.json(200, {
+      txHash: MockTransport.generateTxHash(),
+      amount: request.body?.amount
+    }));
+    payment = new Payment402('wallet-payee', transport);
+  });
+
+  it('itemizes batch pricing into sample and discount lines', async () => {
+    const invoice = await payment.createInvoice('batch-1', {
+      totalSamples: 4,
+      baseCost: 100,
+      discountRate: 0.1,
+      discountedCost: 90,
+      savings: 10,
+      perSampleCost: 22.5
+    });
+
+    expect(invoice.lineItems).toEqual([
+      { description: 'Sample analysis', quantity: 4, unitPrice: 25, amount: 100 },
+      { description: 'Volume discount (10%)', quantity: 1, unitPrice: -10, amount: -10 }
+    ]);
+    expect(invoice.totalCost).toBe(90);
+    expect(invoice.paymentAddress).toBe('wallet-payee');
+    await expect(payment.createInvoice('batch-1', 90)).rejects.toThrow('Invoice batch-1 already exists');
+  });
+
+  it('pays an open invoice once', async () => {
+    await payment.createInvoice('inv-1', 25);
+
+    const record = await payment.payInvoice('inv-1');
+
+    expect(record.status).toBe('paid');
+    expect(record.txHash).toBeDefined();
+    await expect(payment.payInvoice('inv-1')).rejects.toBeInstanceOf(InvoiceStateError);
+    expect(() => payment.voidInvoice('inv-1')).toThrow(InvoiceStateError);
+  });
+
+  it('refuses to pay an expired or voided invoice', async () => {
+    await payment.createInvoice('inv-1', 25, 'USD', { ttl: -1 });
+    await payment.createInvoice('inv-2', 25);
+
+    await expect(payment.payInvoice('inv-1')).rejects.toBeInstanceOf(InvoiceExpiredError);
+    expect(payment.getInvoice('inv-1')?.status).toBe('expired');
+
+    expect(payment.voidInvoice('inv-2', 'Cancelled').voidReason).toBe('Cancelled');
+    await expect(payment.payInvoice('inv-2')).rejects.toBeInstanceOf(InvoiceStateError);
+    expect(transport.getRequests().some(r => r.path === '/payments')).toBe(false);
+  });
+
+  it('pays an invoice once when payInvoice is called concurrently', async () => {
+    await payment.createInvoice('inv-1', 25);
+
+    const results = await Promise.allSettled([
+      payment.payInvoice('inv-1'),
+      payment.payInvoice('inv-1')
+    ]);
+
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(InvoiceStateError);
+    expect(transport.getRequests().filter(r => r.path === '/payments')).toHaveLength(1);
+    expect(payment.getInvoice('inv-1')?.status).toBe('paid');
+  });
+
+  it('refuses to void an invoice while it is being paid', async () => {
+    await payment.createInvoice('inv-2', 25);
+
+    const paying = payment.payInvoice('inv-2');
+
+    expect(payment.getInvoice('inv-2')?.status).toBe('paying');
+    expect(() => payment.voidInvoice('inv-2')).toThrow(InvoiceStateError);
+    await paying;
+  });
+
+  it('reopens the invoice when the payment fails', async () => {
+    transport.on('POST', '/payments', () => MockTransport.json(500, { error: 'Gateway down' }));
+    await payment.createInvoice('inv-3', 25);
+
+    await expect(payment.payInvoice('inv-3')).rejects.toThrow();
+    expect(payment.getInvoice('inv-3')?.status).toBe('open');
+
+    transport.on('POST', '/payments', (request) => MockTransport.json(200, {
+      txHash: MockTransport.generateTxHash(),
+      amount: request.body?.amount
+    }));
+
+    const record = await payment.payInvoice('inv-3');
+    expect(record.status).toBe('paid');
+  });
+});
+
+describe('Payment402 currencies', () => {
+  let payment: Payment402;
+
+  beforeEach(() => {
+    payment = new Payment402('wallet-payee', new MockTransport(), {
+      rates: new StaticRateProvider({ EUR: 0.5 }, 30000)
+    });
+  });
+
+  it('converts USD batch pricing into the invoice currency', async () => {
+    const invoice = await payment.createInvoice('batch-1', {
+      totalSamples: 2,
+      baseCost: 100,
+      discountRate: 0,
+      discountedCost: 100,
+      savings: 0,
+      perSampleCost: 50
+    }, 'EUR');
+
+    expect(invoice).toMatchObject({ currency: 'EUR', totalCost: 50 });
+    expect(invoice.lineItems).toEqual([{ description: 'Sample analysis', quantity: 2, unitPrice: 25, amount: 50 }]);
+  });
+
+  it('locks the settlement amount when the invoice is issued', async () => {
+    const invoice = await payment.createInvoice('inv-1', 100, 'EUR');
+
+    expect(invoice).toMatchObject({ currency: 'EUR', totalCost: 100 });
+    expect(invoice.quote).toMatchObject({ currency: 'USDC', rate: 2, amount: 200 });
+  });
+
+  it('expires the invoice with the rate quote', async () => {
+    const before = Date.now();
+
+    const invoice = await payment.createInvoice('inv-1', 100, 'EUR', { ttl: 60000 });
+
+    expect(invoice.expiresAt).toBeLessThanOrEqual(Date.now() + 30000);
+    expect(invoice.expiresAt).toBeGreaterThanOrEqual(before + 30000);
+  });
+
+  it('rejects currencies the rate provider does not know', async () => {
+    await expect(payment.createInvoice('inv-1', 100, 'XYZ')).rejects.toBeInstanceOf(UnsupportedCurrencyError);
+    expect(payment.getInvoice('inv-1')).toBeUndefined();
+    expect(await payment.convert(10, 'EUR', 'USD')).toBe(20);
+  });
+});
+
+describe('Payment402 402 handshake', () => {
+  let transport: MockTransport;
+  let payment: Payment402;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    transport = new MockTransport();
+    payment = new Payment402('wallet-payer', transport);
+  });
+
+  it('pays the challenged invoice, resends with a proof and verifies the receipt', async () => {
+    transport.onPaid('GET', '/reports/:id', () => reportInvoice(), () => MockTransport.json(200, { report: 'ok' }));
+
+    const response = await payment.requestWithPayment({ method: 'GET', path: '/reports/1' });
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ report: 'ok' });
+    expect(response.receipt).toMatchObject({ invoiceId: 'report-1', txHash: response.proof!.txHash, amount: 10 });
+    expect(transport.getRequests().map(r => r.path)).toEqual(['/reports/1', '/payments', '/reports/1']);
+    expect(payment.getLedger().query({ invoiceId: 'report-1' }).map(e => e.type)).toEqual(['settlement', 'receipt']);
+  });
+
+  it('passes through responses that need no payment', async () => {
+    transport.on('GET', '/reports/:id', () => MockTransport.json(200, { report: 'free' }));
+
+    const response = await payment.requestWithPayment({ method: 'GET', path: '/reports/1' });
+
+    expect(response.data).toEqual({ report: 'free' });
+    expect(response.receipt).toBeUndefined();
+    expect(payment.getLedger().query()).toEqual([]);
+  });
+
+  it('refuses to pay an invoice that has already expired', async () => {
+    transport.onPaid(
+      'GET',
+      '/reports/:id',
+      () => reportInvoice({ expiresAt: Date.now() - 1 }),
+      () => MockTransport.json(200, {})
+    );
+
+    await expect(payment.requestWithPayment({ method: 'GET', path: '/reports/1' }))
+      .rejects.toBeInstanceOf(InvoiceExpiredError);
+    expect(transport.getRequests().some(r => r.path === '/payments')).toBe(false);
+  });
+
+  it('rejects when the server does not accept the proof', async () => {
+    let quotes = 0;
+    // The server raises its price between the challenge and the paid retry
+    transport.onPaid(
+      'GET',
+      '/reports/:id',
+      () => reportInvoice({ totalCost: ++quotes === 1 ? 10 : 20 }),
+      () => MockTransport.json(200, {})
+    );
+
+    await expect(payment.requestWithPayment({ method: 'GET', path: '/reports/1' }))
+      .rejects.toBeInstanceOf(PaymentRejectedError);
+  });
+});
+
+describe('Payment402 escrow', () => {
+  let chain: LocalChain;
+  let signer: LocalKeypairSigner;
+  let transport: MockTransport;
+  let payment: Payment402;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    chain = new LocalChain();
+    signer = new LocalKeypairSigner(chain, 'researcher');
+    chain.airdrop(signer.address, 100);
+    transport = new MockTransport({ chain });
+    payment = new Payment402('wallet', transport, { signer });
+  });
+
+  it('deposits the invoice total and records it', async () => {
+    const escrow = await payment.openEscrow(reportInvoice());
+
+    expect(escrow).toMatchObject({ invoiceId: 'report-1', deposit: 10, charged: 0, status: 'open' });
+    expect(chain.getBalance('lab-wallet')).toBe(10);
+    expect(payment.getLedger().query({ type: 'escrow-deposit' })).toMatchObject([
+      { invoiceId: 'report-1', amount: 10, txHash: escrow.depositTxHash }
+    ]);
+  });
+
+  it('draws charges down from the deposit', async () => {
+    const { id } = await payment.openEscrow(reportInvoice());
+
+    await payment.chargeEscrow(id, 4, 'Instrument time');
+    const escrow = await payment.chargeEscrow(id, 3, 'Compute');
+
+    expect(escrow.charged).toBe(7);
+    expect(escrow.charges.map(c => c.description)).toEqual(['Instrument time', 'Compute']);
+    expect(payment.getLedger().query({ type: 'charge' }).map(e => e.amount)).toEqual([4, 3]);
+  });
+
+  it('rejects charges beyond what is left in escrow', async () => {
+    const { id } = await payment.openEscrow(reportInvoice());
+    await payment.chargeEscrow(id, 8, 'Instrument time');
+
+    await expect(payment.chargeEscrow(id, 3, 'Compute')).rejects.toBeInstanceOf(EscrowError);
+    await expect(payment.chargeEscrow(id, 0, 'Nothing')).rejects.toBeInstanceOf(EscrowError);
+    expect(payment.getEscrow(id)?.charged).toBe(8);
+    expect(transport.getRequests().filter(r => r.path.endsWith('/charges'))).toHaveLength(1);
+  });
+
+  it('returns the uncharged balance on release and closes the escrow', async () => {
+    const { id } = await payment.openEscrow(reportInvoice());
+    await payment.chargeEscrow(id, 6, 'Instrument time');
+
+    const escrow = await payment.releaseEscrow(id, 'Run finished');
+
+    expect(escrow).toMatchObject({ status: 'released', released: 4 });
+    expect(payment.getLedger().query({ type: 'escrow-release' })).toMatchObject([{ amount: 4, reason: 'Run finished' }]);
+    await expect(payment.chargeEscrow(id, 1, 'Late charge')).rejects.toBeInstanceOf(EscrowError);
+    await expect(payment.releaseEscrow(id)).rejects.toBeInstanceOf(EscrowError);
+  });
+
+  it('refuses a release that does not return the uncharged balance', async () => {
+    transport.on('POST', '/escrows/:id/release', () => MockTransport.json(200, { txHash: 'tx-short', amount: 1 }));
+    const { id } = await payment.openEscrow(reportInvoice());
+    await payment.chargeEscrow(id, 6, 'Instrument time');
+
+    await expect(payment.releaseEscrow(id)).rejects.toThrow('gateway released 1 but 4.0000 was left uncharged');
+    expect(payment.getEscrow(id)?.status).toBe('open');
+    expect(payment.getLedger().query({ type: 'escrow-release' })).toEqual([]);
+  });
+
+  it('books the deposit and gets it refunded when the escrow is not opened', async () => {
+    transport.on('POST', '/escrows', () => MockTransport.json(503, { error: 'Escrow service down' }));
+
+    await expect(payment.openEscrow(reportInvoice())).rejects.toThrow('Escrow service down');
+
+    const refund = transport.getRequests().find(r => r.path === '/payments/refund');
+    expect(refund?.body).toMatchObject({ to: signer.address, amount: 10, invoiceId: 'report-1' });
+    expect(payment.getLedger().query({ invoiceId: 'report-1' }).map(e => [e.type, e.amount])).toEqual([
+      ['escrow-deposit', 10],
+      ['escrow-release', 10]
+    ]);
+  });
+
+  it('keeps an unreturned deposit on the ledger and says so', async () => {
+    transport.on('POST', '/escrows', () => MockTransport.json(503, { error: 'Escrow service down' }));
+    transport.on('POST', '/payments/refund', () => MockTransport.json(503, { error: 'Refunds paused' }));
+
+    const error = await payment.openEscrow(reportInvoice()).catch(err => err);
+
+    expect(error).toBeInstanceOf(EscrowError);
+    expect(error.message).toContain('was not returned after the escrow failed to open');
+    expect(payment.getLedger().query({ invoiceId: 'report-1' }).map(e => e.type)).toEqual(['escrow-deposit']);
+  });
+});
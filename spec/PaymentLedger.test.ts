@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PaymentLedger } from '../lib/PaymentLedger';
+import { JsonFileLedgerStore } from '../lib/JsonFileLedgerStore';
+
+describe('PaymentLedger', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('nets refunds against settlements per invoice', () => {
+    const ledger = new PaymentLedger();
+    ledger.record({ type: 'settlement', invoiceId: 'inv-1', analysisId: 'analysis-1', amount: 100 });
+    ledger.record({ type: 'refund', invoiceId: 'inv-1', analysisId: 'analysis-1', amount: 40 });
+    ledger.record({ type: 'settlement', invoiceId: 'inv-2', batchId: 'batch-1', amount: 30 });
+
+    expect(ledger.getNetPaid('inv-1')).toBe(60);
+    expect(ledger.getByAnalysis('analysis-1').map(e => e.type)).toEqual(['settlement', 'refund']);
+    expect(ledger.getByBatch('batch-1')).toHaveLength(1);
+    expect(ledger.query({ type: ['refund'] })).toHaveLength(1);
+  });
+
+  it('keeps entries across restarts with a JSON file store', () => {
+    dir = mkdtempSync(join(tmpdir(), 'lab402-ledger-'));
+    const path = join(dir, 'ledger.json');
+
+    new PaymentLedger(new JsonFileLedgerStore(path))
+      .record({ type: 'settlement', invoiceId: 'inv-1', amount: 25, txHash: 'tx-1' });
+
+    const reopened = new PaymentLedger(new JsonFileLedgerStore(path));
+
+    expect(reopened.query()).toMatchObject([{ type: 'settlement', invoiceId: 'inv-1', amount: 25, txHash: 'tx-1' }]);
+  });
+});
+
+describe('PaymentLedger.reconcile', () => {
+  it('totals settled and refunded amounts per invoice currency', () => {
+    const ledger = new PaymentLedger();
+    ledger.record({ type: 'settlement', invoiceId: 'inv-usd', amount: 100, currency: 'USD' });
+    ledger.record({ type: 'refund', invoiceId: 'inv-usd', amount: 40, currency: 'USD' });
+    ledger.record({ type: 'settlement', invoiceId: 'inv-eur', amount: 90, currency: 'EUR' });
+    ledger.record({ type: 'settlement', invoiceId: 'inv-legacy', amount: 10 });
+
+    const report = ledger.reconcile();
+
+    expect(report.totals).toEqual({
+      USD: { settled: 110, refunded: 40 },
+      EUR: { settled: 90, refunded: 0 }
+    });
+    expect(report.issues).toEqual([]);
+  });
+
+  it('flags duplicate payments and refunds beyond the amount paid', () => {
+    const ledger = new PaymentLedger();
+    ledger.record({ type: 'settlement', invoiceId: 'inv-1', amount: 50, currency: 'EUR' });
+    ledger.record({ type: 'settlement', invoiceId: 'inv-1', amount: 50, currency: 'EUR' });
+    ledger.record({ type: 'settlement', invoiceId: 'inv-2', amount: 20, currency: 'EUR' });
+    ledger.record({ type: 'refund', invoiceId: 'inv-2', amount: 30, currency: 'EUR' });
+
+    const issues = ledger.reconcile().issues;
+
+    expect(issues.map(issue => [issue.type, issue.invoiceId])).toEqual([
+      ['duplicate-payment', 'inv-1'],
+      ['refund-exceeds-payment', 'inv-2']
+    ]);
+    expect(issues[1].message).toBe('Invoice inv-2 refunded 30.00 of 20.00 EUR paid');
+  });
+
+  it('flags refunds without a payment and completions without settlement', () => {
+    const ledger = new PaymentLedger();
+    ledger.record({ type: 'refund', invoiceId: 'inv-1', amount: 5 });
+    ledger.record({ type: 'completion', invoiceId: 'inv-2', amount: 25 });
+
+    expect(ledger.reconcile().issues.map(issue => issue.type)).toEqual([
+      'refund-without-payment',
+      'unsettled-completion'
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { PolicyEngine } from '../lib/PolicyEngine';
+import type { PolicyRule } from '../lib/policy-types';
+import type { ResearcherIdentity } from '../lib/types';
+
+function researcher(overrides: Partial<ResearcherIdentity> = {}): ResearcherIdentity {
+  return {
+    id: 'researcher-1',
+    credentials: ['PhD'],
+    institution: 'MIT Research Lab',
+    clearanceLevel: 2,
+    specializations: ['genomics'],
+    ...overrides
+  };
+}
+
+describe('PolicyEngine precedence', () => {
+  const rules: PolicyRule[] = [
+    { id: 'allow-all', effect: 'allow', when: {} },
+    { id: 'approve-nmr', effect: 'require-approval', when: { instruments: ['nmr'] } },
+    { id: 'deny-untrained', effect: 'deny', when: { instruments: ['nmr'], lacksCredentials: ['NMR Safety'] } }
+  ];
+
+  it('lets deny beat require-approval beat allow, whatever the rule order', () => {
+    const engine = new PolicyEngine(rules);
+
+    expect(engine.evaluate({ identity: researcher(), instrument: 'nmr' }).rule?.id).toBe('deny-untrained');
+    expect(engine.evaluate({
+      identity: researcher({ credentials: ['NMR Safety'] }),
+      instrument: 'nmr'
+    }).rule?.id).toBe('approve-nmr');
+    expect(engine.evaluate({ identity: researcher(), instrument: 'microscopy' }).effect).toBe('allow');
+  });
+
+  it('explains the deciding rule and why the others did not match', () => {
+    const decision = new PolicyEngine(rules).evaluate({ identity: researcher(), instrument: 'microscopy' });
+
+    expect(decision.explanation).toBe('Allowed by rule allow-all');
+    expect(decision.evaluations.find(e => e.ruleId === 'approve-nmr')?.unmet)
+      .toEqual(['instrument microscopy not in [nmr]']);
+  });
+
+  it('falls back to the default effect when no rule matches', () => {
+    const only: PolicyRule[] = [{ id: 'phd-only', effect: 'allow', when: { credentials: ['PhD'] } }];
+
+    expect(new PolicyEngine(only).evaluate({ identity: researcher({ credentials: [] }), instrument: 'nmr' }).effect)
+      .toBe('deny');
+    expect(new PolicyEngine(only, { defaultEffect: 'require-approval' })
+      .evaluate({ identity: researcher({ credentials: [] }), instrument: 'nmr' }).effect).toBe('require-approval');
+  });
+
+  it('reproduces the per-instrument clearance table by default', () => {
+    const engine = new PolicyEngine();
+
+    expect(engine.evaluate({ identity: researcher({ clearanceLevel: 2 }), instrument: 'x-ray-diffraction' }).effect)
+      .toBe('deny');
+    expect(engine.evaluate({ identity: researcher({ clearanceLevel: 3 }), instrument: 'x-ray-diffraction' }).effect)
+      .toBe('allow');
+  });
+});
+
+describe('PolicyEngine time windows', () => {
+  // Friday 2024-03-01 in UTC
+  const friday = (clock: string) => Date.parse(`2024-03-01T${clock}:00Z`);
+
+  function engine(timeOfDay: PolicyRule['when']['timeOfDay']): PolicyEngine {
+    return new PolicyEngine([{ id: 'window', effect: 'allow', when: { timeOfDay } }]);
+  }
+
+  it('matches times inside a same-day window on the listed days', () => {
+    const office = engine({ start: '08:00', end: '18:00', days: [1, 2, 3, 4, 5] });
+
+    expect(office.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('09:30') }).effect).toBe('allow');
+    expect(office.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('18:00') }).effect).toBe('deny');
+    expect(office.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('09:30') + 86400000 }).effect)
+      .toBe('deny');
+  });
+
+  it('applies the window in its own timezone', () => {
+    const newYork = engine({ start: '08:00', end: '18:00', timezone: 'America/New_York' });
+
+    // 09:30 UTC is 04:30 in New York
+    expect(newYork.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('09:30') }).effect).toBe('deny');
+    expect(newYork.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('14:00') }).effect).toBe('allow');
+  });
+
+  it('wraps a window that ends before it starts past midnight', () => {
+    const night = engine({ start: '22:00', end: '02:00' });
+
+    expect(night.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('23:00') }).effect).toBe('allow');
+    expect(night.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('01:00') }).effect).toBe('allow');
+    expect(night.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('12:00') }).effect).toBe('deny');
+  });
+
+  it('counts the hours after midnight toward the day a wrapping window started', () => {
+    const fridayNight = engine({ start: '22:00', end: '02:00', days: [5] });
+    const saturday = (clock: string) => friday(clock) + 86400000;
+
+    expect(fridayNight.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('23:00') }).effect).toBe('allow');
+    expect(fridayNight.evaluate({ identity: researcher(), instrument: 'nmr', time: saturday('01:00') }).effect).toBe('allow');
+    expect(fridayNight.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('01:00') }).effect).toBe('deny');
+    expect(fridayNight.evaluate({ identity: researcher(), instrument: 'nmr', time: saturday('22:30') }).effect).toBe('deny');
+  });
+});
+
+describe('PolicyEngine time windows with precedence', () => {
+  const friday = (clock: string) => Date.parse(`2024-03-01T${clock}:00Z`);
+  const engine = new PolicyEngine([
+    { id: 'allow-all', effect: 'allow', when: {} },
+    { id: 'approve-after-hours', effect: 'require-approval', when: { timeOfDay: { start: '18:00', end: '08:00' } } },
+    { id: 'deny-maintenance', effect: 'deny', when: { timeOfDay: { start: '23:30', end: '00:30', days: [5] } } }
+  ]);
+
+  it.each([
+    ['12:00', 'allow-all'],
+    ['19:00', 'approve-after-hours'],
+    ['23:45', 'deny-maintenance']
+  ])('decides %s by %s', (clock, rule) => {
+    expect(engine.evaluate({ identity: researcher(), instrument: 'nmr', time: friday(clock) }).rule?.id).toBe(rule);
+  });
+
+  it('keeps the maintenance window past midnight into Saturday only', () => {
+    const saturday = friday('00:15') + 86400000;
+
+    expect(engine.evaluate({ identity: researcher(), instrument: 'nmr', time: saturday }).rule?.id).toBe('deny-maintenance');
+    expect(engine.evaluate({ identity: researcher(), instrument: 'nmr', time: friday('00:15') }).rule?.id)
+      .toBe('approve-after-hours');
+  });
+});
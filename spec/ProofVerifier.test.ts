@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ProofVerifier } from '../lib/ProofVerifier';
+import { Identity403 } from '../lib/Identity403';
+import { MockTransport } from '../lib/MockTransport';
+
+describe('ProofVerifier', () => {
+  let researcher: Identity403;
+
+  beforeEach(() => {
+    researcher = new Identity403('researcher-key', new MockTransport());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts a proof for a nonce it issued, signed by the expected key', async () => {
+    const verifier = new ProofVerifier({ audience: 'mit-biolab' });
+
+    const proof = await researcher.generateProof(verifier.issueNonce());
+
+    expect(verifier.verifyProof(proof, researcher.getPublicKey())).toEqual({
+      valid: true,
+      publicKey: researcher.getPublicKey()
+    });
+    expect(verifier.getPendingCount()).toBe(0);
+  });
+
+  it('rejects a replayed proof', async () => {
+    const verifier = new ProofVerifier();
+    const proof = await researcher.generateProof(verifier.issueNonce());
+
+    verifier.verifyProof(proof);
+
+    expect(verifier.verifyProof(proof)).toMatchObject({ valid: false, reason: 'replayed' });
+  });
+
+  it('rejects a proof for a nonce that has expired', async () => {
+    vi.useFakeTimers();
+    const verifier = new ProofVerifier({ nonceTtl: 1000 });
+    const challenge = verifier.issueNonce();
+
+    vi.advanceTimersByTime(1000);
+    const proof = await researcher.generateProof(challenge);
+
+    expect(verifier.verifyProof(proof)).toMatchObject({ valid: false, reason: 'expired-nonce' });
+    expect(verifier.verifyProof(proof)).toMatchObject({ valid: false, reason: 'unknown-nonce' });
+  });
+
+  it('rejects a proof older than the freshness window', async () => {
+    vi.useFakeTimers();
+    const verifier = new ProofVerifier({ maxAge: 1000 });
+    const proof = await researcher.generateProof(verifier.issueNonce());
+
+    vi.advanceTimersByTime(1001);
+
+    expect(verifier.verifyProof(proof)).toMatchObject({ valid: false, reason: 'stale' });
+  });
+
+  it('rejects bad signatures and proofs signed by another key', async () => {
+    const verifier = new ProofVerifier();
+    const other = new Identity403('other-key', new MockTransport());
+
+    const tampered = await researcher.generateProof(verifier.issueNonce());
+    const forged = await other.generateProof(verifier.issueNonce());
+
+    expect(verifier.verifyProof({ ...tampered, timestamp: tampered.timestamp - 1 }))
+      .toMatchObject({ valid: false, reason: 'bad-signature' });
+    expect(verifier.verifyProof({ ...forged, publicKey: researcher.getPublicKey() }))
+      .toMatchObject({ valid: false, reason: 'bad-signature' });
+    expect(verifier.verifyProof(forged, researcher.getPublicKey()))
+      .toMatchObject({ valid: false, reason: 'key-mismatch' });
+  });
+
+  it('rejects a proof bound to another audience', async () => {
+    const verifier = new ProofVerifier({ audience: 'mit-biolab' });
+    const challenge = verifier.issueNonce();
+
+    const proof = await researcher.generateProof({ ...challenge, audience: 'other-lab' });
+
+    expect(verifier.verifyProof(proof)).toMatchObject({ valid: false, reason: 'audience-mismatch' });
+  });
+
+  it('evicts the oldest outstanding nonces beyond maxNonces', async () => {
+    const verifier = new ProofVerifier({ maxNonces: 2 });
+    const oldest = verifier.issueNonce();
+    const middle = verifier.issueNonce();
+    verifier.issueNonce();
+
+    expect(verifier.getPendingCount()).toBe(2);
+    expect(verifier.verifyProof(await researcher.generateProof(oldest)))
+      .toMatchObject({ valid: false, reason: 'unknown-nonce' });
+    expect(verifier.verifyProof(await researcher.generateProof(middle)).valid).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { RefundPolicy, DEFAULT_REFUND_RATES } from '../lib/RefundPolicy';
+import type { UnifiedInvoice } from '../lib/types';
+
+const invoice: UnifiedInvoice = {
+  analysisId: 'analysis-1',
+  instrumentCost: 40,
+  computeCost: 30,
+  aiCost: 20,
+  storageCost: 10,
+  totalCost: 100,
+  paymentAddress: 'lab-wallet',
+  expiresAt: Date.now() + 60000
+};
+
+describe('RefundPolicy', () => {
+  it('refunds each invoice component at its stage rate', () => {
+    const policy = new RefundPolicy();
+
+    expect(policy.decide(invoice, 'pending', 100).amount).toBe(100);
+    expect(policy.decide(invoice, 'running', 100).breakdown).toEqual({ instrument: 20, compute: 30, ai: 20, storage: 10 });
+    expect(policy.decide(invoice, 'processing', 100).amount).toBe(35);
+    expect(policy.decide(invoice, 'interpreting', 100)).toMatchObject({ amount: 10, reason: 'Cancelled while interpreting' });
+  });
+
+  it('never refunds more than was paid', () => {
+    const policy = new RefundPolicy();
+
+    expect(policy.decide(invoice, 'pending', 60).amount).toBe(60);
+    expect(policy.decide(invoice, 'pending', 0).amount).toBe(0);
+  });
+
+  it('merges custom rates over the defaults and clamps them to 0-1', () => {
+    const policy = new RefundPolicy({ running: { instrument: 2 }, interpreting: { ai: -1 } });
+
+    expect(policy.getRates().running).toEqual({ ...DEFAULT_REFUND_RATES.running, instrument: 2 });
+    expect(policy.decide(invoice, 'running', 100).breakdown.instrument).toBe(40);
+    expect(policy.decide(invoice, 'interpreting', 100).amount).toBe(0);
+  });
+});
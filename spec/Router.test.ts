@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import { Router, DEFAULT_ROUTING_WEIGHTS } from '../lib/Router';
+import { LabRegistry, validateLabInfo } from '../lib/LabRegistry';
+import { MOCK_LABS, cloneLab } from '../lib/mock-data';
+import { RoutingError } from '../lib/errors';
+
+function scores(router: Router, strategy: string, weights?: Record<string, number>) {
+  return router.explain('dna-sequencer', { strategy, weights })
+    .candidates.map(({ lab, score }) => ({ lab, score }));
+}
+
+describe('Router offerings', () => {
+  const router = new Router(new LabRegistry(undefined, { labs: MOCK_LABS }));
+
+  it('prices labs by the offering for the requested instrument', () => {
+    const pricing = router.getLabPricing('dna-sequencer');
+
+    expect(pricing.map(p => p.lab).sort()).toEqual(['mit-biolab', 'oxford-lab', 'singapore-biolab', 'stanford-lab']);
+    expect(pricing[0].lab).toBe('stanford-lab');
+    expect(pricing[0].price).toBeCloseTo(75 + 10 * 0.008 + 15, 6);
+    expect(pricing[0].model).toBe('Illumina NextSeq 2000');
+  });
+
+  it('returns the selected lab\'s offering and names its model', () => {
+    const selection = router.selectLab('dna-sequencer', { strategy: 'cost-optimized' });
+
+    expect(selection.lab.id).toBe('stanford-lab');
+    expect(selection.offering).toMatchObject({ instrument: 'dna-sequencer', pricePerRun: 75 });
+    expect(selection.reasoning).toContain('Runs Illumina NextSeq 2000');
+  });
+
+  it('keeps only labs whose offering outputs every required format', () => {
+    expect(router.selectLab('dna-sequencer', { strategy: 'cost-optimized', requireDataFormats: ['CRAM'] }).lab.id)
+      .toBe('singapore-biolab');
+    expect(router.selectLab('dna-sequencer', { strategy: 'cost-optimized', requireDataFormats: ['FASTQ', 'POD5'] }).lab.id)
+      .toBe('oxford-lab');
+  });
+
+  it('keeps only labs whose offering takes the sample size', () => {
+    expect(router.selectLab('spectroscopy', { strategy: 'cost-optimized', sampleSize: 2.5 }).lab.id)
+      .toBe('stanford-lab');
+    expect(() => router.selectLab('dna-sequencer', { strategy: 'balanced', sampleSize: 2 }))
+      .toThrow('No labs match routing criteria');
+  });
+
+  it('excludes labs without an offering when a format or sample size is required', () => {
+    const labs = MOCK_LABS.map(cloneLab);
+    delete labs[4].offerings;
+    const sparse = new Router(new LabRegistry(undefined, { labs }));
+
+    expect(() => sparse.selectLab('dna-sequencer', { strategy: 'balanced', requireDataFormats: ['CRAM'] }))
+      .toThrow('No labs match routing criteria');
+  });
+});
+
+describe('validateLabInfo offerings', () => {
+  it('rejects offerings for instruments the lab lacks, repeats and bad fields', () => {
+    const lab = cloneLab(MOCK_LABS[0]);
+    const [sequencer] = lab.offerings!;
+    lab.offerings = [
+      sequencer,
+      { ...sequencer, pricePerRun: -1 },
+      { ...sequencer, instrument: 'microscopy', maxSampleSize: -1 }
+    ];
+
+    expect(validateLabInfo(lab).map(issue => issue.field)).toEqual([
+      'offerings.1.instrument',
+      'offerings.1.pricePerRun',
+      'offerings.2.instrument',
+      'offerings.2.maxSampleSize'
+    ]);
+  });
+});
+
+describe('Router weighted routing', () => {
+  function router(): Router {
+    return new Router(new LabRegistry(undefined, { labs: MOCK_LABS }));
+  }
+
+  it('normalizes each criterion so the best candidate scores 100', () => {
+    const selection = router().selectLab('dna-sequencer', { strategy: 'weighted', weights: { cost: 1 } });
+
+    expect(selection.lab.id).toBe('stanford-lab');
+    expect(selection.score).toBe(100);
+    expect(selection.reasoning).toContain('Best weighted score (cost 100%)');
+  });
+
+  it('blends criteria by their share of the total weight', () => {
+    const selection = router().selectLab('dna-sequencer', { strategy: 'weighted', weights: { cost: 1, quality: 3 } });
+
+    expect(selection.reasoning).toContain('cost 25%, quality 75%');
+  });
+
+  it('ignores distance until the user location is known', () => {
+    const selection = router().selectLab('dna-sequencer', { strategy: 'weighted', weights: { distance: 1, cost: 1 } });
+
+    expect(selection.lab.id).toBe('stanford-lab');
+    expect(selection.reasoning).toContain('(cost 100%)');
+  });
+
+  it('routes by a registered scorer on its own or among the weights', () => {
+    const routing = router();
+    routing.registerScorer('iso-14001', lab => lab.id === 'singapore-biolab' ? 1 : 0);
+
+    expect(routing.selectLab('dna-sequencer', { strategy: 'iso-14001' }).lab.id).toBe('singapore-biolab');
+    expect(routing.selectLab('dna-sequencer', { strategy: 'weighted', weights: { cost: 1, 'iso-14001': 2 } }).lab.id)
+      .toBe('singapore-biolab');
+
+    expect(routing.unregisterScorer('iso-14001')).toBe(true);
+    expect(() => routing.selectLab('dna-sequencer', { strategy: 'weighted', weights: { 'iso-14001': 1 } }))
+      .toThrow('Unknown routing criterion iso-14001');
+  });
+
+  it('refuses scorers named like built-ins, repeats and negative weights', () => {
+    const routing = router();
+    routing.registerScorer('custom', () => 1);
+
+    expect(() => routing.registerScorer('cost', () => 1)).toThrow('built-in');
+    expect(() => routing.registerScorer('balanced', () => 1)).toThrow('built-in');
+    expect(() => routing.registerScorer('custom', () => 1)).toThrow('already registered');
+    expect(() => routing.selectLab('dna-sequencer', { strategy: 'weighted', weights: { cost: -1 } }))
+      .toThrow('Weight for cost must be a number of at least 0');
+  });
+});
+
+describe('Router strategies', () => {
+  const router = new Router(new LabRegistry(undefined, { labs: MOCK_LABS }));
+
+  it('ranks balanced exactly like weighted with the default weights', () => {
+    expect(scores(router, 'balanced')).toEqual(scores(router, 'weighted', DEFAULT_ROUTING_WEIGHTS));
+  });
+
+  it('ranks cost-optimized on normalized cost alone', () => {
+    expect(scores(router, 'cost-optimized')).toEqual(scores(router, 'weighted', { cost: 1 }));
+
+    const ranked = scores(router, 'cost-optimized');
+    expect(ranked[0].score).toBe(100);
+    expect(ranked[ranked.length - 1].score).toBe(0);
+  });
+
+  it('ranks fastest on load and uptime', () => {
+    expect(scores(router, 'fastest')).toEqual(scores(router, 'weighted', { load: 0.7, uptime: 0.3 }));
+  });
+
+  it('ranks unknown strategies as balanced', () => {
+    expect(scores(router, 'no-such-strategy')).toEqual(scores(router, 'balanced'));
+  });
+});
+describe('Router explanations', () => {
+  function router(labs = MOCK_LABS): Router {
+    return new Router(new LabRegistry(undefined, { labs }));
+  }
+
+  it('ranks every candidate with its per-criterion scores', () => {
+    const { strategy, criteria, candidates } = router().explain('dna-sequencer', { strategy: 'cost-optimized' });
+
+    expect(strategy).toBe('cost-optimized');
+    expect(criteria).toEqual(['cost']);
+    expect(candidates.map(c => c.rank)).toEqual([1, 2, 3, 4]);
+    expect(candidates[0]).toMatchObject({ lab: 'stanford-lab', criteria: { cost: { score: 1 } } });
+    expect(candidates[0].criteria.cost.weight).toBe(1);
+    expect(Object.keys(candidates[0].criteria)).toEqual(['cost', 'quality', 'load', 'uptime', 'certifications']);
+  });
+
+  it('gives the weight share of each criterion under the weighted strategy', () => {
+    const { candidates } = router().explain('dna-sequencer', { strategy: 'weighted', weights: { cost: 1, quality: 3 } });
+
+    expect(candidates[0].criteria.cost.weight).toBe(0.25);
+    expect(candidates[0].criteria.quality.weight).toBe(0.75);
+    expect(candidates[0].criteria.uptime.weight).toBe(0);
+  });
+
+  it('records each eliminated lab against the first filter it failed', () => {
+    const { eliminated, candidates } = router().explain('dna-sequencer', {
+      strategy: 'balanced',
+      excludeLabs: ['mit-biolab'],
+      preferredLocations: ['US', 'SG'],
+      requireDataFormats: ['CRAM']
+    });
+
+    expect(eliminated.map(e => [e.lab, e.filter])).toEqual([
+      ['tokyo-biotech', 'instrument'],
+      ['oxford-lab', 'preferredLocations'],
+      ['mit-biolab', 'excludeLabs'],
+      ['stanford-lab', 'requireDataFormats']
+    ]);
+    expect(eliminated[0].reason).toBe('Doesn\'t run dna-sequencer');
+    expect(eliminated[3].reason).toBe('Illumina NextSeq 2000 doesn\'t output CRAM');
+    expect(candidates.map(c => c.lab)).toEqual(['singapore-biolab']);
+  });
+
+  it('explains busy labs and throws a RoutingError listing them when none is left', () => {
+    const labs = MOCK_LABS.map(lab => ({ ...cloneLab(lab), currentLoad: 95 }));
+
+    expect(router(labs).explain('nmr').eliminated.map(e => [e.filter, e.reason])).toEqual([
+      ['instrument', 'Doesn\'t run nmr'],
+      ['instrument', 'Doesn\'t run nmr'],
+      ['instrument', 'Doesn\'t run nmr'],
+      ['availability', 'Load too high (95%)'],
+      ['availability', 'Load too high (95%)']
+    ]);
+
+    const error = (() => {
+      try {
+        router(labs).selectLab('nmr');
+      } catch (err) {
+        return err as RoutingError;
+      }
+    })();
+    expect(error).toBeInstanceOf(RoutingError);
+    expect(error).toMatchObject({ code: 'NO_LABS_AVAILABLE', instrument: 'nmr' });
+    expect(error!.eliminated.filter(e => e.filter === 'availability')).toHaveLength(2);
+
+    expect(() => router().selectLab('nmr', { strategy: 'balanced', maxCost: 1 }))
+      .toThrow(expect.objectContaining({ code: 'NO_LABS_MATCH' }));
+  });
+
+  it('lists runners-up best first as alternatives', () => {
+    const selection = router().selectLab('dna-sequencer', { strategy: 'cost-optimized' });
+
+    expect([selection.lab, ...selection.alternatives].map(lab => lab.id))
+      .toEqual(selection.explanation!.candidates.map(c => c.lab));
+  });
+
+  it.each([
+    'balanced',
+    'cost-optimized',
+    'fastest',
+    'highest-quality',
+    'nearest',
+    'fastest-turnaround',
+    'lowest-landed-cost',
+    'no-such-strategy'
+  ])('breaks %s scores down into the terms that ranked them', (strategy) => {
+    const located = new Router(new LabRegistry(undefined, { labs: MOCK_LABS }), { lat: 40.7128, lon: -74.006 });
+    const { candidates, criteria } = located.explain('dna-sequencer', { strategy });
+
+    candidates.forEach(candidate => {
+      const terms = Object.values(candidate.criteria).map(({ score, weight }) => 100 * score * weight);
+      expect(terms.reduce((sum, term) => sum + term, 0)).toBeCloseTo(candidate.score, 6);
+
+      Object.entries(candidate.criteria).forEach(([criterion, { weight }]) => {
+        expect(weight > 0).toBe(criteria.includes(criterion));
+      });
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Lab402 } from '../lib/Lab402';
+import { BudgetManager } from '../lib/BudgetManager';
+import { ApprovalManager } from '../lib/ApprovalManager';
+import { MockTransport } from '../lib/MockTransport';
+import { BudgetExceededError } from '../lib/errors';
+
+const ANYONE = { researcher: 'any' };
+
+function setup(transport: MockTransport = new MockTransport()) {
+  const budget = new BudgetManager([{ id: 'total', scope: {}, window: 'total', hardLimit: 1000 }]);
+  const lab = new Lab402({
+    researcher: 'budget-key',
+    wallet: 'wallet',
+    transport,
+    budget,
+    approvals: new ApprovalManager([])
+  });
+
+  return { lab, budget };
+}
+
+describe('Lab402 budgets', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('refuses a request that would exceed the hard limit', async () => {
+    const budget = new BudgetManager([{ id: 'total', scope: {}, window: 'total', hardLimit: 1 }]);
+    const lab = new Lab402({ researcher: 'budget-key', wallet: 'wallet', transport: new MockTransport(), budget });
+
+    await expect(lab.request({ instrument: 'dna-sequencer', sample: 'sample-1' })).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(budget.getRemaining(ANYONE)).toBe(1);
+
+    await lab.close();
+  });
+
+  it('credits refunds of a cancelled run back to the budget', async () => {
+    const budget = new BudgetManager([{ id: 'total', scope: {}, window: 'total', hardLimit: 1000 }]);
+    const lab = new Lab402({ researcher: 'budget-key', wallet: 'wallet', transport: new MockTransport(), budget });
+
+    const analysis = await lab.request({ instrument: 'dna-sequencer', sample: 'sample-1' });
+    await analysis.start();
+    const decision = await analysis.cancel();
+
+    expect(budget.getRemaining(ANYONE)).toBeCloseTo(1000 - analysis.getInvoice().totalCost + decision!.amount, 6);
+    expect(await lab.getRemainingBudget()).toBeCloseTo(budget.getRemaining(ANYONE)!, 6);
+
+    await lab.close();
+  });
+});
+
+describe('Budget reservations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('debits the quoted amount at request time', async () => {
+    const { lab, budget } = setup();
+
+    const analysis = await lab.request({ instrument: 'dna-sequencer', sample: 'sample-1' });
+    const quoted = analysis.getInvoice().totalCost;
+
+    expect(budget.getRemaining(ANYONE)).toBeCloseTo(1000 - quoted, 6);
+
+    await lab.close();
+  });
+
+  it('credits the reservation back when a run is cancelled before payment', async () => {
+    const { lab, budget } = setup();
+
+    const analysis = await lab.request({ instrument: 'dna-sequencer', sample: 'sample-1' });
+    await analysis.cancel();
+
+    expect(budget.getRemaining(ANYONE)).toBeCloseTo(1000, 6);
+
+    await lab.close();
+  });
+
+  it('credits the reservation back when submission fails before payment', async () => {
+    const transport = new MockTransport();
+    transport.on('POST', '/analyses', () => MockTransport.json(503, { error: 'Lab offline' }));
+    const { lab, budget } = setup(transport);
+    const failed = vi.fn();
+    lab.on('analysis.failed', failed);
+
+    const analysis = await lab.request({ instrument: 'dna-sequencer', sample: 'sample-1' });
+    await expect(analysis.start()).rejects.toThrow();
+
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(failed.mock.calls[0][0].data.paid).toBe(false);
+    expect(budget.getRemaining(ANYONE)).toBeCloseTo(1000, 6);
+
+    await lab.close();
+  });
+
+  it('credits a cancelled approval hold only once', async () => {
+    const transport = new MockTransport();
+    const budget = new BudgetManager([{ id: 'total', scope: {}, window: 'total', hardLimit: 1000 }]);
+    const lab = new Lab402({
+      researcher: 'budget-key',
+      wallet: 'wallet',
+      transport,
+      budget,
+      approvals: new ApprovalManager([{ id: 'all', instruments: ['dna-sequencer'] }])
+    });
+
+    const analysis = await lab.request({ instrument: 'dna-sequencer', sample: 'sample-1' });
+    expect(analysis.getStatus()).toBe('awaiting-approval');
+
+    await analysis.cancel();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(budget.getRemaining(ANYONE)).toBeCloseTo(1000, 6);
+
+    await lab.close();
+  });
+});
+
+describe('Batch budget holds', () => {
+  const samples = [{ id: 'sample-1', data: {} }];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  function failPayments(transport: MockTransport, times: number): void {
+    let calls = 0;
+    transport.on('POST', '/payments', (request) => ++calls <= times
+      ? MockTransport.json(500, { error: 'Wallet unavailable' })
+      : MockTransport.json(200, { txHash: MockTransport.generateTxHash(), amount: request.body?.amount }));
+  }
+
+  it('credits a failed batch payment once and spends it again on retry', async () => {
+    const transport = new MockTransport();
+    failPayments(transport, 2);
+    const { lab, budget } = setup(transport);
+
+    const batch = await lab.createBatch({ instrument: 'dna-sequencer', samples });
+    const cost = batch.pricing.discountedCost;
+
+    await expect(batch.start()).rejects.toThrow();
+    await expect(batch.start()).rejects.toThrow();
+    expect(budget.getRemaining(ANYONE)).toBeCloseTo(1000, 6);
+
+    await batch.start();
+    expect(budget.getRemaining(ANYONE)).toBeCloseTo(1000 - cost, 6);
+
+    await lab.close();
+  });
+
+  it('refuses a retry the budget no longer covers', async () => {
+    const transport = new MockTransport();
+    failPayments(transport, 1);
+    const { lab, budget } = setup(transport);
+
+    const batch = await lab.createBatch({ instrument: 'dna-sequencer', samples });
+    await expect(batch.start()).rejects.toThrow();
+
+    budget.record(1000 - batch.pricing.discountedCost / 2, { researcher: 'someone-else' }, 'other-run');
+    const payments = transport.getRequests().filter(r => r.path === '/payments').length;
+
+    await expect(batch.start()).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(transport.getRequests().filter(r => r.path === '/payments')).toHaveLength(payments);
+
+    await lab.close();
+  });
+});
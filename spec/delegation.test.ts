@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Identity403, encodeDelegationMessage } from '../lib/Identity403';
+import { Lab402 } from '../lib/Lab402';
+import { ApprovalManager } from '../lib/ApprovalManager';
+import { MockTransport } from '../lib/MockTransport';
+import { JsonLinesDelegatedSpendStore } from '../lib/JsonLinesDelegatedSpendStore';
+import { MOCK_ISSUER } from '../lib/mock-data';
+import { generateKeypair, signBytes, encodeBase58 } from '../lib/crypto';
+import {
+  CredentialError,
+  DelegationError,
+  DelegationScopeError,
+  DelegationExpiredError,
+  InvalidSignatureError
+} from '../lib/errors';
+import type { Delegation, DelegationGrant } from '../lib/identity-types';
+
+describe('Delegation chains', () => {
+  let transport: MockTransport;
+  let pi: Identity403;
+  let postdoc: Identity403;
+  let student: Identity403;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    transport = new MockTransport();
+    const identity = (key: string) => new Identity403(key, transport, { trustedIssuers: [MOCK_ISSUER.publicKey] });
+    pi = identity('pi-key');
+    postdoc = identity('postdoc-key');
+    student = identity('student-key');
+    await pi.verifyIdentity();
+  });
+
+  // Sign a grant with a researcher key directly, bypassing delegate()'s own checks
+  function forge(researcherKey: string, grant: DelegationGrant) {
+    const { secretKey } = generateKeypair(createHash('sha256').update(researcherKey).digest());
+    return { grant, signature: encodeBase58(signBytes(secretKey, encodeDelegationMessage(grant))) };
+  }
+
+  it('narrows the effective scope down a multi-hop chain', () => {
+    const toPostdoc = pi.delegate(postdoc.getPublicKey(), { instruments: ['nmr', 'mass-spec'], maxSpend: 500 });
+    const toStudent = postdoc.delegate(student.getPublicKey(), { instruments: ['nmr'], maxSpend: 100 }, 3600000, toPostdoc);
+
+    const identity = student.verifyDelegation(toStudent);
+
+    expect(identity.publicKey).toBe(pi.getPublicKey());
+    expect(identity.delegation).toMatchObject({
+      chain: toStudent.chain.map(token => token.grant.id),
+      delegator: pi.getPublicKey(),
+      delegate: student.getPublicKey(),
+      instruments: ['nmr'],
+      maxSpend: 100
+    });
+    expect(identity.delegation!.expiresAt).toBe(toStudent.chain[1].grant.expiresAt);
+  });
+
+  it('inherits the parent scope when a re-delegation sets none of its own', () => {
+    const toPostdoc = pi.delegate(postdoc.getPublicKey(), { instruments: ['nmr'] });
+
+    expect(() => postdoc.delegate(student.getPublicKey(), {}, 3600000, toPostdoc)).toThrow(DelegationScopeError);
+    const toStudent = postdoc.delegate(student.getPublicKey(), { instruments: ['nmr'] }, 3600000, toPostdoc);
+
+    expect(student.verifyDelegation(toStudent).delegation?.instruments).toEqual(['nmr']);
+  });
+
+  it('refuses to re-delegate a wider scope than it was given', () => {
+    const toPostdoc = pi.delegate(postdoc.getPublicKey(), { instruments: ['nmr'], maxSpend: 100 });
+
+    expect(() => postdoc.delegate(student.getPublicKey(), { instruments: ['nmr', 'mass-spec'], maxSpend: 100 }, 3600000, toPostdoc))
+      .toThrow(DelegationScopeError);
+    expect(() => postdoc.delegate(student.getPublicKey(), { instruments: ['nmr'], maxSpend: 200 }, 3600000, toPostdoc))
+      .toThrow(DelegationScopeError);
+  });
+
+  it('rejects a chain whose later token widens the scope', () => {
+    const toPostdoc = pi.delegate(postdoc.getPublicKey(), { instruments: ['nmr'], maxSpend: 100 });
+    const parent = toPostdoc.chain[0].grant;
+    const widened: Delegation = {
+      ...toPostdoc,
+      chain: [...toPostdoc.chain, forge('postdoc-key', {
+        id: 'widened',
+        issuer: postdoc.getPublicKey(),
+        subject: student.getPublicKey(),
+        parent: parent.id,
+        scope: { instruments: ['nmr'], maxSpend: 1000 },
+        issuedAt: Date.now(),
+        expiresAt: parent.expiresAt
+      })]
+    };
+
+    expect(() => student.verifyDelegation(widened)).toThrow(DelegationScopeError);
+  });
+
+  it('rejects broken links: a missing middle token, a wrong parent or a tampered grant', () => {
+    const toPostdoc = pi.delegate(postdoc.getPublicKey(), { maxSpend: 100 });
+    const toStudent = postdoc.delegate(student.getPublicKey(), { maxSpend: 50 }, 3600000, toPostdoc);
+    const [root, leaf] = toStudent.chain;
+
+    // Without the root the chain no longer starts at the credential holder
+    expect(() => student.verifyDelegation({ ...toStudent, chain: [leaf] })).toThrow(CredentialError);
+    expect(() => student.verifyDelegation({
+      ...toStudent,
+      chain: [root, forge('postdoc-key', { ...leaf.grant, parent: 'another-token' })]
+    })).toThrow(DelegationError);
+    expect(() => student.verifyDelegation({
+      ...toStudent,
+      chain: [root, { ...leaf, grant: { ...leaf.grant, scope: { maxSpend: 100 } } }]
+    })).toThrow(InvalidSignatureError);
+  });
+
+  it('rejects a chain that ends at another key or has expired', () => {
+    const toPostdoc = pi.delegate(postdoc.getPublicKey(), {}, 1000);
+
+    expect(() => student.verifyDelegation(toPostdoc)).toThrow(DelegationError);
+    expect(() => postdoc.verifyDelegation(toPostdoc, Date.now() + 1000)).toThrow(DelegationExpiredError);
+    expect(() => postdoc.verifyDelegation({ ...toPostdoc, chain: [] })).toThrow('Delegation chain is empty');
+  });
+
+  it('caps spend across every token in the chain', () => {
+    const toPostdoc = pi.delegate(postdoc.getPublicKey(), { maxSpend: 100 });
+    const toStudent = postdoc.delegate(student.getPublicKey(), { maxSpend: 80 }, 3600000, toPostdoc);
+    const identity = student.verifyDelegation(toStudent);
+
+    student.authorizeDelegatedSpend(identity, 60);
+
+    expect(() => student.authorizeDelegatedSpend(identity, 30)).toThrow(DelegationScopeError);
+    student.recordDelegatedSpend(identity, -60);
+    student.authorizeDelegatedSpend(identity, 80);
+  });
+});
+
+describe('Delegated spend caps', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), 'lab402-delegation-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function delegateClient(transport: MockTransport, delegation: Delegation): Lab402 {
+    return new Lab402({
+      researcher: 'student-key',
+      wallet: 'student-wallet',
+      transport,
+      delegation,
+      delegatedSpend: new JsonLinesDelegatedSpendStore(join(dir, 'delegated-spend.jsonl')),
+      approvals: new ApprovalManager([])
+    });
+  }
+
+  it('holds across restarts and clients sharing the spend store', async () => {
+    const transport = new MockTransport();
+    const pi = new Lab402({ researcher: 'pi-key', wallet: 'pi-wallet', transport, approvals: new ApprovalManager([]) });
+    const request = { instrument: 'dna-sequencer' as const, sample: 'sample-1' };
+    const cost = (await pi.request(request)).getInvoice().totalCost;
+
+    const student = new Lab402({ researcher: 'student-key', wallet: 'student-wallet', transport });
+    const delegation = await pi.delegate(student.getPublicKey(), { maxSpend: cost * 1.5 });
+
+    const first = delegateClient(transport, delegation);
+    await first.request(request);
+    await first.close();
+
+    // A fresh client, as after a restart, still sees the first run's spend
+    const second = delegateClient(transport, delegation);
+    await expect(second.request(request)).rejects.toBeInstanceOf(DelegationScopeError);
+
+    await second.close();
+    await student.close();
+    await pi.close();
+  });
+});
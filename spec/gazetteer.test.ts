@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { geocode, resolveLocation } from '../lib/gazetteer';
+import { Router } from '../lib/Router';
+import { LabRegistry } from '../lib/LabRegistry';
+import { Lab402 } from '../lib/Lab402';
+import { MOCK_LABS, cloneLab } from '../lib/mock-data';
+import { LocationError } from '../lib/errors';
+
+function locationError(location: Parameters<typeof resolveLocation>[0]): LocationError {
+  try {
+    resolveLocation(location);
+  } catch (error) {
+    return error as LocationError;
+  }
+  throw new Error(`${JSON.stringify(location)} resolved`);
+}
+
+describe('gazetteer', () => {
+  it('matches names, aliases and accents regardless of case and spacing', () => {
+    expect(geocode('  new   york ').map(entry => entry.city)).toEqual(['New York']);
+    expect(geocode('NYC').map(entry => entry.city)).toEqual(['New York']);
+    expect(geocode('Saint Louis')[0].city).toBe('St. Louis');
+  });
+
+  it('narrows a city by region, country code or country name', () => {
+    expect(geocode('Cambridge')).toHaveLength(2);
+    expect(geocode('Cambridge, MA')[0].country).toBe('US');
+    expect(geocode('Cambridge, UK')[0].country).toBe('UK');
+    expect(geocode('Cambridge, United Kingdom')[0].country).toBe('UK');
+  });
+
+  it('refuses an ambiguous name and lists the candidates', () => {
+    const error = locationError('Cambridge');
+
+    expect(error).toBeInstanceOf(LocationError);
+    expect(error.code).toBe('LOCATION_AMBIGUOUS');
+    expect(error.message).toBe('"Cambridge" is ambiguous: Cambridge, MA, US or Cambridge, UK');
+  });
+
+  it('refuses unknown names and invalid coordinates', () => {
+    expect(locationError('Atlantis').code).toBe('LOCATION_UNKNOWN');
+    expect(locationError('Cambridge, France').code).toBe('LOCATION_UNKNOWN');
+    expect(locationError({ lat: 95, lon: 0 }).code).toBe('LOCATION_INVALID');
+    expect(resolveLocation('Oxford, UK')).toEqual({ lat: 51.752, lon: -1.2577, country: 'UK' });
+  });
+});
+
+describe('Router distances', () => {
+  it('ranks nearest labs from the user location', () => {
+    const router = new Router(new LabRegistry(undefined, { labs: MOCK_LABS }), resolveLocation('Oxford, UK'));
+
+    const selection = router.selectLab('dna-sequencer', { strategy: 'nearest' });
+
+    expect(selection.lab.id).toBe('oxford-lab');
+    expect(selection.distance).toBeLessThan(5);
+    expect(selection.reasoning).toContain('Closest to your location (');
+  });
+
+  it('places labs without coordinates by their location and drops unplaceable ones', () => {
+    const labs = MOCK_LABS.map(cloneLab);
+    delete labs[0].coordinates;
+    labs[0].location = 'Cambridge, MA';
+    delete labs[1].coordinates;
+    labs[1].location = 'Nowhere';
+    const router = new Router(new LabRegistry(undefined, { labs }), resolveLocation('Boston'));
+
+    const near = router.getLabPricing('dna-sequencer').filter(p => p.distance !== undefined && p.distance < 500);
+
+    expect(near.map(p => p.lab)).toEqual([labs[0].id]);
+    expect(() => router.selectLab('spectroscopy', { strategy: 'balanced', maxDistance: 500 }))
+      .toThrow('No labs match routing criteria');
+  });
+
+  it('lets Lab402 take a city name and move it later', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const lab = new Lab402({ researcher: 'geo-key', wallet: 'wallet', location: 'Tokyo' });
+
+    expect(lab.getLocation()).toEqual(resolveLocation('Tokyo'));
+    expect(lab.setLocation('Singapore')).toEqual(resolveLocation('Singapore'));
+    expect(() => lab.setLocation('Cambridge')).toThrow(LocationError);
+
+    await lab.close();
+  });
+});
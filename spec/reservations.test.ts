@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Lab402 } from '../lib/Lab402';
+import { ApprovalManager } from '../lib/ApprovalManager';
+import { BudgetManager } from '../lib/BudgetManager';
+import { MOCK_ISSUER } from '../lib/mock-data';
+import { BudgetExceededError } from '../lib/errors';
+
+const HOUR = 3600000;
+
+describe('Reservations held by analyses', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('frees the slot when the approval is rejected', async () => {
+    const approvals = new ApprovalManager(
+      [{ id: 'mass-spec', instruments: ['mass-spec'] }],
+      { trustedIssuers: [MOCK_ISSUER.publicKey] }
+    );
+    const lab = new Lab402({ researcher: 'holder-key', wallet: 'wallet', approvals });
+    const supervisor = new Lab402({ researcher: 'supervisor-key', wallet: 'wallet', approvals });
+
+    const reservation = await lab.reserveSlot({
+      labId: 'mit-biolab',
+      instrument: 'mass-spec',
+      start: Date.now() + HOUR,
+      duration: HOUR
+    });
+    const analysis = await lab.request({ instrument: 'mass-spec', sample: 'protein-1', reservation: reservation.id });
+
+    await supervisor.reject(analysis.getApproval()!.id, 'Not this week');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(lab.getScheduler().getReservation(reservation.id)).toMatchObject({
+      status: 'released',
+      analysisId: undefined
+    });
+    expect(lab.findAvailableSlots('mit-biolab', 'mass-spec', HOUR, reservation.start, reservation.end)).toHaveLength(1);
+
+    await lab.close();
+    await supervisor.close();
+  });
+
+  it('keeps the slot for a retry when the budget refuses the request', async () => {
+    const budget = new BudgetManager([{ id: 'cap', scope: {}, window: 'total', hardLimit: 1 }]);
+    const lab = new Lab402({ researcher: 'holder-key', wallet: 'wallet', budget, approvals: new ApprovalManager([]) });
+
+    const reservation = await lab.reserveSlot({
+      labId: 'mit-biolab',
+      instrument: 'mass-spec',
+      start: Date.now() + HOUR,
+      duration: HOUR
+    });
+
+    await expect(lab.request({ instrument: 'mass-spec', sample: 'protein-1', reservation: reservation.id }))
+      .rejects.toThrow(BudgetExceededError);
+
+    expect(lab.getScheduler().getReservation(reservation.id)).toMatchObject({
+      status: 'reserved',
+      analysisId: undefined
+    });
+
+    await lab.close();
+  });
+});